@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { GameMode, MapPoolStatus, PrismaClient, ReportCategory } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
@@ -53,9 +53,14 @@ async function main() {
   ];
 
   const createdMaps = [];
-  for (const map of maps) {
+  for (const [displayOrder, map] of maps.entries()) {
     const createdMap = await prisma.map.create({
-      data: map,
+      data: {
+        ...map,
+        poolStatus: MapPoolStatus.ACTIVE_DUTY,
+        displayOrder,
+        gameModes: [GameMode.PREMIER, GameMode.COMPETITIVE],
+      },
     });
     createdMaps.push(createdMap);
     console.log(`Created map: ${createdMap.name}`);
@@ -95,8 +100,8 @@ async function main() {
       title: 'Xbox Smoke from Long',
       videoUrl: 'https://www.youtube.com/watch?v=example1',
       timestamp: 15,
-      x_coord: 1024.5,
-      y_coord: 768.2,
+      x_coord: 0.72,
+      y_coord: 0.3,
       authorId: createdUsers[0].id,
       mapId: createdMaps[0].id, // Dust2
     },
@@ -104,8 +109,8 @@ async function main() {
       title: 'CT Smoke from Tunnels',
       videoUrl: 'https://www.youtube.com/watch?v=example2',
       timestamp: 22,
-      x_coord: 512.8,
-      y_coord: 1024.1,
+      x_coord: 0.5,
+      y_coord: 0.85,
       authorId: createdUsers[1].id,
       mapId: createdMaps[0].id, // Dust2
     },
@@ -113,8 +118,8 @@ async function main() {
       title: 'Connector Smoke from Palace',
       videoUrl: 'https://www.youtube.com/watch?v=example3',
       timestamp: 18,
-      x_coord: 800.3,
-      y_coord: 600.7,
+      x_coord: 0.78,
+      y_coord: 0.59,
       authorId: createdUsers[0].id,
       mapId: createdMaps[1].id, // Mirage
     },
@@ -122,8 +127,8 @@ async function main() {
       title: 'Jungle Smoke from Ramp',
       videoUrl: 'https://www.youtube.com/watch?v=example4',
       timestamp: 25,
-      x_coord: 900.1,
-      y_coord: 450.9,
+      x_coord: 0.88,
+      y_coord: 0.44,
       authorId: createdUsers[2].id,
       mapId: createdMaps[1].id, // Mirage
     },
@@ -131,8 +136,8 @@ async function main() {
       title: 'Balcony Smoke from Apartments',
       videoUrl: 'https://www.youtube.com/watch?v=example5',
       timestamp: 20,
-      x_coord: 700.5,
-      y_coord: 800.3,
+      x_coord: 0.68,
+      y_coord: 0.78,
       authorId: createdUsers[1].id,
       mapId: createdMaps[2].id, // Inferno
     },
@@ -168,12 +173,14 @@ async function main() {
   // Seed test reports
   const reports = [
     {
-      reason: 'This smoke strategy is outdated and no longer works in the current version of CS2.',
+      category: ReportCategory.BROKEN_AFTER_UPDATE,
+      comment: 'This smoke strategy is outdated and no longer works in the current version of CS2.',
       reporterId: createdUsers[2].id,
       smokeId: createdSmokes[1].id,
     },
     {
-      reason: 'The video contains inappropriate content that violates community guidelines.',
+      category: ReportCategory.OFFENSIVE,
+      comment: 'The video contains inappropriate content that violates community guidelines.',
       reporterId: createdUsers[0].id,
       smokeId: createdSmokes[3].id,
     },
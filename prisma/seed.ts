@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { GameMode, MapPoolStatus, PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
@@ -44,11 +44,16 @@ async function main() {
     }
   ];
 
-  for (const map of maps) {
+  for (const [displayOrder, map] of maps.entries()) {
     await prisma.map.upsert({
       where: { name: map.name },
       update: {},
-      create: map,
+      create: {
+        ...map,
+        poolStatus: MapPoolStatus.ACTIVE_DUTY,
+        displayOrder,
+        gameModes: [GameMode.PREMIER, GameMode.COMPETITIVE],
+      },
     });
   }
 
@@ -2,6 +2,9 @@
 
 import { PrismaClient } from '@prisma/client';
 import { execSync } from 'child_process';
+import { searchVectorSql } from '../src/smokes/search-document';
+import { SMOKE_POINTS_SET } from '../src/smokes/spatial-query';
+import { DEFAULT_SMOKE_RETENTION, purgeDeletedSmokes } from '../src/smokes/smoke-retention';
 
 const prisma = new PrismaClient();
 
@@ -76,6 +79,75 @@ const commands: DbCommand[] = [
       execSync('npm run prisma:studio', { stdio: 'inherit' });
     },
   },
+  {
+    name: 'search-reindex',
+    description: 'Rebuild the full-text search documents of all smokes',
+    action: async () => {
+      console.log('🔎 Rebuilding smoke search documents...');
+      const smokes = await prisma.smoke.findMany({
+        select: {
+          id: true,
+          title: true,
+          callout: true,
+          description: true,
+          map: { select: { name: true } },
+        },
+      });
+      for (const smoke of smokes) {
+        const vector = searchVectorSql({ ...smoke, mapName: smoke.map.name });
+        await prisma.$executeRaw`UPDATE smokes SET "searchVector" = ${vector} WHERE id = ${smoke.id}`;
+      }
+      console.log(`✅ Reindexed ${smokes.length} smokes`);
+    },
+  },
+  {
+    name: 'spatial-reindex',
+    description: 'Rebuild the indexed landing and throw points of all smokes',
+    action: async () => {
+      console.log('📍 Rebuilding smoke points...');
+      const smokes = await prisma.$executeRaw`UPDATE smokes SET ${SMOKE_POINTS_SET}`;
+      console.log(`✅ Reindexed ${smokes} smokes`);
+    },
+  },
+  {
+    name: 'normalize-coordinates',
+    description: 'Convert smoke coordinates stored as radar pixels to normalised 0-1 coordinates',
+    action: async () => {
+      console.log('📐 Normalising smoke coordinates...');
+      // Pixel positions are always above 1 in at least one axis, so already normalised rows are skipped
+      const smokes = await prisma.$executeRaw`
+        UPDATE smokes s SET
+          x_coord = s.x_coord / m."radarWidth",
+          y_coord = s.y_coord / m."radarHeight",
+          throw_x_coord = s.throw_x_coord / m."radarWidth",
+          throw_y_coord = s.throw_y_coord / m."radarHeight"
+        FROM maps m
+        WHERE s."mapId" = m.id
+          AND (s.x_coord > 1 OR s.y_coord > 1 OR s.throw_x_coord > 1 OR s.throw_y_coord > 1)
+      `;
+      const revisions = await prisma.$executeRaw`
+        UPDATE smoke_revisions r SET
+          x_coord = r.x_coord / m."radarWidth",
+          y_coord = r.y_coord / m."radarHeight",
+          throw_x_coord = r.throw_x_coord / m."radarWidth",
+          throw_y_coord = r.throw_y_coord / m."radarHeight"
+        FROM smokes s JOIN maps m ON m.id = s."mapId"
+        WHERE r."smokeId" = s.id
+          AND (r.x_coord > 1 OR r.y_coord > 1 OR r.throw_x_coord > 1 OR r.throw_y_coord > 1)
+      `;
+      console.log(`✅ Normalised ${smokes} smokes and ${revisions} revisions`);
+    },
+  },
+  {
+    name: 'purge-deleted',
+    description: 'Permanently remove smokes deleted longer ago than SMOKE_PURGE_AFTER_DAYS',
+    action: async () => {
+      const days = Number(process.env.SMOKE_PURGE_AFTER_DAYS ?? DEFAULT_SMOKE_RETENTION.purgeAfterDays);
+      console.log(`🗑️  Purging smokes deleted more than ${days} days ago...`);
+      const result = await purgeDeletedSmokes(prisma, days);
+      console.log(`✅ Purged ${result.smokes} smokes, ${result.ratings} ratings and ${result.reports} reports`);
+    },
+  },
   {
     name: 'clean',
     description: 'Clean all data (dangerous!)',
@@ -129,7 +201,15 @@ async function main() {
   }
 
   // Check database connection for commands that need it
-  const needsConnection = ['clean', 'seed', 'seed-dev'];
+  const needsConnection = [
+    'clean',
+    'seed',
+    'seed-dev',
+    'search-reindex',
+    'spatial-reindex',
+    'normalize-coordinates',
+    'purge-deleted',
+  ];
   if (needsConnection.includes(command)) {
     console.log('🔍 Checking database connection...');
     const isConnected = await checkDatabaseConnection();
@@ -7,6 +7,8 @@ import { SmokesModule } from './smokes/smokes.module';
 import { RatingsModule } from './ratings/ratings.module';
 import { ReportsModule } from './reports/reports.module';
 import { UsersModule } from './users/users.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { AuditModule } from './audit/audit.module';
 import { EnvironmentVariables } from './config/env.validation';
 import { validateSync } from 'class-validator';
 import { plainToClass } from 'class-transformer';
@@ -39,6 +41,8 @@ function validate(config: Record<string, unknown>) {
     RatingsModule,
     ReportsModule,
     UsersModule,
+    NotificationsModule,
+    AuditModule,
   ],
 })
 export class AppModule {}
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { AuditLogQueryDto } from '../common/dto/audit-log-query.dto';
+import { AuditLogResponseDto } from '../common/dto/audit-log-response.dto';
+import { PaginatedResponseDto } from '../common/dto/paginated-response.dto';
+import { AuditService } from './audit.service';
+
+@ApiTags('audit')
+@Controller()
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  /**
+   * GET /admin/audit-logs
+   * Search the audit log of write operations, newest first
+   * Filter with ?actorId=, ?action=, ?entityType= and ?entityId=, ?from= and ?to=; paginated with ?limit= and ?cursor=
+   * Admin endpoint - requires the ADMIN role
+   */
+  @Get('admin/audit-logs')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Search the audit log by actor, target and time range' })
+  @ApiResponse({ status: 200, description: 'Page of audit log entries' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires the admin role' })
+  async getAuditLogs(@Query() query: AuditLogQueryDto): Promise<PaginatedResponseDto<AuditLogResponseDto>> {
+    return this.auditService.find(query);
+  }
+}
@@ -0,0 +1,140 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { AuditAction, AuditEntityType } from '@prisma/client';
+import { AuditService } from './audit.service';
+import { runWithRequestMetadata } from './request-metadata';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let prismaService: any;
+
+  const entry = {
+    actorId: 1,
+    action: AuditAction.UPDATE,
+    entityType: AuditEntityType.SMOKE,
+    entityId: 7,
+    before: { title: 'Old title', deletedAt: null },
+    after: { title: 'New title', deletedAt: new Date('2025-03-01T10:00:00Z') },
+  };
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      auditLog: {
+        create: jest.fn(),
+        findMany: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditService>(AuditService);
+    prismaService = module.get(PrismaService);
+  });
+
+  describe('record', () => {
+    it('should store the entry with the IP and user agent of the current request', async () => {
+      // Act
+      await runWithRequestMetadata({ ipAddress: '203.0.113.7', userAgent: 'Mozilla/5.0' }, () =>
+        service.record(entry),
+      );
+
+      // Assert
+      expect(prismaService.auditLog.create).toHaveBeenCalledWith({
+        data: {
+          actorId: 1,
+          action: AuditAction.UPDATE,
+          entityType: AuditEntityType.SMOKE,
+          entityId: 7,
+          before: { title: 'Old title', deletedAt: null },
+          after: { title: 'New title', deletedAt: '2025-03-01T10:00:00.000Z' },
+          ipAddress: '203.0.113.7',
+          userAgent: 'Mozilla/5.0',
+        },
+      });
+    });
+
+    it('should leave the request fields empty outside of a request', async () => {
+      // Act
+      await service.record({ ...entry, before: undefined });
+
+      // Assert
+      expect(prismaService.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ before: undefined, ipAddress: null, userAgent: null }),
+      });
+    });
+
+    it('should use the given transaction client', async () => {
+      // Arrange
+      const tx = { auditLog: { create: jest.fn() } };
+
+      // Act
+      await service.record(entry, tx as any);
+
+      // Assert
+      expect(tx.auditLog.create).toHaveBeenCalled();
+      expect(prismaService.auditLog.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('find', () => {
+    it('should filter by actor, target and time range, newest first', async () => {
+      // Arrange
+      prismaService.auditLog.findMany.mockResolvedValue([]);
+
+      // Act
+      await service.find({
+        actorId: 1,
+        entityType: AuditEntityType.SMOKE,
+        entityId: 7,
+        from: '2025-01-01',
+        to: '2025-02-01',
+      });
+
+      // Assert
+      expect(prismaService.auditLog.findMany).toHaveBeenCalledWith({
+        where: {
+          actorId: 1,
+          action: undefined,
+          entityType: AuditEntityType.SMOKE,
+          entityId: 7,
+          createdAt: { gte: new Date('2025-01-01'), lte: new Date('2025-02-01') },
+          id: undefined,
+        },
+        orderBy: { id: 'desc' },
+        take: 51,
+      });
+    });
+
+    it('should page with a cursor on the entry id', async () => {
+      // Arrange
+      prismaService.auditLog.findMany.mockResolvedValue([{ id: 30 }, { id: 29 }, { id: 28 }]);
+
+      // Act
+      const firstPage = await service.find({ limit: 2 });
+      await service.find({ limit: 2, cursor: firstPage.pagination.nextCursor });
+
+      // Assert
+      expect(firstPage.data).toEqual([{ id: 30 }, { id: 29 }]);
+      expect(firstPage.pagination).toEqual({ limit: 2, hasMore: true, nextCursor: expect.any(String) });
+      expect(prismaService.auditLog.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ id: { lt: 29 } }) }),
+      );
+    });
+
+    it('should reject an invalid cursor', async () => {
+      // Act & Assert
+      await expect(service.find({ cursor: 'not-a-cursor' })).rejects.toThrow(
+        new BadRequestException('Invalid pagination cursor'),
+      );
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { AuditAction, AuditEntityType, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogQueryDto } from '../common/dto/audit-log-query.dto';
+import { AuditLogResponseDto } from '../common/dto/audit-log-response.dto';
+import { PaginatedResponseDto } from '../common/dto/paginated-response.dto';
+import { getRequestMetadata } from './request-metadata';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * A write operation to record, the request IP and user agent are added automatically
+ */
+export interface AuditEntry {
+  // Null for changes made by the system
+  actorId: number | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: number;
+  // State of the changed fields before and after, omitted for creations and deletions respectively
+  before?: object;
+  after?: object;
+}
+
+@Injectable()
+export class AuditService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Store an audit log entry
+   * Accepts a transaction client so the entry is only stored if the change it describes is
+   */
+  async record(entry: AuditEntry, client: Prisma.TransactionClient = this.prisma): Promise<void> {
+    const { ipAddress, userAgent } = getRequestMetadata();
+
+    await client.auditLog.create({
+      data: {
+        actorId: entry.actorId,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        before: this.toJson(entry.before),
+        after: this.toJson(entry.after),
+        ipAddress,
+        userAgent,
+      },
+    });
+  }
+
+  /**
+   * Search the audit log by actor, action, target and time range, newest first
+   */
+  async find(query: AuditLogQueryDto = {}): Promise<PaginatedResponseDto<AuditLogResponseDto>> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const beforeId = query.cursor ? this.decodeCursor(query.cursor) : undefined;
+
+    const entries = await this.prisma.auditLog.findMany({
+      where: {
+        actorId: query.actorId,
+        action: query.action,
+        entityType: query.entityType,
+        entityId: query.entityId,
+        createdAt: {
+          gte: query.from ? new Date(query.from) : undefined,
+          lte: query.to ? new Date(query.to) : undefined,
+        },
+        id: beforeId !== undefined ? { lt: beforeId } : undefined,
+      },
+      orderBy: { id: 'desc' },
+      take: limit + 1,
+    });
+
+    const hasMore = entries.length > limit;
+    const data = entries.slice(0, limit);
+
+    return {
+      data,
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore
+          ? Buffer.from(JSON.stringify({ id: data[data.length - 1].id })).toString('base64url')
+          : null,
+      },
+    };
+  }
+
+  /**
+   * Snapshots are stored as plain JSON, so dates become ISO strings
+   */
+  private toJson(snapshot?: object): Prisma.InputJsonValue | undefined {
+    return snapshot === undefined ? undefined : JSON.parse(JSON.stringify(snapshot));
+  }
+
+  private decodeCursor(raw: string): number {
+    let cursor: { id?: unknown };
+
+    try {
+      cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    } catch {
+      throw new BadRequestException('Invalid pagination cursor');
+    }
+
+    if (!Number.isInteger(cursor?.id)) {
+      throw new BadRequestException('Invalid pagination cursor');
+    }
+
+    return cursor.id as number;
+  }
+}
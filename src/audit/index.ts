@@ -0,0 +1,4 @@
+export * from './audit.service';
+export * from './audit.controller';
+export * from './audit.module';
+export * from './request-metadata';
@@ -0,0 +1,31 @@
+import express from 'express';
+import request from 'supertest';
+import { RequestMetadataMiddleware, getRequestMetadata } from './request-metadata';
+
+describe('RequestMetadataMiddleware', () => {
+  const createApp = (trustedHops: number) => {
+    const app = express();
+    const middleware = new RequestMetadataMiddleware();
+
+    app.set('trust proxy', trustedHops);
+    app.use((req, res, next) => middleware.use(req, res, next));
+    app.get('/', (req, res) => res.json(getRequestMetadata()));
+
+    return app;
+  };
+
+  it('should ignore X-Forwarded-For when no proxy is trusted', async () => {
+    const response = await request(createApp(0)).get('/').set('X-Forwarded-For', '203.0.113.7');
+
+    expect(response.body.ipAddress).not.toBe('203.0.113.7');
+  });
+
+  it('should take the address appended by the trusted proxy rather than one forged by the client', async () => {
+    const response = await request(createApp(1))
+      .get('/')
+      .set('X-Forwarded-For', '198.51.100.1, 203.0.113.7')
+      .set('User-Agent', 'Mozilla/5.0');
+
+    expect(response.body).toEqual({ ipAddress: '203.0.113.7', userAgent: 'Mozilla/5.0' });
+  });
+});
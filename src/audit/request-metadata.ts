@@ -0,0 +1,42 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Where a request came from, recorded with every audit log entry
+ */
+export interface RequestMetadata {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+const storage = new AsyncLocalStorage<RequestMetadata>();
+
+/**
+ * Metadata of the request being handled, or nulls outside of a request (scripts, tests)
+ */
+export function getRequestMetadata(): RequestMetadata {
+  return storage.getStore() ?? { ipAddress: null, userAgent: null };
+}
+
+export function runWithRequestMetadata<T>(metadata: RequestMetadata, callback: () => T): T {
+  return storage.run(metadata, callback);
+}
+
+/**
+ * Make the client IP and user agent available to services for the rest of the request,
+ * so audit logging does not need them passed through every method
+ */
+@Injectable()
+export class RequestMetadataMiddleware implements NestMiddleware {
+  use(req: Request, res: Response, next: NextFunction): void {
+    // Express only reads X-Forwarded-For up to the proxies trusted with TRUST_PROXY_HOPS, clients cannot forge req.ip
+    runWithRequestMetadata(
+      {
+        ipAddress: req.ip || null,
+        userAgent: req.headers['user-agent'] ?? null,
+      },
+      next,
+    );
+  }
+}
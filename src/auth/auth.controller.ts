@@ -68,6 +68,7 @@ export class AuthController {
             steamId: { type: 'string', example: '76561198000000000' },
             username: { type: 'string', example: 'PlayerName' },
             avatarUrl: { type: 'string', example: 'https://steamcdn-a.akamaihd.net/steamcommunity/public/images/avatars/...' },
+            role: { type: 'string', enum: ['USER', 'MODERATOR', 'ADMIN'], example: 'USER' },
           },
         },
       },
@@ -103,6 +104,7 @@ export class AuthController {
           steamId: user.steamId,
           username: user.username,
           avatarUrl: user.avatarUrl,
+          role: user.role,
         },
       };
 
@@ -139,6 +141,7 @@ export class AuthController {
         steamId: { type: 'string', example: '76561198000000000' },
         username: { type: 'string', example: 'PlayerName' },
         avatarUrl: { type: 'string', example: 'https://steamcdn-a.akamaihd.net/steamcommunity/public/images/avatars/...' },
+        role: { type: 'string', enum: ['USER', 'MODERATOR', 'ADMIN'], example: 'USER' },
         createdAt: { type: 'string', format: 'date-time' },
         updatedAt: { type: 'string', format: 'date-time' },
       },
@@ -159,6 +162,7 @@ export class AuthController {
       steamId: user.steamId,
       username: user.username,
       avatarUrl: user.avatarUrl,
+      role: user.role,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     };
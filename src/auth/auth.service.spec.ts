@@ -1,12 +1,15 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { JwtService } from '@nestjs/jwt';
+import { AuditAction, AuditEntityType, Role } from '@prisma/client';
 import { AuthService } from './auth.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
 import { JwtPayload } from './interfaces/jwt-payload.interface';
 
 describe('AuthService', () => {
   let service: AuthService;
   let prismaService: any;
+  let auditService: { record: jest.Mock };
   let jwtService: any;
 
   const mockUser = {
@@ -14,6 +17,7 @@ describe('AuthService', () => {
     steamId: '76561198000000000',
     username: 'TestUser',
     avatarUrl: 'https://example.com/avatar.jpg',
+    role: Role.USER,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -36,12 +40,16 @@ describe('AuthService', () => {
         create: jest.fn(),
         update: jest.fn(),
       },
+      $transaction: jest.fn(),
     };
+    mockPrismaService.$transaction.mockImplementation((callback) => callback(mockPrismaService));
 
     const mockJwtService = {
       sign: jest.fn(),
     };
 
+    auditService = { record: jest.fn() };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AuthService,
@@ -49,6 +57,10 @@ describe('AuthService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: AuditService,
+          useValue: auditService,
+        },
         {
           provide: JwtService,
           useValue: mockJwtService,
@@ -85,6 +97,17 @@ describe('AuthService', () => {
           avatarUrl: mockSteamProfile.photos[2].value,
         },
       });
+      expect(auditService.record).toHaveBeenCalledWith(
+        {
+          actorId: mockUser.id,
+          action: AuditAction.CREATE,
+          entityType: AuditEntityType.USER,
+          entityId: mockUser.id,
+          before: undefined,
+          after: { steamId: mockUser.steamId, username: mockUser.username, avatarUrl: mockUser.avatarUrl },
+        },
+        prismaService,
+      );
       expect(result).toEqual(mockUser);
     });
 
@@ -114,6 +137,14 @@ describe('AuthService', () => {
           avatarUrl: updatedProfile.photos[2].value,
         },
       });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.LOGIN,
+          before: { username: 'TestUser', avatarUrl: mockUser.avatarUrl },
+          after: expect.objectContaining({ username: 'UpdatedUser' }),
+        }),
+        prismaService,
+      );
       expect(result).toEqual(updatedUser);
     });
 
@@ -190,6 +221,7 @@ describe('AuthService', () => {
         sub: mockUser.id,
         steamId: mockUser.steamId,
         username: mockUser.username,
+        role: Role.USER,
       };
       jwtService.sign.mockReturnValue(expectedToken);
 
@@ -207,12 +239,14 @@ describe('AuthService', () => {
         id: 2,
         steamId: '76561198000000001',
         username: 'MinimalUser',
+        role: Role.MODERATOR,
       };
       const expectedToken = 'minimal.jwt.token';
       const expectedPayload: JwtPayload = {
         sub: minimalUser.id,
         steamId: minimalUser.steamId,
         username: minimalUser.username,
+        role: Role.MODERATOR,
       };
       jwtService.sign.mockReturnValue(expectedToken);
 
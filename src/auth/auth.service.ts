@@ -1,6 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { AuditAction, AuditEntityType, Role } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
 import { JwtPayload } from './interfaces/jwt-payload.interface';
 
 @Injectable()
@@ -8,6 +10,7 @@ export class AuthService {
   constructor(
     private readonly prismaService: PrismaService,
     private readonly jwtService: JwtService,
+    private readonly auditService: AuditService,
   ) {}
 
   /**
@@ -20,42 +23,60 @@ export class AuthService {
     const avatarUrl = profile.photos?.[2]?.value || profile.photos?.[1]?.value || profile.photos?.[0]?.value;
 
     // Check if user already exists
-    let user = await this.prismaService.user.findUnique({
+    const existingUser = await this.prismaService.user.findUnique({
       where: { steamId },
     });
 
-    if (user) {
-      // Update existing user profile information
-      user = await this.prismaService.user.update({
-        where: { steamId },
-        data: {
-          username,
-          avatarUrl,
-        },
-      });
-    } else {
-      // Create new user
-      user = await this.prismaService.user.create({
-        data: {
-          steamId,
-          username,
-          avatarUrl,
+    return this.prismaService.$transaction(async (tx) => {
+      let user: typeof existingUser;
+
+      if (existingUser) {
+        // Update existing user profile information
+        user = await tx.user.update({
+          where: { steamId },
+          data: {
+            username,
+            avatarUrl,
+          },
+        });
+      } else {
+        // Create new user
+        user = await tx.user.create({
+          data: {
+            steamId,
+            username,
+            avatarUrl,
+          },
+        });
+      }
+
+      // Logins refresh the Steam profile, so they are audited with the profile before and after
+      await this.auditService.record(
+        {
+          actorId: user.id,
+          action: existingUser ? AuditAction.LOGIN : AuditAction.CREATE,
+          entityType: AuditEntityType.USER,
+          entityId: user.id,
+          before: existingUser ? { username: existingUser.username, avatarUrl: existingUser.avatarUrl } : undefined,
+          after: { steamId, username: user.username, avatarUrl: user.avatarUrl },
         },
-      });
-    }
+        tx,
+      );
 
-    return user;
+      return user;
+    });
   }
 
   /**
    * Generates JWT token containing user information
    * Requirements: 1.3
    */
-  async generateJwtToken(user: { id: number; steamId: string; username: string }) {
+  async generateJwtToken(user: { id: number; steamId: string; username: string; role: Role }) {
     const payload: JwtPayload = {
       sub: user.id,
       steamId: user.steamId,
       username: user.username,
+      role: user.role,
     };
 
     return this.jwtService.sign(payload);
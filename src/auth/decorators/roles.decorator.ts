@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from '@prisma/client';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Restrict a route to users with one of the given roles (or a higher one)
+ * Must be combined with JwtAuthGuard and RolesGuard: @UseGuards(JwtAuthGuard, RolesGuard)
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,28 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CronSecretGuard } from './cron-secret.guard';
+
+describe('CronSecretGuard', () => {
+  const createContext = (authorization?: string): ExecutionContext =>
+    ({
+      switchToHttp: () => ({ getRequest: () => ({ headers: { authorization } }) }),
+    }) as unknown as ExecutionContext;
+
+  const createGuard = (secret?: string) =>
+    new CronSecretGuard({ get: jest.fn().mockReturnValue(secret) } as unknown as ConfigService);
+
+  it('should allow requests with the configured secret', () => {
+    expect(createGuard('cron-secret').canActivate(createContext('Bearer cron-secret'))).toBe(true);
+  });
+
+  it('should reject requests with a wrong or missing secret', () => {
+    const guard = createGuard('cron-secret');
+
+    expect(() => guard.canActivate(createContext('Bearer wrong'))).toThrow(UnauthorizedException);
+    expect(() => guard.canActivate(createContext())).toThrow(UnauthorizedException);
+  });
+
+  it('should reject every request when no secret is configured', () => {
+    expect(() => createGuard(undefined).canActivate(createContext('Bearer '))).toThrow(UnauthorizedException);
+  });
+});
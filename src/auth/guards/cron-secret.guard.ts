@@ -0,0 +1,30 @@
+import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Protects scheduled job endpoints, which the scheduler calls with `Authorization: Bearer <CRON_SECRET>`
+ * Every request is rejected while CRON_SECRET is not configured
+ */
+@Injectable()
+export class CronSecretGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const secret = this.configService.get<string>('CRON_SECRET');
+    const authorization: string | undefined = context.switchToHttp().getRequest().headers?.authorization;
+
+    if (!secret || !authorization || !this.matches(authorization, `Bearer ${secret}`)) {
+      throw new UnauthorizedException('Invalid or missing cron secret');
+    }
+
+    return true;
+  }
+
+  private matches(received: string, expected: string): boolean {
+    const a = Buffer.from(received);
+    const b = Buffer.from(expected);
+
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
@@ -0,0 +1,40 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { OptionalJwtAuthGuard } from './optional-jwt-auth.guard';
+
+describe('OptionalJwtAuthGuard', () => {
+  let guard: OptionalJwtAuthGuard;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [OptionalJwtAuthGuard],
+    }).compile();
+
+    guard = module.get<OptionalJwtAuthGuard>(OptionalJwtAuthGuard);
+  });
+
+  it('should be defined', () => {
+    expect(guard).toBeDefined();
+  });
+
+  describe('handleRequest', () => {
+    it('should return user when authentication is successful', () => {
+      const mockUser = {
+        id: 1,
+        steamId: '76561198000000000',
+        username: 'testuser',
+      };
+
+      const result = guard.handleRequest(null, mockUser);
+
+      expect(result).toEqual(mockUser);
+    });
+
+    it('should return null when no token was provided', () => {
+      expect(guard.handleRequest(null, false)).toBeNull();
+    });
+
+    it('should return null instead of throwing when the token is invalid', () => {
+      expect(guard.handleRequest(new Error('jwt expired'), null)).toBeNull();
+    });
+  });
+});
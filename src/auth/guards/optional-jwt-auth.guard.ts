@@ -0,0 +1,16 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * Authenticates the request when a valid JWT is present but lets anonymous requests through
+ * Public endpoints use it to personalise responses for signed-in users
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  handleRequest(err: any, user: any) {
+    if (err || !user) {
+      return null;
+    }
+    return user;
+  }
+}
@@ -0,0 +1,71 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '@prisma/client';
+import { RolesGuard } from './roles.guard';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+
+describe('RolesGuard', () => {
+  let guard: RolesGuard;
+  let reflector: Reflector;
+
+  const createContext = (user?: { sub: number; role: Role }): ExecutionContext =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [RolesGuard, Reflector],
+    }).compile();
+
+    guard = module.get<RolesGuard>(RolesGuard);
+    reflector = module.get<Reflector>(Reflector);
+  });
+
+  it('should be defined', () => {
+    expect(guard).toBeDefined();
+  });
+
+  it('should allow routes without @Roles()', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+
+    expect(guard.canActivate(createContext())).toBe(true);
+  });
+
+  it('should read roles from the handler and the controller', () => {
+    const spy = jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue([Role.MODERATOR]);
+
+    guard.canActivate(createContext({ sub: 1, role: Role.MODERATOR }));
+
+    expect(spy).toHaveBeenCalledWith(ROLES_KEY, [undefined, undefined]);
+  });
+
+  it('should allow users with the required role', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue([Role.MODERATOR]);
+
+    expect(guard.canActivate(createContext({ sub: 1, role: Role.MODERATOR }))).toBe(true);
+  });
+
+  it('should allow users with a higher role', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue([Role.MODERATOR]);
+
+    expect(guard.canActivate(createContext({ sub: 1, role: Role.ADMIN }))).toBe(true);
+  });
+
+  it('should reject users with a lower role', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue([Role.ADMIN]);
+
+    expect(() => guard.canActivate(createContext({ sub: 1, role: Role.MODERATOR }))).toThrow(
+      new ForbiddenException('You do not have permission to perform this action'),
+    );
+  });
+
+  it('should reject unauthenticated requests', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue([Role.USER]);
+
+    expect(() => guard.canActivate(createContext())).toThrow(UnauthorizedException);
+  });
+});
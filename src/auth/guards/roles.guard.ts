@@ -0,0 +1,38 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '@prisma/client';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { JwtPayload } from '../interfaces/jwt-payload.interface';
+import { hasRole } from '../roles';
+
+/**
+ * Enforces @Roles() metadata on the handler or controller
+ * Runs after JwtAuthGuard, which authenticates the request and attaches the user with its current role
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredRoles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requiredRoles || requiredRoles.length === 0) {
+      return true;
+    }
+
+    const user: JwtPayload | undefined = context.switchToHttp().getRequest().user;
+
+    if (!user) {
+      throw new UnauthorizedException('Invalid or missing JWT token');
+    }
+
+    if (!requiredRoles.some((role) => hasRole(user.role, role))) {
+      throw new ForbiddenException('You do not have permission to perform this action');
+    }
+
+    return true;
+  }
+}
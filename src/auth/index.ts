@@ -2,7 +2,11 @@ export * from './auth.module';
 export * from './auth.service';
 export * from './auth.controller';
 export * from './guards/jwt-auth.guard';
+export * from './guards/optional-jwt-auth.guard';
+export * from './guards/roles.guard';
 export * from './interfaces/jwt-payload.interface';
 export * from './strategies/jwt.strategy';
 export * from './strategies/steam.strategy';
-export * from './decorators/get-user.decorator';
\ No newline at end of file
+export * from './decorators/get-user.decorator';
+export * from './decorators/roles.decorator';
+export * from './roles';
\ No newline at end of file
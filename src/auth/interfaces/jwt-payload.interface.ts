@@ -1,7 +1,10 @@
+import { Role } from '@prisma/client';
+
 export interface JwtPayload {
   sub: number;
   steamId: string;
   username: string;
+  role: Role;
   iat?: number;
   exp?: number;
-}
\ No newline at end of file
+}
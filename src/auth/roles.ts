@@ -0,0 +1,17 @@
+import { Role } from '@prisma/client';
+
+/**
+ * Roles are hierarchical: admins can do everything moderators can, moderators everything users can
+ */
+const ROLE_RANK: Record<Role, number> = {
+  [Role.USER]: 0,
+  [Role.MODERATOR]: 1,
+  [Role.ADMIN]: 2,
+};
+
+/**
+ * Check whether a role grants at least the permissions of the required role
+ */
+export function hasRole(role: Role | undefined, required: Role): boolean {
+  return role !== undefined && ROLE_RANK[role] >= ROLE_RANK[required];
+}
@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
 import { UnauthorizedException } from '@nestjs/common';
+import { Role } from '@prisma/client';
 import { JwtStrategy } from './jwt.strategy';
 import { PrismaService } from '../../prisma/prisma.service';
 import { JwtPayload } from '../interfaces/jwt-payload.interface';
@@ -61,6 +62,7 @@ describe('JwtStrategy', () => {
         sub: 1,
         steamId: '76561198000000000',
         username: 'testuser',
+        role: Role.USER,
       };
 
       mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
@@ -78,6 +80,7 @@ describe('JwtStrategy', () => {
         sub: 999,
         steamId: '76561198000000000',
         username: 'nonexistent',
+        role: Role.USER,
       };
 
       mockPrismaService.user.findUnique.mockResolvedValue(null);
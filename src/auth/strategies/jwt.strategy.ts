@@ -26,6 +26,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     if (!user) {
       throw new UnauthorizedException('User not found');
     }
+    // The role is read from the database rather than the token, so role changes apply immediately
     return { ...user, sub: payload.sub };
   }
 }
\ No newline at end of file
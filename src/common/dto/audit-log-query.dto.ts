@@ -0,0 +1,55 @@
+import { IsDateString, IsEnum, IsInt, IsOptional, IsPositive, IsString, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { AuditAction, AuditEntityType } from '@prisma/client';
+
+export class AuditLogQueryDto {
+  @ApiPropertyOptional({ description: 'Only include changes made by this user', example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Actor ID must be an integer' })
+  @IsPositive({ message: 'Actor ID must be a positive number' })
+  actorId?: number;
+
+  @ApiPropertyOptional({ description: 'Only include this kind of change', enum: AuditAction })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toUpperCase() : value))
+  @IsEnum(AuditAction, { message: `Action must be one of: ${Object.values(AuditAction).join(', ')}` })
+  action?: AuditAction;
+
+  @ApiPropertyOptional({ description: 'Only include changes to this type of entity', enum: AuditEntityType })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toUpperCase() : value))
+  @IsEnum(AuditEntityType, { message: `Entity type must be one of: ${Object.values(AuditEntityType).join(', ')}` })
+  entityType?: AuditEntityType;
+
+  @ApiPropertyOptional({ description: 'Only include changes to the entity with this ID, use with entityType' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Entity ID must be an integer' })
+  @IsPositive({ message: 'Entity ID must be a positive number' })
+  entityId?: number;
+
+  @ApiPropertyOptional({ description: 'Only include changes made on or after this time', example: '2025-01-01' })
+  @IsOptional()
+  @IsDateString({}, { message: 'from must be an ISO 8601 date' })
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Only include changes made on or before this time', example: '2025-12-31' })
+  @IsOptional()
+  @IsDateString({}, { message: 'to must be an ISO 8601 date' })
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'Number of entries per page', minimum: 1, maximum: 100, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Opaque cursor from the previous page (pagination.nextCursor)' })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
@@ -0,0 +1,14 @@
+import { AuditAction, AuditEntityType, Prisma } from '@prisma/client';
+
+export class AuditLogResponseDto {
+  id: number;
+  actorId: number | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: number;
+  before: Prisma.JsonValue | null;
+  after: Prisma.JsonValue | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
@@ -0,0 +1,7 @@
+export class CalloutZoneResponseDto {
+  id: number;
+  name: string;
+  // Null when the zone applies to every floor
+  layerId: number | null;
+  points: { x: number; y: number }[];
+}
@@ -0,0 +1,54 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Length,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+
+export class RadarPointDto {
+  @ApiProperty({ description: 'Distance from the left edge of the radar, 0-1', minimum: 0, maximum: 1, example: 0.42 })
+  @IsNumber({}, { message: 'X must be a number' })
+  @Min(0, { message: 'X must be between 0 and 1' })
+  @Max(1, { message: 'X must be between 0 and 1' })
+  x: number;
+
+  @ApiProperty({ description: 'Distance from the top edge of the radar, 0-1', minimum: 0, maximum: 1, example: 0.37 })
+  @IsNumber({}, { message: 'Y must be a number' })
+  @Min(0, { message: 'Y must be between 0 and 1' })
+  @Max(1, { message: 'Y must be between 0 and 1' })
+  y: number;
+}
+
+export class CreateCalloutZoneDto {
+  @ApiProperty({ description: 'Callout name, unique within the map', maxLength: 50, example: 'Banana' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString()
+  @Length(1, 50, { message: 'Name must be between 1 and 50 characters' })
+  name: string;
+
+  @ApiProperty({ description: 'Vertices of the zone polygon in order', type: [RadarPointDto] })
+  @IsArray()
+  @ArrayMinSize(3, { message: 'A zone needs at least 3 points' })
+  @ArrayMaxSize(100, { message: 'A zone can have at most 100 points' })
+  @ValidateNested({ each: true })
+  @Type(() => RadarPointDto)
+  points: RadarPointDto[];
+
+  @ApiPropertyOptional({ description: 'Radar layer the zone is drawn on, omit for zones on every floor', example: 1 })
+  @IsOptional()
+  @IsInt({ message: 'Layer ID must be an integer' })
+  @IsPositive({ message: 'Layer ID must be positive' })
+  layerId?: number;
+}
+
+export class UpdateCalloutZoneDto extends PartialType(CreateCalloutZoneDto) {}
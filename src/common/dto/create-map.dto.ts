@@ -0,0 +1,113 @@
+import {
+  ArrayUnique,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Length,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { GameMode, MapPoolStatus } from '@prisma/client';
+import { toUpperCaseList } from './smoke-query.dto';
+
+// Images are served by the frontend (/images/...) or from an external host
+export const IMAGE_PATH = /^(\/|https?:\/\/)\S+$/;
+
+export class CreateMapDto {
+  @ApiProperty({ description: 'Map name, unique across all maps', maxLength: 50, example: 'Anubis' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString()
+  @Length(1, 50, { message: 'Name must be between 1 and 50 characters' })
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Short description of the map', maxLength: 500 })
+  @IsOptional()
+  @IsString()
+  @Length(1, 500, { message: 'Description must be between 1 and 500 characters' })
+  description?: string;
+
+  @ApiProperty({ description: 'Thumbnail image path or URL', example: '/images/maps/anubis.webp' })
+  @IsString()
+  @Matches(IMAGE_PATH, { message: 'Thumbnail must be an absolute path or an http(s) URL' })
+  thumbnail: string;
+
+  @ApiProperty({ description: 'Radar image path or URL', example: '/images/maps/map_anubis.webp' })
+  @IsString()
+  @Matches(IMAGE_PATH, { message: 'Radar must be an absolute path or an http(s) URL' })
+  radar: string;
+
+  @ApiPropertyOptional({ description: 'Width in pixels of the radar the calibration refers to', default: 1024 })
+  @IsOptional()
+  @IsInt({ message: 'Radar width must be an integer' })
+  @Min(1, { message: 'Radar width must be at least 1 pixel' })
+  @Max(8192, { message: 'Radar width must not exceed 8192 pixels' })
+  radarWidth?: number;
+
+  @ApiPropertyOptional({ description: 'Height in pixels of the radar the calibration refers to', default: 1024 })
+  @IsOptional()
+  @IsInt({ message: 'Radar height must be an integer' })
+  @Min(1, { message: 'Radar height must be at least 1 pixel' })
+  @Max(8192, { message: 'Radar height must not exceed 8192 pixels' })
+  radarHeight?: number;
+
+  @ApiPropertyOptional({ description: 'World X of the radar\'s top-left corner (overview pos_x)', example: -2476 })
+  @IsOptional()
+  @IsNumber({}, { message: 'Radar pos X must be a number' })
+  radarPosX?: number;
+
+  @ApiPropertyOptional({ description: 'World Y of the radar\'s top-left corner (overview pos_y)', example: 3239 })
+  @IsOptional()
+  @IsNumber({}, { message: 'Radar pos Y must be a number' })
+  radarPosY?: number;
+
+  @ApiPropertyOptional({ description: 'World units per radar pixel (overview scale)', example: 4.4 })
+  @IsOptional()
+  @IsNumber({}, { message: 'Radar scale must be a number' })
+  @IsPositive({ message: 'Radar scale must be a positive number' })
+  radarScale?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the map is in the active duty pool, in reserve or retired',
+    enum: MapPoolStatus,
+    default: MapPoolStatus.RESERVE,
+  })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toUpperCase() : value))
+  @IsEnum(MapPoolStatus, { message: `Pool status must be one of: ${Object.values(MapPoolStatus).join(', ')}` })
+  poolStatus?: MapPoolStatus;
+
+  @ApiPropertyOptional({ description: 'Position in the map list, lower values first', default: 0 })
+  @IsOptional()
+  @IsInt({ message: 'Display order must be an integer' })
+  @Min(0, { message: 'Display order must not be negative' })
+  displayOrder?: number;
+
+  @ApiPropertyOptional({
+    description: 'Game modes the map can be played in',
+    enum: GameMode,
+    isArray: true,
+    default: [GameMode.COMPETITIVE],
+  })
+  @IsOptional()
+  @Transform(toUpperCaseList)
+  @ArrayUnique({ message: 'Game modes must not contain duplicates' })
+  @IsEnum(GameMode, { each: true, message: `Game mode must be one of: ${Object.values(GameMode).join(', ')}` })
+  gameModes?: GameMode[];
+
+  @ApiPropertyOptional({ description: 'Date the map was released in CS2', example: '2023-09-27' })
+  @IsOptional()
+  @IsDateString({}, { message: 'releasedAt must be an ISO 8601 date' })
+  releasedAt?: string;
+
+  @ApiPropertyOptional({ description: 'Date of the last game update that changed the map', example: '2025-04-30' })
+  @IsOptional()
+  @IsDateString({}, { message: 'lastUpdatedAt must be an ISO 8601 date' })
+  lastUpdatedAt?: string;
+}
@@ -0,0 +1,24 @@
+import { IsEnum, IsString, Length } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ModerationActionType } from '@prisma/client';
+
+export class CreateModerationActionDto {
+  @ApiProperty({
+    description:
+      'HIDE the smoke pending review, REMOVE (soft-delete) it, RESTORE a hidden or removed smoke, or DISMISS the report',
+    enum: ModerationActionType,
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toUpperCase() : value))
+  @IsEnum(ModerationActionType, { message: `Action must be one of: ${Object.values(ModerationActionType).join(', ')}` })
+  action: ModerationActionType;
+
+  @ApiProperty({
+    description: 'Why the action was taken, stored as the resolution note and sent to the author on HIDE and REMOVE',
+    maxLength: 500,
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString()
+  @Length(3, 500, { message: 'Reason must be between 3 and 500 characters' })
+  reason: string;
+}
@@ -1,5 +1,16 @@
-import { IsString, IsUrl, IsNumber, IsPositive, Length, IsInt } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsUrl, IsNumber, IsPositive, Length, IsInt, IsEnum, IsOptional, ValidateIf, ValidateNested } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { GrenadeType, TeamSide } from '@prisma/client';
+import { IsSupportedVideoUrl } from '../video/is-supported-video-url.decorator';
+import { ThrowTechniqueDto } from './throw-technique.dto';
+
+export enum CoordinateSpace {
+  // Normalised 0-1 from the radar's top-left corner
+  RADAR = 'radar',
+  // Game-world units as shown by `getpos`, converted with the map's radar calibration
+  WORLD = 'world',
+}
 
 export class CreateSmokeDto {
   @ApiProperty({ description: 'Smoke title', minLength: 1, maxLength: 100, example: 'CT Smoke from T Spawn' })
@@ -7,24 +18,102 @@ export class CreateSmokeDto {
   @Length(1, 100, { message: 'Title must be between 1 and 100 characters' })
   title: string;
 
-  @ApiProperty({ description: 'Demonstration video URL', example: 'https://youtu.be/dQw4w9WgXcQ' })
+  @ApiPropertyOptional({
+    description: 'Free-text notes on how to line up and throw the grenade',
+    maxLength: 1000,
+    example: 'Aim at the top of the antenna and jump-throw',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 1000, { message: 'Description must be between 1 and 1000 characters' })
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Grenade type of the lineup', enum: GrenadeType, default: GrenadeType.SMOKE })
+  @IsOptional()
+  @IsEnum(GrenadeType, { message: `Grenade type must be one of: ${Object.values(GrenadeType).join(', ')}` })
+  grenadeType?: GrenadeType;
+
+  @ApiPropertyOptional({ description: 'Team side the lineup is meant for', enum: TeamSide, default: TeamSide.BOTH })
+  @IsOptional()
+  @IsEnum(TeamSide, { message: `Side must be one of: ${Object.values(TeamSide).join(', ')}` })
+  side?: TeamSide;
+
+  @ApiPropertyOptional({ description: 'Callout where the grenade lands', maxLength: 50, example: 'Window' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 50, { message: 'Callout must be between 1 and 50 characters' })
+  callout?: string;
+
+  @ApiProperty({
+    description: 'Demonstration video on YouTube (including youtu.be and Shorts), Twitch clips, Streamable or Medal',
+    example: 'https://youtu.be/dQw4w9WgXcQ?t=42',
+  })
   @IsUrl({}, { message: 'Video URL must be a valid URL' })
+  @IsSupportedVideoUrl({ message: 'Video URL must link to a YouTube, Twitch clip, Streamable or Medal video' })
   videoUrl: string;
 
-  @ApiProperty({ description: 'Timestamp in seconds within the video', example: 42 })
+  @ApiPropertyOptional({
+    description: 'Timestamp in seconds within the video, defaults to the start time in the video URL (e.g. ?t=42)',
+    example: 42,
+  })
+  @IsOptional()
   @IsNumber({}, { message: 'Timestamp must be a number' })
   @IsPositive({ message: 'Timestamp must be a positive number' })
   @IsInt({ message: 'Timestamp must be an integer' })
-  timestamp: number;
+  timestamp?: number;
 
-  @ApiProperty({ description: 'X coordinate on the map image', example: 512 })
+  @ApiPropertyOptional({
+    description: 'Whether the coordinates are normalised radar positions or game-world positions',
+    enum: CoordinateSpace,
+    default: CoordinateSpace.RADAR,
+  })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toLowerCase() : value))
+  @IsEnum(CoordinateSpace, { message: `Coordinate space must be one of: ${Object.values(CoordinateSpace).join(', ')}` })
+  coordinateSpace?: CoordinateSpace;
+
+  @ApiProperty({ description: 'X coordinate of the landing point, 0-1 from the left edge of the radar', example: 0.5 })
   @IsNumber({}, { message: 'X coordinate must be a number' })
   x_coord: number;
 
-  @ApiProperty({ description: 'Y coordinate on the map image', example: 384 })
+  @ApiProperty({ description: 'Y coordinate of the landing point, 0-1 from the top edge of the radar', example: 0.375 })
   @IsNumber({}, { message: 'Y coordinate must be a number' })
   y_coord: number;
 
+  @ApiPropertyOptional({ description: 'X coordinate of the throw position on the radar', example: 0.605 })
+  @ValidateIf((dto) => dto.throw_x_coord !== undefined || dto.throw_y_coord !== undefined)
+  @IsNumber({}, { message: 'Throw X coordinate must be a number' })
+  throw_x_coord?: number;
+
+  @ApiPropertyOptional({ description: 'Y coordinate of the throw position on the radar', example: 0.693 })
+  @ValidateIf((dto) => dto.throw_x_coord !== undefined || dto.throw_y_coord !== undefined)
+  @IsNumber({}, { message: 'Throw Y coordinate must be a number' })
+  throw_y_coord?: number;
+
+  @ApiPropertyOptional({
+    description: 'Radar layer of the landing point on multi-level maps, defaults to the map\'s first layer',
+    example: 2,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Landing layer ID must be an integer' })
+  @IsPositive({ message: 'Landing layer ID must be a positive number' })
+  landingLayerId?: number;
+
+  @ApiPropertyOptional({
+    description: 'Radar layer of the throw position on multi-level maps, defaults to the landing layer',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Throw layer ID must be an integer' })
+  @IsPositive({ message: 'Throw layer ID must be a positive number' })
+  throwLayerId?: number;
+
+  @ApiPropertyOptional({ description: 'How the grenade is thrown', type: ThrowTechniqueDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ThrowTechniqueDto)
+  technique?: ThrowTechniqueDto;
+
   @ApiProperty({ description: 'Target map identifier', example: 1 })
   @IsNumber({}, { message: 'Map ID must be a number' })
   @IsPositive({ message: 'Map ID must be a positive number' })
@@ -0,0 +1,22 @@
+import { SmokeResponseDto } from './smoke-response.dto';
+
+export enum DuplicateMatch {
+  // Same video at the same timestamp, the lineup was posted before
+  SAME_VIDEO = 'SAME_VIDEO',
+  // Landing and throw points close to the new smoke's on the same layer, likely the same lineup
+  NEARBY = 'NEARBY',
+}
+
+export class DuplicateCandidateDto {
+  id: number;
+  title: string;
+  match: DuplicateMatch;
+  // Distances from the new smoke's points in radar widths, null when either smoke has no throw point
+  landingDistance: number | null;
+  throwDistance: number | null;
+}
+
+export class CreatedSmokeResponseDto extends SmokeResponseDto {
+  // Existing smokes that look like the same lineup, so the client can warn the author
+  possibleDuplicates: DuplicateCandidateDto[];
+}
@@ -0,0 +1,13 @@
+import { SmokeResponseDto } from './smoke-response.dto';
+
+export class DeletedSmokeResponseDto extends SmokeResponseDto {
+  deletedAt: Date;
+  // Null when a moderator removed the smoke, only an admin can restore it then
+  restorableUntil: Date | null;
+}
+
+export class PurgeResultResponseDto {
+  smokes: number;
+  ratings: number;
+  reports: number;
+}
@@ -1,13 +1,43 @@
 import { validate } from 'class-validator';
 import { plainToClass } from 'class-transformer';
-import { CreateSmokeDto, RateSmokeDto, ReportSmokeDto } from './index';
+import {
+  GameMode,
+  GrenadeType,
+  MapPoolStatus,
+  ModerationActionType,
+  MouseButton,
+  ReportCategory,
+  ReportStatus,
+  TeamSide,
+  ThrowStance,
+} from '@prisma/client';
+import {
+  CoordinateSpace,
+  CreateCalloutZoneDto,
+  CreateMapDto,
+  CreateModerationActionDto,
+  CreateSmokeDto,
+  MapQueryDto,
+  MapSort,
+  RateSmokeDto,
+  ReportQueueQueryDto,
+  ReportSmokeDto,
+  SmokeQueryDto,
+  SmokeSearchQueryDto,
+  SmokeSort,
+  SmokeSpatialQueryDto,
+  SpatialTarget,
+  UpdateRadarLayersDto,
+  UpdateReportStatusDto,
+  UpdateSmokeDto,
+} from './index';
 
 describe('DTOs Validation', () => {
   describe('CreateSmokeDto', () => {
     it('should validate a valid CreateSmokeDto', async () => {
       const dto = plainToClass(CreateSmokeDto, {
         title: 'Test Smoke',
-        videoUrl: 'https://example.com/video.mp4',
+        videoUrl: 'https://youtu.be/dQw4w9WgXcQ',
         timestamp: 30,
         x_coord: 100.5,
         y_coord: 200.7,
@@ -31,6 +61,294 @@ describe('DTOs Validation', () => {
       const errors = await validate(dto);
       expect(errors.length).toBeGreaterThan(0);
     });
+
+    it('should accept a known grenade type', async () => {
+      const dto = plainToClass(CreateSmokeDto, {
+        title: 'Banana molly',
+        grenadeType: GrenadeType.MOLOTOV,
+        videoUrl: 'https://youtu.be/dQw4w9WgXcQ',
+        timestamp: 30,
+        x_coord: 100.5,
+        y_coord: 200.7,
+        mapId: 1,
+      });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject an unknown grenade type', async () => {
+      const dto = plainToClass(CreateSmokeDto, {
+        title: 'Banana molly',
+        grenadeType: 'NUKE',
+        videoUrl: 'https://youtu.be/dQw4w9WgXcQ',
+        timestamp: 30,
+        x_coord: 100.5,
+        y_coord: 200.7,
+        mapId: 1,
+      });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property)).toEqual(['grenadeType']);
+    });
+  });
+
+  describe('CreateSmokeDto video', () => {
+    const base = { title: 'Xbox smoke', x_coord: 100, y_coord: 200, mapId: 1 };
+
+    it('should accept a supported video link without a timestamp', async () => {
+      const dto = plainToClass(CreateSmokeDto, { ...base, videoUrl: 'https://youtu.be/dQw4w9WgXcQ?t=42' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject links from unsupported hosts', async () => {
+      const dto = plainToClass(CreateSmokeDto, { ...base, videoUrl: 'https://example.com/video.mp4', timestamp: 30 });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property)).toEqual(['videoUrl']);
+      expect(errors[0].constraints).toHaveProperty('isSupportedVideoUrl');
+    });
+  });
+
+  describe('CreateSmokeDto coordinate space', () => {
+    const base = { title: 'Xbox smoke', videoUrl: 'https://youtu.be/dQw4w9WgXcQ?t=5', x_coord: -120, y_coord: 845, mapId: 1 };
+
+    it('should accept world coordinates case-insensitively', async () => {
+      const dto = plainToClass(CreateSmokeDto, { ...base, coordinateSpace: 'WORLD' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.coordinateSpace).toBe(CoordinateSpace.WORLD);
+    });
+
+    it('should reject unknown coordinate spaces', async () => {
+      const dto = plainToClass(CreateSmokeDto, { ...base, coordinateSpace: 'pixels' });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property)).toEqual(['coordinateSpace']);
+    });
+  });
+
+  describe('CreateSmokeDto throw point', () => {
+    const base = {
+      title: 'Window from T spawn',
+      videoUrl: 'https://youtu.be/dQw4w9WgXcQ',
+      timestamp: 30,
+      x_coord: 100.5,
+      y_coord: 200.7,
+      mapId: 1,
+    };
+
+    it('should accept a complete throw point', async () => {
+      const dto = plainToClass(CreateSmokeDto, { ...base, throw_x_coord: 620, throw_y_coord: 710 });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should require both throw coordinates when one is given', async () => {
+      const dto = plainToClass(CreateSmokeDto, { ...base, throw_x_coord: 620 });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property)).toEqual(['throw_y_coord']);
+    });
+  });
+
+  describe('UpdateSmokeDto throw point', () => {
+    it('should accept null for both throw coordinates to remove the throw point', async () => {
+      const dto = plainToClass(UpdateSmokeDto, { throw_x_coord: null, throw_y_coord: null });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject removing only one throw coordinate', async () => {
+      const dto = plainToClass(UpdateSmokeDto, { throw_x_coord: null, throw_y_coord: 0.7 });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property)).toEqual(['throw_x_coord']);
+    });
+
+    it('should still require both throw coordinates when one is given', async () => {
+      const dto = plainToClass(UpdateSmokeDto, { throw_x_coord: 0.6 });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property)).toEqual(['throw_y_coord']);
+    });
+  });
+
+  describe('CreateSmokeDto technique', () => {
+    const base = {
+      title: 'Jump-throw window',
+      videoUrl: 'https://youtu.be/dQw4w9WgXcQ',
+      timestamp: 30,
+      x_coord: 100.5,
+      y_coord: 200.7,
+      mapId: 1,
+    };
+
+    it('should accept a valid technique', async () => {
+      const dto = plainToClass(CreateSmokeDto, {
+        ...base,
+        technique: { stance: ThrowStance.JUMPING, mouseButton: MouseButton.LEFT, requiresJumpThrowBind: true },
+      });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject an invalid technique', async () => {
+      const dto = plainToClass(CreateSmokeDto, {
+        ...base,
+        technique: { stance: 'PRONE', requiresJumpThrowBind: 'yes' },
+      });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property)).toEqual(['technique']);
+      expect(errors[0].children.map((error) => error.property)).toEqual(['stance', 'requiresJumpThrowBind']);
+    });
+  });
+
+  describe('SmokeQueryDto', () => {
+    it('should parse the radar layer id', async () => {
+      const dto = plainToClass(SmokeQueryDto, { layerId: '3' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.layerId).toBe(3);
+    });
+
+    it('should split comma-separated grenade types', async () => {
+      const dto = plainToClass(SmokeQueryDto, { type: 'smoke, flashbang' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.type).toEqual([GrenadeType.SMOKE, GrenadeType.FLASHBANG]);
+    });
+
+    it('should accept repeated type parameters', async () => {
+      const dto = plainToClass(SmokeQueryDto, { type: ['HE', 'decoy'] });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.type).toEqual([GrenadeType.HE, GrenadeType.DECOY]);
+    });
+
+    it('should reject unknown grenade types', async () => {
+      const dto = plainToClass(SmokeQueryDto, { type: 'smoke,nuke' });
+
+      const errors = await validate(dto);
+      expect(errors.length).toBeGreaterThan(0);
+    });
+
+    it('should normalise side and trim callout', async () => {
+      const dto = plainToClass(SmokeQueryDto, { side: 'ct', callout: '  Window ' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.side).toBe(TeamSide.CT);
+      expect(dto.callout).toBe('Window');
+    });
+
+    it('should reject an unknown side', async () => {
+      const dto = plainToClass(SmokeQueryDto, { side: 'spectator' });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property)).toEqual(['side']);
+    });
+
+    it('should parse technique filters', async () => {
+      const dto = plainToClass(SmokeQueryDto, { stance: 'standing,crouching', jumpThrowBind: 'false' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.stance).toEqual([ThrowStance.STANDING, ThrowStance.CROUCHING]);
+      expect(dto.jumpThrowBind).toBe(false);
+    });
+
+    it('should parse sorting and pagination options', async () => {
+      const dto = plainToClass(SmokeQueryDto, { sort: 'Trending', limit: '50', minScore: '-2', authorId: '3' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.sort).toBe(SmokeSort.TRENDING);
+      expect(dto.limit).toBe(50);
+      expect(dto.minScore).toBe(-2);
+      expect(dto.authorId).toBe(3);
+    });
+
+    it('should reject out of range limits and invalid dates', async () => {
+      const dto = plainToClass(SmokeQueryDto, { limit: '500', createdFrom: 'yesterday', sort: 'hot' });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property).sort()).toEqual(['createdFrom', 'limit', 'sort']);
+    });
+
+    it('should reject non-boolean technique flags', async () => {
+      const dto = plainToClass(SmokeQueryDto, { tickrateSensitive: 'maybe' });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property)).toEqual(['tickrateSensitive']);
+    });
+  });
+
+  describe('SmokeSearchQueryDto', () => {
+    it('should trim the query and parse numeric options', async () => {
+      const dto = plainToClass(SmokeSearchQueryDto, { q: '  janela mirage ', mapId: '2', limit: '10' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.q).toBe('janela mirage');
+      expect(dto.mapId).toBe(2);
+      expect(dto.limit).toBe(10);
+    });
+
+    it('should require a query of at least two characters', async () => {
+      const missing = await validate(plainToClass(SmokeSearchQueryDto, {}));
+      const tooShort = await validate(plainToClass(SmokeSearchQueryDto, { q: ' a ' }));
+
+      expect(missing.map((error) => error.property)).toEqual(['q']);
+      expect(tooShort.map((error) => error.property)).toEqual(['q']);
+    });
+
+    it('should reject limits above 50', async () => {
+      const dto = plainToClass(SmokeSearchQueryDto, { q: 'window', limit: '100' });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property)).toEqual(['limit']);
+    });
+  });
+
+  describe('SmokeSpatialQueryDto', () => {
+    it('should parse a radius query and the matched point', async () => {
+      const dto = plainToClass(SmokeSpatialQueryDto, { point: 'LANDING', x: '0.4', y: '0.6', radius: '0.05' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.point).toBe(SpatialTarget.LANDING);
+      expect(dto.radius).toBe(0.05);
+    });
+
+    it('should parse polygons given as semicolon-separated pairs', async () => {
+      const dto = plainToClass(SmokeSpatialQueryDto, { polygon: '0.1,0.1; 0.3,0.1; 0.2,0.4' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.polygon).toEqual([
+        { x: 0.1, y: 0.1 },
+        { x: 0.3, y: 0.1 },
+        { x: 0.2, y: 0.4 },
+      ]);
+    });
+
+    it('should reject malformed polygons and points off the radar', async () => {
+      const dto = plainToClass(SmokeSpatialQueryDto, { polygon: '0.1,0.1;0.3', x: '2', radius: '-1' });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property).sort()).toEqual(['polygon', 'radius', 'x']);
+    });
   });
 
   describe('RateSmokeDto', () => {
@@ -53,27 +371,262 @@ describe('DTOs Validation', () => {
   });
 
   describe('ReportSmokeDto', () => {
-    it('should validate a valid reason', async () => {
+    it('should validate a category with a comment', async () => {
       const dto = plainToClass(ReportSmokeDto, {
-        reason: 'This smoke is inappropriate because it contains offensive content.',
+        category: 'broken_video',
+        comment: '  The video was made private  ',
       });
 
       const errors = await validate(dto);
       expect(errors).toHaveLength(0);
+      expect(dto.category).toBe(ReportCategory.BROKEN_VIDEO);
+      expect(dto.comment).toBe('The video was made private');
     });
 
-    it('should fail validation for short reason', async () => {
-      const dto = plainToClass(ReportSmokeDto, { reason: 'Too short' });
+    it('should make the comment optional and ignore blank comments', async () => {
+      const dto = plainToClass(ReportSmokeDto, { category: 'SPAM', comment: '   ' });
+
       const errors = await validate(dto);
-      expect(errors.length).toBeGreaterThan(0);
+      expect(errors).toHaveLength(0);
+      expect(dto.comment).toBeUndefined();
+    });
+
+    it('should require a known category', async () => {
+      const missing = await validate(plainToClass(ReportSmokeDto, { comment: 'Something is off' }));
+      const unknown = await validate(plainToClass(ReportSmokeDto, { category: 'boring' }));
+
+      expect(missing.map((error) => error.property)).toEqual(['category']);
+      expect(unknown.map((error) => error.property)).toEqual(['category']);
     });
 
-    it('should fail validation for long reason', async () => {
+    it('should fail validation for long comment', async () => {
       const dto = plainToClass(ReportSmokeDto, {
-        reason: 'A'.repeat(501), // 501 characters, exceeds limit
+        category: ReportCategory.OFFENSIVE,
+        comment: 'A'.repeat(501), // 501 characters, exceeds limit
       });
       const errors = await validate(dto);
       expect(errors.length).toBeGreaterThan(0);
     });
+
+    it('should accept the original smoke id of a duplicate', async () => {
+      const dto = plainToClass(ReportSmokeDto, { category: 'DUPLICATE', duplicateOfId: '12' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.duplicateOfId).toBe(12);
+    });
+
+    it('should reject an invalid original smoke id', async () => {
+      const dto = plainToClass(ReportSmokeDto, { category: 'DUPLICATE', duplicateOfId: -3 });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property)).toEqual(['duplicateOfId']);
+    });
+  });
+
+  describe('ReportQueueQueryDto', () => {
+    it('should normalise the status filter', async () => {
+      const dto = plainToClass(ReportQueueQueryDto, { status: 'reviewed', limit: '5' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.status).toBe(ReportStatus.REVIEWED);
+      expect(dto.limit).toBe(5);
+    });
+
+    it('should normalise the category filter', async () => {
+      const dto = plainToClass(ReportQueueQueryDto, { category: 'wrong_coordinates' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.category).toBe(ReportCategory.WRONG_COORDINATES);
+    });
+
+    it('should reject an unknown status', async () => {
+      const dto = plainToClass(ReportQueueQueryDto, { status: 'closed' });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property)).toEqual(['status']);
+    });
+  });
+
+  describe('UpdateReportStatusDto', () => {
+    it('should accept a forward status with a note', async () => {
+      const dto = plainToClass(UpdateReportStatusDto, { status: 'resolved', resolutionNote: '  Smoke removed  ' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.status).toBe(ReportStatus.RESOLVED);
+      expect(dto.resolutionNote).toBe('Smoke removed');
+    });
+
+    it('should not allow moving a report back to PENDING', async () => {
+      const dto = plainToClass(UpdateReportStatusDto, { status: 'PENDING' });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property)).toEqual(['status']);
+    });
+  });
+
+  describe('CreateMapDto', () => {
+    it('should accept a map with relative image paths and trim its name', async () => {
+      const dto = plainToClass(CreateMapDto, {
+        name: '  Anubis ',
+        thumbnail: '/images/maps/anubis.webp',
+        radar: 'https://cdn.example.com/map_anubis.webp',
+        poolStatus: 'active_duty',
+        displayOrder: 2,
+        gameModes: 'premier,competitive',
+        releasedAt: '2024-03-28',
+      });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.name).toBe('Anubis');
+      expect(dto.poolStatus).toBe(MapPoolStatus.ACTIVE_DUTY);
+      expect(dto.gameModes).toEqual([GameMode.PREMIER, GameMode.COMPETITIVE]);
+    });
+
+    it('should reject unknown pool statuses, game modes and dates', async () => {
+      const dto = plainToClass(CreateMapDto, {
+        name: 'Anubis',
+        thumbnail: '/images/maps/anubis.webp',
+        radar: '/images/maps/map_anubis.webp',
+        poolStatus: 'CASUAL',
+        gameModes: ['WINGMAN', 'WINGMAN'],
+        lastUpdatedAt: 'last week',
+      });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property).sort()).toEqual(['gameModes', 'lastUpdatedAt', 'poolStatus']);
+    });
+  });
+
+  describe('MapQueryDto', () => {
+    it('should parse status and mode lists and the sort order', async () => {
+      const dto = plainToClass(MapQueryDto, { status: 'active_duty,reserve', mode: 'wingman', sort: 'RELEASED' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.status).toEqual([MapPoolStatus.ACTIVE_DUTY, MapPoolStatus.RESERVE]);
+      expect(dto.mode).toEqual([GameMode.WINGMAN]);
+      expect(dto.sort).toBe(MapSort.RELEASED);
+    });
+
+    it('should reject unknown values', async () => {
+      const dto = plainToClass(MapQueryDto, { status: 'ACTIVE', mode: 'DEATHMATCH', sort: 'popular' });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property).sort()).toEqual(['mode', 'sort', 'status']);
+    });
+
+    it('should reject blank names, invalid images and negative display orders', async () => {
+      const dto = plainToClass(CreateMapDto, {
+        name: '   ',
+        thumbnail: 'anubis.webp',
+        radar: 'javascript:alert(1)',
+        radarWidth: 0,
+        radarScale: 0,
+        displayOrder: -1,
+      });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property).sort()).toEqual([
+        'displayOrder',
+        'name',
+        'radar',
+        'radarScale',
+        'radarWidth',
+        'thumbnail',
+      ]);
+    });
+  });
+
+  describe('UpdateRadarLayersDto', () => {
+    it('should accept layers with z-ranges and normalise their keys', async () => {
+      const dto = plainToClass(UpdateRadarLayersDto, {
+        layers: [
+          { key: ' Lower ', name: 'Lower', radar: '/images/maps/map_nuke_lower.webp', maxZ: -495 },
+          { key: 'upper', name: 'Upper', radar: '/images/maps/map_nuke.webp', minZ: -495, displayOrder: 1 },
+        ],
+      });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.layers[0].key).toBe('lower');
+    });
+
+    it('should reject duplicate keys', async () => {
+      const dto = plainToClass(UpdateRadarLayersDto, {
+        layers: [
+          { key: 'upper', name: 'Upper', radar: '/images/maps/map_nuke.webp' },
+          { key: 'UPPER', name: 'Upper again', radar: '/images/maps/map_nuke.webp' },
+        ],
+      });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property)).toEqual(['layers']);
+    });
+
+    it('should reject invalid layers', async () => {
+      const dto = plainToClass(UpdateRadarLayersDto, {
+        layers: [{ key: 'b site', name: '', radar: 'nuke.webp', minZ: 'low' }],
+      });
+
+      const errors = await validate(dto);
+      expect(errors[0].children[0].children.map((error) => error.property).sort()).toEqual([
+        'key',
+        'minZ',
+        'name',
+        'radar',
+      ]);
+    });
+  });
+
+  describe('CreateCalloutZoneDto', () => {
+    it('should accept a trimmed name and a polygon on the radar', async () => {
+      const dto = plainToClass(CreateCalloutZoneDto, {
+        name: ' Banana ',
+        points: [
+          { x: 0.2, y: 0.3 },
+          { x: 0.3, y: 0.3 },
+          { x: 0.25, y: 0.5 },
+        ],
+        layerId: 2,
+      });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.name).toBe('Banana');
+    });
+
+    it('should reject polygons with too few points or points off the radar', async () => {
+      const tooFew = plainToClass(CreateCalloutZoneDto, { name: 'Mid', points: [{ x: 0, y: 0 }, { x: 1, y: 1 }] });
+      const offRadar = plainToClass(CreateCalloutZoneDto, {
+        name: 'Mid',
+        points: [{ x: 0, y: 0 }, { x: 1.5, y: 0 }, { x: 1, y: 1 }],
+      });
+
+      expect((await validate(tooFew)).map((error) => error.property)).toEqual(['points']);
+      expect((await validate(offRadar)).map((error) => error.property)).toEqual(['points']);
+    });
+  });
+
+  describe('CreateModerationActionDto', () => {
+    it('should accept a known action with a reason', async () => {
+      const dto = plainToClass(CreateModerationActionDto, { action: 'hide', reason: ' Checking the video ' });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+      expect(dto.action).toBe(ModerationActionType.HIDE);
+      expect(dto.reason).toBe('Checking the video');
+    });
+
+    it('should require a known action and a reason', async () => {
+      const dto = plainToClass(CreateModerationActionDto, { action: 'ban' });
+
+      const errors = await validate(dto);
+      expect(errors.map((error) => error.property).sort()).toEqual(['action', 'reason']);
+    });
   });
-});
\ No newline at end of file
+});
@@ -1,12 +1,40 @@
 // Request DTOs
 export * from './create-smoke.dto';
+export * from './throw-technique.dto';
+export * from './update-smoke.dto';
+export * from './smoke-query.dto';
+export * from './smoke-search-query.dto';
+export * from './smoke-spatial-query.dto';
 export * from './rate-smoke.dto';
 export * from './report-smoke.dto';
+export * from './report-queue-query.dto';
+export * from './update-report-status.dto';
+export * from './create-moderation-action.dto';
+export * from './audit-log-query.dto';
+export * from './create-map.dto';
+export * from './update-map.dto';
+export * from './map-query.dto';
+export * from './radar-layer.dto';
+export * from './callout-zone.dto';
 
 // Response DTOs
 export * from './api-response.dto';
+export * from './paginated-response.dto';
 export * from './user-response.dto';
 export * from './map-response.dto';
+export * from './map-stats-response.dto';
+export * from './radar-layer-response.dto';
+export * from './callout-zone-response.dto';
 export * from './smoke-response.dto';
+export * from './smoke-detail-response.dto';
+export * from './smoke-revision-response.dto';
+export * from './smoke-search-result.dto';
+export * from './smoke-spatial-result.dto';
+export * from './created-smoke-response.dto';
+export * from './deleted-smoke-response.dto';
 export * from './rating-response.dto';
-export * from './report-response.dto';
\ No newline at end of file
+export * from './report-response.dto';
+export * from './report-queue-response.dto';
+export * from './moderation-action-response.dto';
+export * from './notification-response.dto';
+export * from './audit-log-response.dto';
\ No newline at end of file
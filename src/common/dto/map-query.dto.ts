@@ -0,0 +1,47 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { GameMode, MapPoolStatus } from '@prisma/client';
+import { toUpperCaseList } from './smoke-query.dto';
+
+export enum MapSort {
+  // Active duty first, then reserve and retired maps, each by display order
+  POOL = 'pool',
+  NAME = 'name',
+  RELEASED = 'released',
+  UPDATED = 'updated',
+}
+
+export class MapQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only return maps with these pool statuses (comma-separated)',
+    enum: MapPoolStatus,
+    isArray: true,
+    example: 'ACTIVE_DUTY',
+  })
+  @IsOptional()
+  @Transform(toUpperCaseList)
+  @IsEnum(MapPoolStatus, { each: true, message: `Status must be one of: ${Object.values(MapPoolStatus).join(', ')}` })
+  status?: MapPoolStatus[];
+
+  @ApiPropertyOptional({
+    description: 'Only return maps playable in any of these game modes (comma-separated)',
+    enum: GameMode,
+    isArray: true,
+    example: 'WINGMAN',
+  })
+  @IsOptional()
+  @Transform(toUpperCaseList)
+  @IsEnum(GameMode, { each: true, message: `Game mode must be one of: ${Object.values(GameMode).join(', ')}` })
+  mode?: GameMode[];
+
+  @ApiPropertyOptional({
+    description: 'Sort order: pool status and display order, name, or newest release or update first',
+    enum: MapSort,
+    default: MapSort.POOL,
+  })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toLowerCase() : value))
+  @IsEnum(MapSort, { message: `Sort must be one of: ${Object.values(MapSort).join(', ')}` })
+  sort?: MapSort;
+}
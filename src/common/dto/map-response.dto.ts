@@ -1,8 +1,30 @@
+import { GameMode, MapPoolStatus } from '@prisma/client';
+import { RadarLayerResponseDto } from './radar-layer-response.dto';
+import { CalloutZoneResponseDto } from './callout-zone-response.dto';
+
 export class MapResponseDto {
   id: number;
   name: string;
   description?: string;
   thumbnail: string;
   radar?: string;
+  radarWidth?: number;
+  radarHeight?: number;
+  // Overview calibration, null when the map only accepts normalised radar coordinates
+  radarPosX?: number | null;
+  radarPosY?: number | null;
+  radarScale?: number | null;
+  poolStatus?: MapPoolStatus;
+  displayOrder?: number;
+  gameModes?: GameMode[];
+  releasedAt?: Date | null;
+  lastUpdatedAt?: Date | null;
+  // Only set for archived maps, which are left out of the map list
+  archivedAt?: Date | null;
+  // Floors of multi-level maps, empty for single-level maps
+  layers?: RadarLayerResponseDto[];
+  // Only returned for a single map
+  zones?: CalloutZoneResponseDto[];
+  // Smokes that are neither deleted nor hidden
   smokesCount?: number;
-}
\ No newline at end of file
+}
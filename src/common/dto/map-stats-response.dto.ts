@@ -0,0 +1,40 @@
+import { GrenadeType, TeamSide } from '@prisma/client';
+
+export class TopRatedSmokeDto {
+  id: number;
+  title: string;
+  grenadeType: GrenadeType;
+  side: TeamSide;
+  score: number;
+}
+
+export class TopContributorDto {
+  id: number;
+  displayName: string;
+  avatarUrl: string;
+  smokesCount: number;
+}
+
+export class MapReportStatsDto {
+  reportsCount: number;
+  pendingReportsCount: number;
+  // Smokes with at least one report, of any status
+  reportedSmokesCount: number;
+  // Share of smokes with at least one report, between 0 and 1
+  reportRate: number;
+}
+
+export class MapStatsResponseDto {
+  mapId: number;
+  // Every figure only counts smokes that are neither deleted nor hidden
+  smokesCount: number;
+  byGrenadeType: Record<GrenadeType, number>;
+  bySide: Record<TeamSide, number>;
+  newLast7Days: number;
+  newLast30Days: number;
+  topRated: TopRatedSmokeDto[];
+  topContributors: TopContributorDto[];
+  reports: MapReportStatsDto;
+  // Stats are cached, this is when they were computed
+  generatedAt: Date;
+}
@@ -0,0 +1,14 @@
+import { ModerationActionType } from '@prisma/client';
+import { ReportResponseDto } from './report-response.dto';
+
+export class ModerationActionResponseDto {
+  id: number;
+  action: ModerationActionType;
+  reason: string;
+  smokeId: number;
+  reportId: number | null;
+  moderatorId: number;
+  createdAt: Date;
+  // The report the action was taken on, after its status change
+  report: ReportResponseDto;
+}
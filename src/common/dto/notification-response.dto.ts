@@ -0,0 +1,10 @@
+import { NotificationType } from '@prisma/client';
+
+export class NotificationResponseDto {
+  id: number;
+  type: NotificationType;
+  message: string;
+  smokeId: number | null;
+  readAt: Date | null;
+  createdAt: Date;
+}
@@ -0,0 +1,10 @@
+export class PaginationMetaDto {
+  limit: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export class PaginatedResponseDto<T> {
+  data: T[];
+  pagination: PaginationMetaDto;
+}
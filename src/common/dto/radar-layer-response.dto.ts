@@ -0,0 +1,9 @@
+export class RadarLayerResponseDto {
+  id: number;
+  key: string;
+  name: string;
+  radar: string;
+  minZ: number | null;
+  maxZ: number | null;
+  displayOrder: number;
+}
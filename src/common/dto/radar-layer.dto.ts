@@ -0,0 +1,47 @@
+import { ArrayUnique, IsArray, IsInt, IsNumber, IsOptional, IsString, Length, Matches, Min, ValidateNested } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IMAGE_PATH } from './create-map.dto';
+
+export class RadarLayerDto {
+  @ApiProperty({ description: 'Identifier of the layer within the map', maxLength: 30, example: 'lower' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toLowerCase() : value))
+  @IsString()
+  @Matches(/^[a-z0-9-]{1,30}$/, { message: 'Key must be 1-30 lowercase letters, digits or dashes' })
+  key: string;
+
+  @ApiProperty({ description: 'Display name of the layer', maxLength: 50, example: 'Lower level' })
+  @IsString()
+  @Length(1, 50, { message: 'Name must be between 1 and 50 characters' })
+  name: string;
+
+  @ApiProperty({ description: 'Radar image path or URL of the layer', example: '/images/maps/map_nuke_lower.webp' })
+  @IsString()
+  @Matches(IMAGE_PATH, { message: 'Radar must be an absolute path or an http(s) URL' })
+  radar: string;
+
+  @ApiPropertyOptional({ description: 'Lowest world Z covered by the layer, open-ended when omitted', example: -1000 })
+  @IsOptional()
+  @IsNumber({}, { message: 'minZ must be a number' })
+  minZ?: number;
+
+  @ApiPropertyOptional({ description: 'Highest world Z covered by the layer, open-ended when omitted', example: -495 })
+  @IsOptional()
+  @IsNumber({}, { message: 'maxZ must be a number' })
+  maxZ?: number;
+
+  @ApiPropertyOptional({ description: 'Position in the layer list, the first layer is the default one', default: 0 })
+  @IsOptional()
+  @IsInt({ message: 'Display order must be an integer' })
+  @Min(0, { message: 'Display order must not be negative' })
+  displayOrder?: number;
+}
+
+export class UpdateRadarLayersDto {
+  @ApiProperty({ description: 'Every layer of the map, layers left out are removed', type: [RadarLayerDto] })
+  @IsArray()
+  @ArrayUnique((layer: RadarLayerDto) => layer?.key, { message: 'Layer keys must be unique' })
+  @ValidateNested({ each: true })
+  @Type(() => RadarLayerDto)
+  layers: RadarLayerDto[];
+}
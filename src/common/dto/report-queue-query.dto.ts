@@ -0,0 +1,35 @@
+import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ReportCategory, ReportStatus } from '@prisma/client';
+
+export class ReportQueueQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only include reports with this status',
+    enum: ReportStatus,
+    default: ReportStatus.PENDING,
+  })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toUpperCase() : value))
+  @IsEnum(ReportStatus, { message: `Status must be one of: ${Object.values(ReportStatus).join(', ')}` })
+  status?: ReportStatus;
+
+  @ApiPropertyOptional({ description: 'Only include reports in this category', enum: ReportCategory })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toUpperCase() : value))
+  @IsEnum(ReportCategory, { message: `Category must be one of: ${Object.values(ReportCategory).join(', ')}` })
+  category?: ReportCategory;
+
+  @ApiPropertyOptional({ description: 'Number of reported smokes per page', minimum: 1, maximum: 100, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Opaque cursor from the previous page (pagination.nextCursor)' })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
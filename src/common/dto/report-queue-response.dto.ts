@@ -0,0 +1,30 @@
+import { ReportResponseDto } from './report-response.dto';
+import { UserResponseDto } from './user-response.dto';
+
+export class ReportDetailResponseDto extends ReportResponseDto {
+  reporter: UserResponseDto;
+  handledBy: UserResponseDto | null;
+}
+
+export class ReportedSmokeSummaryDto {
+  id: number;
+  title: string;
+  authorId: number;
+  mapId: number;
+  mapName: string;
+  deletedAt: Date | null;
+  hiddenAt: Date | null;
+  // Hidden automatically by the report threshold and not yet reviewed by a moderator
+  autoHidden: boolean;
+}
+
+/**
+ * Reports of one smoke in the moderation queue
+ */
+export class ReportQueueItemDto {
+  smoke: ReportedSmokeSummaryDto;
+  reportCount: number;
+  firstReportedAt: Date;
+  lastReportedAt: Date;
+  reports: ReportDetailResponseDto[];
+}
@@ -1,9 +1,17 @@
+import { ReportCategory, ReportStatus } from '@prisma/client';
+
 export class ReportResponseDto {
   id: number;
-  reason: string;
-  status: string;
+  category: ReportCategory | null;
+  comment: string | null;
+  duplicateOfId: number | null;
+  status: ReportStatus;
+  weight: number;
   reporterId: number;
   smokeId: number;
+  resolutionNote: string | null;
+  handledById: number | null;
+  handledAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
-}
\ No newline at end of file
+}
@@ -1,8 +1,26 @@
-import { IsString, MinLength, MaxLength } from 'class-validator';
+import { IsEnum, IsInt, IsOptional, IsPositive, IsString, MaxLength } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ReportCategory } from '@prisma/client';
 
 export class ReportSmokeDto {
+  @ApiProperty({ description: 'What is wrong with the smoke', enum: ReportCategory })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toUpperCase() : value))
+  @IsEnum(ReportCategory, { message: `Category must be one of: ${Object.values(ReportCategory).join(', ')}` })
+  category: ReportCategory;
+
+  @ApiPropertyOptional({ description: 'Extra details for moderators', maxLength: 500 })
+  @IsOptional()
+  // Blank comments are treated as no comment
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() || undefined : value))
   @IsString()
-  @MinLength(10, { message: 'Reason must be at least 10 characters long' })
-  @MaxLength(500, { message: 'Reason must not exceed 500 characters' })
-  reason: string;
-}
\ No newline at end of file
+  @MaxLength(500, { message: 'Comment must not exceed 500 characters' })
+  comment?: string;
+
+  @ApiPropertyOptional({ description: 'ID of the original smoke, only for DUPLICATE reports' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Duplicate of must be an integer' })
+  @IsPositive({ message: 'Duplicate of must be a positive smoke ID' })
+  duplicateOfId?: number;
+}
@@ -0,0 +1,11 @@
+import { SmokeResponseDto } from './smoke-response.dto';
+
+export class SmokeDetailResponseDto extends SmokeResponseDto {
+  upvotes: number;
+  downvotes: number;
+  // Hidden by a moderator pending review, only the author can see hidden smokes
+  hidden: boolean;
+  // Only present when the request is authenticated
+  userVote?: number | null;
+  hasReported?: boolean;
+}
@@ -0,0 +1,166 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Length,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { GrenadeType, MouseButton, TeamSide, ThrowMovement, ThrowStance } from '@prisma/client';
+
+export enum SmokeSort {
+  TOP = 'top',
+  NEW = 'new',
+  CONTROVERSIAL = 'controversial',
+  TRENDING = 'trending',
+}
+
+/**
+ * Split comma-separated query values (`?type=smoke,flashbang`) and repeated
+ * parameters (`?type=smoke&type=flashbang`) into a single upper-cased list
+ */
+export const toUpperCaseList = ({ value }: { value: unknown }) =>
+  (Array.isArray(value) ? value : [value])
+    .flatMap((item) => String(item).split(','))
+    .map((item) => item.trim().toUpperCase())
+    .filter((item) => item.length > 0);
+
+/**
+ * Parse `true`/`false` query strings, leaving anything else for the validator to reject
+ */
+const toBoolean = ({ value }: { value: unknown }) => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+};
+
+export class SmokeQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only return lineups of these grenade types (comma-separated)',
+    enum: GrenadeType,
+    isArray: true,
+    example: 'SMOKE,MOLOTOV',
+  })
+  @IsOptional()
+  @Transform(toUpperCaseList)
+  @IsEnum(GrenadeType, { each: true, message: `Grenade type must be one of: ${Object.values(GrenadeType).join(', ')}` })
+  type?: GrenadeType[];
+
+  @ApiPropertyOptional({
+    description: 'Only return lineups usable on this side (lineups for both sides are always included)',
+    enum: TeamSide,
+  })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toUpperCase() : value))
+  @IsEnum(TeamSide, { message: `Side must be one of: ${Object.values(TeamSide).join(', ')}` })
+  side?: TeamSide;
+
+  @ApiPropertyOptional({ description: 'Only return lineups whose callout contains this text (case-insensitive)', example: 'window' })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString()
+  @Length(1, 50, { message: 'Callout must be between 1 and 50 characters' })
+  callout?: string;
+
+  @ApiPropertyOptional({ description: 'Only return lineups thrown in these stances', enum: ThrowStance, isArray: true })
+  @IsOptional()
+  @Transform(toUpperCaseList)
+  @IsEnum(ThrowStance, { each: true, message: `Stance must be one of: ${Object.values(ThrowStance).join(', ')}` })
+  stance?: ThrowStance[];
+
+  @ApiPropertyOptional({ description: 'Only return lineups thrown with these movements', enum: ThrowMovement, isArray: true })
+  @IsOptional()
+  @Transform(toUpperCaseList)
+  @IsEnum(ThrowMovement, { each: true, message: `Movement must be one of: ${Object.values(ThrowMovement).join(', ')}` })
+  movement?: ThrowMovement[];
+
+  @ApiPropertyOptional({ description: 'Only return lineups thrown with these mouse buttons', enum: MouseButton, isArray: true })
+  @IsOptional()
+  @Transform(toUpperCaseList)
+  @IsEnum(MouseButton, { each: true, message: `Mouse button must be one of: ${Object.values(MouseButton).join(', ')}` })
+  mouseButton?: MouseButton[];
+
+  @ApiPropertyOptional({ description: 'Filter on whether the lineup needs a jump-throw bind', type: Boolean })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'jumpThrowBind must be true or false' })
+  jumpThrowBind?: boolean;
+
+  @ApiPropertyOptional({ description: 'Filter on whether the lineup is tickrate sensitive', type: Boolean })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'tickrateSensitive must be true or false' })
+  tickrateSensitive?: boolean;
+
+  @ApiPropertyOptional({ description: 'Only return lineups posted by this user', example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Author ID must be an integer' })
+  @IsPositive({ message: 'Author ID must be a positive number' })
+  authorId?: number;
+
+  @ApiPropertyOptional({
+    description: 'Only return lineups landing on or thrown from this radar layer of a multi-level map',
+    example: 2,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Layer ID must be an integer' })
+  @IsPositive({ message: 'Layer ID must be a positive number' })
+  layerId?: number;
+
+  @ApiPropertyOptional({ description: 'Only return lineups landing in this callout zone', example: 4 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Landing zone ID must be an integer' })
+  @IsPositive({ message: 'Landing zone ID must be a positive number' })
+  landingZoneId?: number;
+
+  @ApiPropertyOptional({ description: 'Only return lineups thrown from this callout zone', example: 7 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Throw zone ID must be an integer' })
+  @IsPositive({ message: 'Throw zone ID must be a positive number' })
+  throwZoneId?: number;
+
+  @ApiPropertyOptional({ description: 'Only return lineups posted on or after this date', example: '2025-01-01' })
+  @IsOptional()
+  @IsDateString({}, { message: 'createdFrom must be an ISO 8601 date' })
+  createdFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Only return lineups posted on or before this date', example: '2025-12-31' })
+  @IsOptional()
+  @IsDateString({}, { message: 'createdTo must be an ISO 8601 date' })
+  createdTo?: string;
+
+  @ApiPropertyOptional({ description: 'Only return lineups with at least this rating score', example: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Minimum score must be an integer' })
+  minScore?: number;
+
+  @ApiPropertyOptional({ description: 'Sort order', enum: SmokeSort, default: SmokeSort.TOP })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toLowerCase() : value))
+  @IsEnum(SmokeSort, { message: `Sort must be one of: ${Object.values(SmokeSort).join(', ')}` })
+  sort?: SmokeSort;
+
+  @ApiPropertyOptional({ description: 'Number of lineups per page', minimum: 1, maximum: 100, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Opaque cursor from the previous page (pagination.nextCursor)' })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
@@ -1,13 +1,46 @@
+import { GrenadeType, MouseButton, TeamSide, ThrowMovement, ThrowStance, VideoProvider } from '@prisma/client';
 import { UserResponseDto } from './user-response.dto';
 import { MapResponseDto } from './map-response.dto';
 
+export class ThrowTechniqueResponseDto {
+  stance: ThrowStance | null;
+  movement: ThrowMovement | null;
+  mouseButton: MouseButton | null;
+  requiresJumpThrowBind: boolean;
+  tickrateSensitive: boolean;
+}
+
+export class VideoEmbedResponseDto {
+  provider: VideoProvider;
+  videoId: string;
+  startTime: number;
+  watchUrl: string;
+  // Twitch clips also need a `parent` query parameter with the embedding site's domain
+  embedUrl: string;
+}
+
 export class SmokeResponseDto {
   id: number;
   title: string;
+  description: string | null;
+  grenadeType: GrenadeType;
+  side: TeamSide;
+  callout: string | null;
   videoUrl: string;
   timestamp: number;
+  // Null for older smokes whose video link is not from a supported provider
+  video: VideoEmbedResponseDto | null;
   x_coord: number;
   y_coord: number;
+  throw_x_coord: number | null;
+  throw_y_coord: number | null;
+  // Radar layers of the landing and throw points, null on single-level maps
+  landingLayerId: number | null;
+  throwLayerId: number | null;
+  // Callout zones of the landing and throw points, null outside every zone of the map
+  landingZoneId: number | null;
+  throwZoneId: number | null;
+  technique: ThrowTechniqueResponseDto;
   score: number;
   createdAt: Date;
   updatedAt: Date;
@@ -0,0 +1,29 @@
+import { GrenadeType, TeamSide } from '@prisma/client';
+import { ThrowTechniqueResponseDto } from './smoke-response.dto';
+
+export class SmokeRevisionChangeDto {
+  from: string | number | boolean | null;
+  to: string | number | boolean | null;
+}
+
+export class SmokeRevisionResponseDto {
+  id: number;
+  revision: number;
+  title: string;
+  description: string | null;
+  grenadeType: GrenadeType;
+  side: TeamSide;
+  callout: string | null;
+  videoUrl: string;
+  timestamp: number;
+  x_coord: number;
+  y_coord: number;
+  throw_x_coord: number | null;
+  throw_y_coord: number | null;
+  landingLayerId: number | null;
+  throwLayerId: number | null;
+  technique: ThrowTechniqueResponseDto;
+  editorId: number;
+  createdAt: Date;
+  changes: { [field: string]: SmokeRevisionChangeDto };
+}
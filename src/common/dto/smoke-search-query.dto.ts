@@ -0,0 +1,36 @@
+import { IsInt, IsOptional, IsPositive, IsString, Length, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SmokeSearchQueryDto {
+  @ApiProperty({
+    description: 'Words that must all appear in the title, description, callout or map name (accents are ignored)',
+    minLength: 2,
+    maxLength: 100,
+    example: 'janela mirage',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString()
+  @Length(2, 100, { message: 'Search query must be between 2 and 100 characters' })
+  q: string;
+
+  @ApiPropertyOptional({ description: 'Only search lineups of this map', example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Map ID must be an integer' })
+  @IsPositive({ message: 'Map ID must be a positive number' })
+  mapId?: number;
+
+  @ApiPropertyOptional({ description: 'Number of results per page', minimum: 1, maximum: 50, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(50, { message: 'Limit must not exceed 50' })
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Opaque cursor from the previous page (pagination.nextCursor)' })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
@@ -0,0 +1,6 @@
+import { SmokeResponseDto } from './smoke-response.dto';
+
+export class SmokeSearchResultDto extends SmokeResponseDto {
+  // Text relevance blended with the rating score, higher is better
+  relevance: number;
+}
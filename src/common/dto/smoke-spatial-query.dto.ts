@@ -0,0 +1,118 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { RadarPointDto } from './callout-zone.dto';
+
+export enum SpatialTarget {
+  THROW = 'throw',
+  LANDING = 'landing',
+}
+
+/**
+ * Parse `x1,y1;x2,y2;x3,y3` into radar points, leaving malformed values for the validator to reject
+ */
+const toRadarPoints = ({ value }: { value: unknown }) =>
+  typeof value === 'string'
+    ? value.split(';').map((pair) => {
+      const [x, y] = pair.split(',').map(Number);
+      return Object.assign(new RadarPointDto(), { x, y });
+    })
+    : value;
+
+export class SmokeSpatialQueryDto {
+  @ApiPropertyOptional({
+    description: 'Which point of the lineup to match, where it is thrown from or where it lands',
+    enum: SpatialTarget,
+    default: SpatialTarget.THROW,
+  })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.toLowerCase() : value))
+  @IsEnum(SpatialTarget, { message: 'Point must be throw or landing' })
+  point?: SpatialTarget;
+
+  @ApiPropertyOptional({ description: 'X of the reference point, 0-1 from the left of the radar', example: 0.42 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'X must be a number' })
+  @Min(0, { message: 'X must be between 0 and 1' })
+  @Max(1, { message: 'X must be between 0 and 1' })
+  x?: number;
+
+  @ApiPropertyOptional({ description: 'Y of the reference point, 0-1 from the top of the radar', example: 0.37 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Y must be a number' })
+  @Min(0, { message: 'Y must be between 0 and 1' })
+  @Max(1, { message: 'Y must be between 0 and 1' })
+  y?: number;
+
+  @ApiPropertyOptional({ description: 'Search radius around x and y, in radar widths', example: 0.05 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Radius must be a number' })
+  @IsPositive({ message: 'Radius must be positive' })
+  @Max(1.5, { message: 'Radius must not exceed 1.5' })
+  radius?: number;
+
+  @ApiPropertyOptional({ description: 'Left edge of the bounding box', example: 0.3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'minX must be a number' })
+  minX?: number;
+
+  @ApiPropertyOptional({ description: 'Top edge of the bounding box', example: 0.3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'minY must be a number' })
+  minY?: number;
+
+  @ApiPropertyOptional({ description: 'Right edge of the bounding box', example: 0.5 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'maxX must be a number' })
+  maxX?: number;
+
+  @ApiPropertyOptional({ description: 'Bottom edge of the bounding box', example: 0.5 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'maxY must be a number' })
+  maxY?: number;
+
+  @ApiPropertyOptional({
+    description: 'Polygon vertices as x,y pairs separated by semicolons',
+    example: '0.3,0.3;0.5,0.3;0.4,0.5',
+    type: String,
+  })
+  @IsOptional()
+  @Transform(toRadarPoints)
+  @ArrayMinSize(3, { message: 'A polygon needs at least 3 points' })
+  @ArrayMaxSize(100, { message: 'A polygon can have at most 100 points' })
+  @ValidateNested({ each: true })
+  polygon?: RadarPointDto[];
+
+  @ApiPropertyOptional({ description: 'Only match points on this radar layer of a multi-level map', example: 2 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Layer ID must be an integer' })
+  @IsPositive({ message: 'Layer ID must be a positive number' })
+  layerId?: number;
+
+  @ApiPropertyOptional({ description: 'Maximum number of results', minimum: 1, maximum: 100, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  limit?: number;
+}
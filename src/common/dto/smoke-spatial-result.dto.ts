@@ -0,0 +1,6 @@
+import { SmokeResponseDto } from './smoke-response.dto';
+
+export class SmokeSpatialResultDto extends SmokeResponseDto {
+  // Distance of the matched point from the reference point, in radar widths
+  distance: number;
+}
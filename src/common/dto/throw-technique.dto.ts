@@ -0,0 +1,30 @@
+import { IsBoolean, IsEnum, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { MouseButton, ThrowMovement, ThrowStance } from '@prisma/client';
+
+export class ThrowTechniqueDto {
+  @ApiPropertyOptional({ description: 'Player stance when releasing the grenade', enum: ThrowStance })
+  @IsOptional()
+  @IsEnum(ThrowStance, { message: `Stance must be one of: ${Object.values(ThrowStance).join(', ')}` })
+  stance?: ThrowStance;
+
+  @ApiPropertyOptional({ description: 'Player movement when releasing the grenade', enum: ThrowMovement })
+  @IsOptional()
+  @IsEnum(ThrowMovement, { message: `Movement must be one of: ${Object.values(ThrowMovement).join(', ')}` })
+  movement?: ThrowMovement;
+
+  @ApiPropertyOptional({ description: 'Mouse button used to throw (BOTH is a middle throw)', enum: MouseButton })
+  @IsOptional()
+  @IsEnum(MouseButton, { message: `Mouse button must be one of: ${Object.values(MouseButton).join(', ')}` })
+  mouseButton?: MouseButton;
+
+  @ApiPropertyOptional({ description: 'Whether the lineup needs a jump-throw bind', default: false })
+  @IsOptional()
+  @IsBoolean({ message: 'Jump-throw bind flag must be a boolean' })
+  requiresJumpThrowBind?: boolean;
+
+  @ApiPropertyOptional({ description: 'Whether the lineup only works on a specific tickrate', default: false })
+  @IsOptional()
+  @IsBoolean({ message: 'Tickrate sensitivity flag must be a boolean' })
+  tickrateSensitive?: boolean;
+}
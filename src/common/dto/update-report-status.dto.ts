@@ -0,0 +1,21 @@
+import { IsIn, IsOptional, IsString, Length } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ReportStatus } from '@prisma/client';
+
+export class UpdateReportStatusDto {
+  @ApiProperty({
+    description: 'New status, reports move from PENDING to REVIEWED to RESOLVED',
+    enum: [ReportStatus.REVIEWED, ReportStatus.RESOLVED],
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toUpperCase() : value))
+  @IsIn([ReportStatus.REVIEWED, ReportStatus.RESOLVED], { message: 'Status must be one of: REVIEWED, RESOLVED' })
+  status: ReportStatus;
+
+  @ApiPropertyOptional({ description: 'Note explaining how the report was handled', maxLength: 1000 })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString()
+  @Length(1, 1000, { message: 'Resolution note must be between 1 and 1000 characters' })
+  resolutionNote?: string;
+}
@@ -0,0 +1,32 @@
+import { ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+import { IsNumber, ValidateIf } from 'class-validator';
+import { CreateSmokeDto } from './create-smoke.dto';
+
+/**
+ * Both throw coordinates are required when either is given, unless both are null to remove the throw point
+ */
+const isSettingThrowPoint = (dto: UpdateSmokeDto) =>
+  (dto.throw_x_coord !== undefined || dto.throw_y_coord !== undefined) &&
+  !(dto.throw_x_coord === null && dto.throw_y_coord === null);
+
+export class UpdateSmokeDto extends PartialType(
+  OmitType(CreateSmokeDto, ['mapId', 'throw_x_coord', 'throw_y_coord'] as const),
+) {
+  @ApiPropertyOptional({
+    description: 'X coordinate of the throw position on the radar, null together with throw_y_coord to remove it',
+    example: 0.605,
+    nullable: true,
+  })
+  @ValidateIf(isSettingThrowPoint)
+  @IsNumber({}, { message: 'Throw X coordinate must be a number' })
+  throw_x_coord?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Y coordinate of the throw position on the radar, null together with throw_x_coord to remove it',
+    example: 0.693,
+    nullable: true,
+  })
+  @ValidateIf(isSettingThrowPoint)
+  @IsNumber({}, { message: 'Throw Y coordinate must be a number' })
+  throw_y_coord?: number | null;
+}
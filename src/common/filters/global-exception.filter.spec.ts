@@ -105,6 +105,28 @@ describe('GlobalExceptionFilter', () => {
         path: '/test-endpoint',
       });
     });
+
+    it('should pass along the details of HTTP exceptions', () => {
+      const exception = new HttpException(
+        {
+          message: 'Smoke with the same video and timestamp already exists: 12',
+          error: 'DuplicateSmoke',
+          details: { duplicateIds: [12] },
+        },
+        HttpStatus.CONFLICT,
+      );
+
+      filter.catch(exception, mockArgumentsHost);
+
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        statusCode: 409,
+        message: 'Smoke with the same video and timestamp already exists: 12',
+        error: 'DuplicateSmoke',
+        details: { duplicateIds: [12] },
+        timestamp: expect.any(String),
+        path: '/test-endpoint',
+      });
+    });
   });
 
   describe('Prisma Errors', () => {
@@ -12,6 +12,8 @@ interface ErrorResponse {
   statusCode: number;
   message: string | string[];
   error?: string;
+  // Extra machine-readable context, e.g. the ids of the smokes a new smoke duplicates
+  details?: Record<string, unknown>;
   timestamp: string;
   path: string;
 }
@@ -60,6 +62,7 @@ export class GlobalExceptionFilter implements ExceptionFilter {
           statusCode: status,
           message: responseObj.message || exception.message,
           error: responseObj.error || exception.name,
+          ...(responseObj.details && { details: responseObj.details }),
           timestamp,
           path,
         };
@@ -1,2 +1,3 @@
 export * from './dto';
-export * from './filters';
\ No newline at end of file
+export * from './filters';
+export * from './video';
\ No newline at end of file
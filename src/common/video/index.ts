@@ -0,0 +1,2 @@
+export * from './video-url';
+export * from './is-supported-video-url.decorator';
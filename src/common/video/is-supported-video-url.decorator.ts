@@ -0,0 +1,19 @@
+import { registerDecorator, ValidationOptions } from 'class-validator';
+import { parseVideoUrl } from './video-url';
+
+/**
+ * Accept only links to a single YouTube, Twitch clip, Streamable or Medal video
+ */
+export function IsSupportedVideoUrl(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      name: 'isSupportedVideoUrl',
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: {
+        validate: (value: unknown) => typeof value === 'string' && parseVideoUrl(value) !== null,
+      },
+    });
+  };
+}
@@ -0,0 +1,91 @@
+import { VideoProvider } from '@prisma/client';
+import { parseStartTime, parseVideoUrl, toVideoEmbed } from './video-url';
+
+describe('video-url', () => {
+  describe('parseVideoUrl', () => {
+    it.each([
+      ['https://www.youtube.com/watch?v=dQw4w9WgXcQ', 'dQw4w9WgXcQ', null],
+      ['https://youtube.com/watch?v=dQw4w9WgXcQ&t=42s', 'dQw4w9WgXcQ', 42],
+      ['https://m.youtube.com/watch?v=dQw4w9WgXcQ&start=90', 'dQw4w9WgXcQ', 90],
+      ['https://youtu.be/dQw4w9WgXcQ?t=1m5s', 'dQw4w9WgXcQ', 65],
+      ['https://www.youtube.com/shorts/dQw4w9WgXcQ', 'dQw4w9WgXcQ', null],
+      ['https://www.youtube.com/embed/dQw4w9WgXcQ?start=10', 'dQw4w9WgXcQ', 10],
+      ['https://www.youtube.com/watch?v=dQw4w9WgXcQ#t=15', 'dQw4w9WgXcQ', 15],
+    ])('should recognise the YouTube link %s', (url, videoId, startTime) => {
+      expect(parseVideoUrl(url)).toEqual({
+        provider: VideoProvider.YOUTUBE,
+        videoId,
+        startTime,
+        url: `https://www.youtube.com/watch?v=${videoId}`,
+      });
+    });
+
+    it.each([
+      'https://clips.twitch.tv/FunnyClipSlug-AbC123',
+      'https://www.twitch.tv/gaules/clip/FunnyClipSlug-AbC123',
+      'https://clips.twitch.tv/embed?clip=FunnyClipSlug-AbC123&parent=example.com',
+    ])('should recognise the Twitch clip link %s', (url) => {
+      expect(parseVideoUrl(url)).toEqual({
+        provider: VideoProvider.TWITCH_CLIP,
+        videoId: 'FunnyClipSlug-AbC123',
+        startTime: null,
+        url: 'https://clips.twitch.tv/FunnyClipSlug-AbC123',
+      });
+    });
+
+    it('should recognise Streamable and Medal links', () => {
+      expect(parseVideoUrl('https://streamable.com/e/abc123?t=7')).toEqual({
+        provider: VideoProvider.STREAMABLE,
+        videoId: 'abc123',
+        startTime: 7,
+        url: 'https://streamable.com/abc123',
+      });
+      expect(parseVideoUrl('https://medal.tv/games/cs2/clips/jf8Kd0a/smoke-xbox?invite=cr-1')).toEqual({
+        provider: VideoProvider.MEDAL,
+        videoId: 'jf8Kd0a',
+        startTime: null,
+        url: 'https://medal.tv/clips/jf8Kd0a',
+      });
+    });
+
+    it.each([
+      'not-a-url',
+      'ftp://youtube.com/watch?v=dQw4w9WgXcQ',
+      'https://example.com/video.mp4',
+      'https://vimeo.com/123456',
+      'https://www.youtube.com/watch?v=short',
+      'https://www.youtube.com/channel/UC123',
+      'https://www.twitch.tv/gaules',
+      'https://medal.tv/games/cs2',
+    ])('should reject %s', (url) => {
+      expect(parseVideoUrl(url)).toBeNull();
+    });
+  });
+
+  describe('parseStartTime', () => {
+    it('should parse plain seconds and h/m/s durations', () => {
+      expect(parseStartTime('90')).toBe(90);
+      expect(parseStartTime('90s')).toBe(90);
+      expect(parseStartTime('1h2m3s')).toBe(3723);
+    });
+
+    it('should ignore zero and malformed values', () => {
+      expect(parseStartTime('0')).toBeNull();
+      expect(parseStartTime('')).toBeNull();
+      expect(parseStartTime('abc')).toBeNull();
+    });
+  });
+
+  describe('toVideoEmbed', () => {
+    it('should build embed links starting at the timestamp', () => {
+      expect(toVideoEmbed(VideoProvider.STREAMABLE, 'abc123', 12)).toEqual({
+        provider: VideoProvider.STREAMABLE,
+        videoId: 'abc123',
+        startTime: 12,
+        watchUrl: 'https://streamable.com/abc123?t=12',
+        embedUrl: 'https://streamable.com/e/abc123?t=12',
+      });
+      expect(toVideoEmbed(VideoProvider.TWITCH_CLIP, 'Slug', 5).embedUrl).toBe('https://clips.twitch.tv/embed?clip=Slug');
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { VideoProvider } from '@prisma/client';
+
+/**
+ * A video link reduced to its provider, video id and optional start time
+ */
+export interface ParsedVideoUrl {
+  provider: VideoProvider;
+  videoId: string;
+  // Start time in seconds taken from the link (?t=, ?start=, #t=), if any
+  startTime: number | null;
+  // Canonical link to the video without any start time
+  url: string;
+}
+
+/**
+ * Embed-ready description of a video starting at a given time
+ */
+export interface VideoEmbed {
+  provider: VideoProvider;
+  videoId: string;
+  startTime: number;
+  // Link to watch the video on the provider's site at the start time
+  watchUrl: string;
+  // URL to use as an iframe source
+  embedUrl: string;
+}
+
+interface VideoProviderDefinition {
+  provider: VideoProvider;
+  hosts: string[];
+  // Extract the video id and start time, or return null when the link is not a video of this provider
+  match(url: URL, host: string): { videoId: string; startTime: number | null } | null;
+  canonicalUrl(videoId: string): string;
+  watchUrl(videoId: string, startTime: number): string;
+  embedUrl(videoId: string, startTime: number): string;
+}
+
+const YOUTUBE_ID = /^[A-Za-z0-9_-]{11}$/;
+const CLIP_ID = /^[A-Za-z0-9_-]+$/;
+
+const VIDEO_PROVIDERS: VideoProviderDefinition[] = [
+  {
+    provider: VideoProvider.YOUTUBE,
+    hosts: ['youtube.com', 'youtu.be', 'youtube-nocookie.com'],
+    match: (url, host) => {
+      const segments = pathSegments(url);
+      let videoId: string | undefined;
+
+      if (host === 'youtu.be') {
+        videoId = segments[0];
+      } else if (segments[0] === 'watch') {
+        videoId = url.searchParams.get('v') ?? undefined;
+      } else if (['shorts', 'embed', 'live', 'v'].includes(segments[0])) {
+        videoId = segments[1];
+      }
+
+      if (!videoId || !YOUTUBE_ID.test(videoId)) {
+        return null;
+      }
+
+      return { videoId, startTime: startTimeOf(url, ['t', 'start']) };
+    },
+    canonicalUrl: (videoId) => `https://www.youtube.com/watch?v=${videoId}`,
+    watchUrl: (videoId, startTime) => `https://www.youtube.com/watch?v=${videoId}&t=${startTime}s`,
+    embedUrl: (videoId, startTime) => `https://www.youtube.com/embed/${videoId}?start=${startTime}`,
+  },
+  {
+    provider: VideoProvider.TWITCH_CLIP,
+    hosts: ['clips.twitch.tv', 'twitch.tv'],
+    match: (url, host) => {
+      const segments = pathSegments(url);
+      let videoId: string | undefined;
+
+      if (host === 'clips.twitch.tv') {
+        videoId = segments[0] === 'embed' ? url.searchParams.get('clip') ?? undefined : segments[0];
+      } else if (segments[1] === 'clip') {
+        // twitch.tv/<channel>/clip/<slug>
+        videoId = segments[2];
+      }
+
+      return videoId && CLIP_ID.test(videoId) ? { videoId, startTime: null } : null;
+    },
+    canonicalUrl: (videoId) => `https://clips.twitch.tv/${videoId}`,
+    // Clips are short and Twitch does not support starting them at an offset
+    watchUrl: (videoId) => `https://clips.twitch.tv/${videoId}`,
+    // Twitch also requires a `parent` parameter with the embedding site's domain, which clients append
+    embedUrl: (videoId) => `https://clips.twitch.tv/embed?clip=${videoId}`,
+  },
+  {
+    provider: VideoProvider.STREAMABLE,
+    hosts: ['streamable.com'],
+    match: (url) => {
+      const segments = pathSegments(url);
+      const videoId = ['e', 'o', 's'].includes(segments[0]) ? segments[1] : segments[0];
+
+      return videoId && /^[A-Za-z0-9]+$/.test(videoId) ? { videoId, startTime: startTimeOf(url, ['t']) } : null;
+    },
+    canonicalUrl: (videoId) => `https://streamable.com/${videoId}`,
+    watchUrl: (videoId, startTime) => `https://streamable.com/${videoId}?t=${startTime}`,
+    embedUrl: (videoId, startTime) => `https://streamable.com/e/${videoId}?t=${startTime}`,
+  },
+  {
+    provider: VideoProvider.MEDAL,
+    hosts: ['medal.tv'],
+    match: (url) => {
+      // medal.tv/games/<game>/clips/<id>/<slug> or medal.tv/clips/<id>
+      const segments = pathSegments(url);
+      const clipIndex = segments.findIndex((segment) => segment === 'clips' || segment === 'clip');
+      const videoId = clipIndex >= 0 ? segments[clipIndex + 1] : undefined;
+
+      return videoId && CLIP_ID.test(videoId) ? { videoId, startTime: startTimeOf(url, ['t']) } : null;
+    },
+    canonicalUrl: (videoId) => `https://medal.tv/clips/${videoId}`,
+    watchUrl: (videoId, startTime) => `https://medal.tv/clips/${videoId}?t=${startTime}`,
+    embedUrl: (videoId, startTime) => `https://medal.tv/clip/${videoId}?autoplay=0&t=${startTime}`,
+  },
+];
+
+export const SUPPORTED_VIDEO_HOSTS = VIDEO_PROVIDERS.flatMap((definition) => definition.hosts);
+
+/**
+ * Recognise a YouTube, Twitch clip, Streamable or Medal link
+ * Returns null for malformed links, unsupported hosts and links that do not point to a single video
+ */
+export function parseVideoUrl(raw: string): ParsedVideoUrl | null {
+  let url: URL;
+
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^(www|m)\./, '');
+  const definition = VIDEO_PROVIDERS.find((candidate) => candidate.hosts.includes(host));
+  const match = definition?.match(url, host);
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    provider: definition.provider,
+    videoId: match.videoId,
+    startTime: match.startTime,
+    url: definition.canonicalUrl(match.videoId),
+  };
+}
+
+/**
+ * Build the watch and embed links of a video starting at the given second
+ */
+export function toVideoEmbed(provider: VideoProvider, videoId: string, startTime: number): VideoEmbed {
+  const definition = VIDEO_PROVIDERS.find((candidate) => candidate.provider === provider);
+
+  return {
+    provider,
+    videoId,
+    startTime,
+    watchUrl: definition.watchUrl(videoId, startTime),
+    embedUrl: definition.embedUrl(videoId, startTime),
+  };
+}
+
+function pathSegments(url: URL): string[] {
+  return url.pathname.split('/').filter((segment) => segment.length > 0);
+}
+
+/**
+ * Read a start time from the query string or the #t= fragment
+ */
+function startTimeOf(url: URL, params: string[]): number | null {
+  const fragment = new URLSearchParams(url.hash.replace(/^#/, ''));
+  const value = params.map((param) => url.searchParams.get(param)).find((candidate) => candidate) ?? fragment.get('t');
+
+  return value ? parseStartTime(value) : null;
+}
+
+/**
+ * Parse "90", "90s", "1m30s" or "1h2m3s" into seconds, ignoring zero and malformed values
+ */
+export function parseStartTime(value: string): number | null {
+  const match = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/.exec(value.trim());
+
+  if (!match || !value.trim()) {
+    return null;
+  }
+
+  const [, hours = '0', minutes = '0', seconds = '0'] = match;
+  const total = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+
+  return total > 0 ? total : null;
+}
@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty, IsOptional, IsPort } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsPort, IsInt, Min, IsIn, IsNumber, IsPositive } from 'class-validator';
 import { Transform } from 'class-transformer';
 
 export class EnvironmentVariables {
@@ -17,4 +17,59 @@ export class EnvironmentVariables {
   @IsOptional()
   @Transform(({ value }) => parseInt(value))
   PORT?: number;
-}
\ No newline at end of file
+
+  // Weighted pending reports that automatically hide a smoke, 0 disables auto-hiding
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  REPORT_AUTO_HIDE_THRESHOLD?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  REPORT_NEW_ACCOUNT_DAYS?: number;
+
+  @IsOptional()
+  @IsInt()
+  REPORT_TRUSTED_REPUTATION?: number;
+
+  // Days during which authors can restore a smoke they deleted
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  SMOKE_RESTORE_GRACE_DAYS?: number;
+
+  // Days after which deleted smokes, their ratings and their reports are purged
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  SMOKE_PURGE_AFTER_DAYS?: number;
+
+  // Radar distance (0-1) under which new smokes landing and thrown close to an existing one are flagged as duplicates
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  SMOKE_DUPLICATE_DISTANCE?: number;
+
+  // Whether reposting the same video at the same timestamp is rejected (true) or only flagged (false)
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  SMOKE_BLOCK_EXACT_DUPLICATES?: string;
+
+  // Seconds map stats are cached for, 0 computes them on every request
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  MAP_STATS_CACHE_SECONDS?: number;
+
+  // Proxies in front of the app that append to X-Forwarded-For, used to find the client IP of audit log entries
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  TRUST_PROXY_HOPS?: number;
+
+  // Shared secret the scheduler sends as a bearer token to trigger the purge job
+  @IsOptional()
+  @IsString()
+  CRON_SECRET?: string;
+}
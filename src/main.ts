@@ -14,6 +14,8 @@ async function bootstrap(): Promise<INestApplication> {
   }
 
   const expressApp = express();
+  // Number of proxies in front of the app (1 on Vercel), whose X-Forwarded-For entries req.ip may use
+  expressApp.set('trust proxy', Number(process.env.TRUST_PROXY_HOPS ?? 0));
   const app = await NestFactory.create(
     AppModule,
     new ExpressAdapter(expressApp),
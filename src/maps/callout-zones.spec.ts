@@ -0,0 +1,72 @@
+import { findZone, isInsidePolygon, polygonArea, tagZones } from './callout-zones';
+
+describe('callout zones', () => {
+  const square = (x: number, y: number, size: number) => [
+    { x, y },
+    { x: x + size, y },
+    { x: x + size, y: y + size },
+    { x, y: y + size },
+  ];
+  // L-shaped polygon, concave around (0.75, 0.75)
+  const corner = [
+    { x: 0.5, y: 0.5 },
+    { x: 1, y: 0.5 },
+    { x: 1, y: 0.6 },
+    { x: 0.6, y: 0.6 },
+    { x: 0.6, y: 1 },
+    { x: 0.5, y: 1 },
+  ];
+
+  it('should tell points inside a polygon from points outside it', () => {
+    expect(isInsidePolygon({ x: 0.3, y: 0.3 }, square(0.2, 0.2, 0.2))).toBe(true);
+    expect(isInsidePolygon({ x: 0.5, y: 0.3 }, square(0.2, 0.2, 0.2))).toBe(false);
+  });
+
+  it('should handle concave polygons', () => {
+    expect(isInsidePolygon({ x: 0.55, y: 0.9 }, corner)).toBe(true);
+    expect(isInsidePolygon({ x: 0.75, y: 0.75 }, corner)).toBe(false);
+  });
+
+  it('should compute the area regardless of the winding order', () => {
+    expect(polygonArea(square(0, 0, 0.5))).toBeCloseTo(0.25);
+    expect(polygonArea([...square(0, 0, 0.5)].reverse())).toBeCloseTo(0.25);
+  });
+
+  it('should prefer the smallest of overlapping zones', () => {
+    const zones = [
+      { id: 1, layerId: null, points: square(0, 0, 0.5) },
+      { id: 2, layerId: null, points: square(0.1, 0.1, 0.1) },
+    ];
+
+    expect(findZone(zones, { x: 0.15, y: 0.15 }, null)?.id).toBe(2);
+    expect(findZone(zones, { x: 0.4, y: 0.4 }, null)?.id).toBe(1);
+    expect(findZone(zones, { x: 0.9, y: 0.9 }, null)).toBeUndefined();
+  });
+
+  it('should only match zones drawn on the layer of the point or on every layer', () => {
+    const zones = [
+      { id: 1, layerId: 3, points: square(0, 0, 0.5) },
+      { id: 2, layerId: null, points: square(0, 0, 1) },
+    ];
+
+    expect(findZone(zones, { x: 0.2, y: 0.2 }, 3)?.id).toBe(1);
+    expect(findZone(zones, { x: 0.2, y: 0.2 }, 4)?.id).toBe(2);
+  });
+
+  it('should tag the landing and throw points separately', () => {
+    const zones = [
+      { id: 1, layerId: null, points: square(0, 0, 0.5) },
+      { id: 2, layerId: null, points: square(0.5, 0.5, 0.5) },
+    ];
+    const position = { x_coord: 0.2, y_coord: 0.2, landingLayerId: null, throwLayerId: null };
+
+    expect(tagZones(zones, { ...position, throw_x_coord: 0.7, throw_y_coord: 0.7 })).toEqual({
+      landingZoneId: 1,
+      throwZoneId: 2,
+    });
+    expect(tagZones(zones, { ...position, throw_x_coord: null, throw_y_coord: null })).toEqual({
+      landingZoneId: 1,
+      throwZoneId: null,
+    });
+  });
+});
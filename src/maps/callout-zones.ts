@@ -0,0 +1,138 @@
+import { Prisma } from '@prisma/client';
+import { RadarPoint } from './radar-coordinates';
+
+/**
+ * A callout zone as needed to tag smokes, with its polygon on the normalised radar
+ */
+export interface ZoneShape {
+  id: number;
+  layerId: number | null;
+  points: RadarPoint[];
+}
+
+/**
+ * Landing and throw points of a smoke with the radar layers they belong to
+ */
+export interface ZonedPosition {
+  x_coord: number;
+  y_coord: number;
+  throw_x_coord: number | null;
+  throw_y_coord: number | null;
+  landingLayerId: number | null;
+  throwLayerId: number | null;
+}
+
+export interface ZoneTags {
+  landingZoneId: number | null;
+  throwZoneId: number | null;
+}
+
+/**
+ * Whether a point lies inside a polygon, using the even-odd rule
+ */
+export function isInsidePolygon(point: RadarPoint, polygon: RadarPoint[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+export function polygonArea(polygon: RadarPoint[]): number {
+  let twiceArea = 0;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    twiceArea += (polygon[j].x + polygon[i].x) * (polygon[j].y - polygon[i].y);
+  }
+
+  return Math.abs(twiceArea) / 2;
+}
+
+/**
+ * Find the zone containing a point on the given layer, zones without a layer apply to every layer
+ * When zones overlap the smallest one wins, so "Window" can be drawn inside "Mid"
+ */
+export function findZone(zones: ZoneShape[], point: RadarPoint, layerId: number | null): ZoneShape | undefined {
+  return zones
+    .filter((zone) => zone.layerId === null || zone.layerId === layerId)
+    .filter((zone) => isInsidePolygon(point, zone.points))
+    .sort((a, b) => polygonArea(a.points) - polygonArea(b.points))[0];
+}
+
+/**
+ * Zones of a smoke's landing and throw points, null where a point is outside every zone or missing
+ */
+export function tagZones(zones: ZoneShape[], position: ZonedPosition): ZoneTags {
+  const landing = findZone(zones, { x: position.x_coord, y: position.y_coord }, position.landingLayerId);
+  const thrown =
+    position.throw_x_coord !== null && position.throw_y_coord !== null
+      ? findZone(zones, { x: position.throw_x_coord, y: position.throw_y_coord }, position.throwLayerId)
+      : undefined;
+
+  return { landingZoneId: landing?.id ?? null, throwZoneId: thrown?.id ?? null };
+}
+
+/**
+ * Load the zones of a map in the shape used for tagging
+ */
+export async function findZoneShapes(client: Prisma.TransactionClient, mapId: number): Promise<ZoneShape[]> {
+  const zones = await client.calloutZone.findMany({
+    where: { mapId },
+    select: { id: true, layerId: true, points: true },
+  });
+
+  return zones.map((zone) => ({ ...zone, points: zone.points as unknown as RadarPoint[] }));
+}
+
+/**
+ * Re-tag every smoke of a map after its zones changed, deleted smokes included so they are correct if restored
+ * Smokes moving to the same pair of zones are updated together, so a busy map takes a handful of statements
+ * Returns the number of smokes whose tags changed
+ */
+export async function retagMapSmokes(client: Prisma.TransactionClient, mapId: number): Promise<number> {
+  const zones = await findZoneShapes(client, mapId);
+  const smokes = await client.smoke.findMany({
+    where: { mapId },
+    select: {
+      id: true,
+      x_coord: true,
+      y_coord: true,
+      throw_x_coord: true,
+      throw_y_coord: true,
+      landingLayerId: true,
+      throwLayerId: true,
+      landingZoneId: true,
+      throwZoneId: true,
+    },
+  });
+  const retagged: Record<string, ZoneTags & { ids: number[] }> = {};
+  let changed = 0;
+
+  for (const smoke of smokes) {
+    const tags = tagZones(zones, smoke);
+
+    if (tags.landingZoneId !== smoke.landingZoneId || tags.throwZoneId !== smoke.throwZoneId) {
+      const key = `${tags.landingZoneId}:${tags.throwZoneId}`;
+      retagged[key] ??= { ...tags, ids: [] };
+      retagged[key].ids.push(smoke.id);
+      changed++;
+    }
+  }
+
+  for (const { landingZoneId, throwZoneId, ids } of Object.values(retagged)) {
+    // Raw update so re-tagging does not count as an edit in updatedAt
+    await client.$executeRaw`
+      UPDATE smokes SET "landingZoneId" = ${landingZoneId}, "throwZoneId" = ${throwZoneId}
+      WHERE id IN (${Prisma.join(ids)})
+    `;
+  }
+
+  return changed;
+}
@@ -0,0 +1,47 @@
+import { MapStatsResponseDto } from '../common/dto/map-stats-response.dto';
+import { MapStatsCache, daysBefore } from './map-stats';
+
+describe('map stats', () => {
+  const stats = (mapId: number) => ({ mapId }) as MapStatsResponseDto;
+
+  it('should compute the start of a window of days', () => {
+    expect(daysBefore(new Date('2026-03-31T12:00:00Z'), 7)).toEqual(new Date('2026-03-24T12:00:00Z'));
+  });
+
+  it('should reuse cached stats until they expire', async () => {
+    const cache = new MapStatsCache(60);
+    const compute = jest.fn().mockResolvedValueOnce(stats(1)).mockResolvedValueOnce(stats(2));
+
+    await expect(cache.get(1, compute, 0)).resolves.toEqual(stats(1));
+    await expect(cache.get(1, compute, 59_999)).resolves.toEqual(stats(1));
+    await expect(cache.get(1, compute, 60_000)).resolves.toEqual(stats(2));
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share a pending computation between requests', async () => {
+    const cache = new MapStatsCache(60);
+    const compute = jest.fn().mockResolvedValue(stats(1));
+
+    await Promise.all([cache.get(1, compute, 0), cache.get(1, compute, 0)]);
+
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not cache failed computations', async () => {
+    const cache = new MapStatsCache(60);
+    const compute = jest.fn().mockRejectedValueOnce(new Error('timeout')).mockResolvedValueOnce(stats(1));
+
+    await expect(cache.get(1, compute, 0)).rejects.toThrow('timeout');
+    await expect(cache.get(1, compute, 1)).resolves.toEqual(stats(1));
+  });
+
+  it('should compute stats on every request when the cache is disabled', async () => {
+    const cache = new MapStatsCache(0);
+    const compute = jest.fn().mockResolvedValue(stats(1));
+
+    await cache.get(1, compute, 0);
+    await cache.get(1, compute, 0);
+
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,53 @@
+import { MapStatsResponseDto } from '../common/dto/map-stats-response.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_MAP_STATS_CACHE_SECONDS = 300;
+
+// Length of the top rated smokes and top contributors lists
+export const MAP_STATS_TOP_SIZE = 5;
+
+/**
+ * Start of the window of the last `days` days, used for the new smokes counts
+ */
+export function daysBefore(now: Date, days: number): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+interface CacheEntry {
+  expiresAt: number;
+  stats: Promise<MapStatsResponseDto>;
+}
+
+/**
+ * In-memory cache of map stats, kept per API instance
+ * Requests for a map whose stats are being computed share the pending computation, failed ones are not cached
+ */
+export class MapStatsCache {
+  private readonly entries = new Map<number, CacheEntry>();
+
+  constructor(private readonly ttlSeconds: number) {}
+
+  get(
+    mapId: number,
+    compute: () => Promise<MapStatsResponseDto>,
+    now: number = Date.now(),
+  ): Promise<MapStatsResponseDto> {
+    const cached = this.entries.get(mapId);
+
+    if (cached && cached.expiresAt > now) {
+      return cached.stats;
+    }
+
+    const stats = compute();
+    const entry = { expiresAt: now + this.ttlSeconds * 1000, stats };
+    this.entries.set(mapId, entry);
+    stats.catch(() => {
+      if (this.entries.get(mapId) === entry) {
+        this.entries.delete(mapId);
+      }
+    });
+
+    return stats;
+  }
+}
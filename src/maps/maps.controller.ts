@@ -1,20 +1,232 @@
-import { Controller, Get, Param, ParseIntPipe } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
 import { MapsService } from './maps.service';
-import { ApiTags } from '@nestjs/swagger';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
 import { MapResponseDto } from '../common/dto/map-response.dto';
+import { CreateMapDto } from '../common/dto/create-map.dto';
+import { UpdateMapDto } from '../common/dto/update-map.dto';
+import { MapQueryDto } from '../common/dto/map-query.dto';
+import { UpdateRadarLayersDto } from '../common/dto/radar-layer.dto';
+import { CreateCalloutZoneDto, UpdateCalloutZoneDto } from '../common/dto/callout-zone.dto';
+import { CalloutZoneResponseDto } from '../common/dto/callout-zone-response.dto';
+import { MapStatsResponseDto } from '../common/dto/map-stats-response.dto';
 
 @ApiTags('maps')
 @Controller('maps')
 export class MapsController {
   constructor(private readonly mapsService: MapsService) {}
 
+  /**
+   * GET /maps
+   * List the maps that are not archived
+   * Supports filtering by pool status (?status=ACTIVE_DUTY,RESERVE) and game mode (?mode=WINGMAN),
+   * sorted by ?sort=pool|name|released|updated
+   * Public endpoint - no authentication required
+   */
   @Get()
-  async findAll(): Promise<MapResponseDto[]> {
-    return this.mapsService.findAll();
+  @ApiOperation({ summary: 'List maps' })
+  @ApiResponse({ status: 200, description: 'Maps matching the filters' })
+  @ApiResponse({ status: 400, description: 'Invalid filters' })
+  async findAll(@Query() query: MapQueryDto): Promise<MapResponseDto[]> {
+    return this.mapsService.findAll(query);
   }
 
+  /**
+   * GET /maps/:id
+   * Get a map with its radar layers and callout zones
+   * Public endpoint - no authentication required
+   */
   @Get(':id')
+  @ApiOperation({ summary: 'Get a map' })
+  @ApiResponse({ status: 200, description: 'The map with its layers and callout zones' })
+  @ApiResponse({ status: 404, description: 'Map not found' })
   async findById(@Param('id', ParseIntPipe) id: number): Promise<MapResponseDto> {
     return this.mapsService.findById(id);
   }
-}
\ No newline at end of file
+
+  /**
+   * GET /maps/:id/stats
+   * Get smoke counts by grenade type and side, new smokes, top rated smokes, top contributors and report rates
+   * Stats only cover smokes that are neither deleted nor hidden and are cached for a few minutes
+   * Public endpoint - no authentication required
+   */
+  @Get(':id/stats')
+  @ApiOperation({ summary: 'Get map stats' })
+  @ApiResponse({ status: 200, description: 'Stats of the smokes of the map' })
+  @ApiResponse({ status: 404, description: 'Map not found' })
+  async getStats(@Param('id', ParseIntPipe) id: number): Promise<MapStatsResponseDto> {
+    return this.mapsService.getStats(id);
+  }
+
+  /**
+   * POST /maps
+   * Add a new map
+   * Admin endpoint - requires the ADMIN role
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Create a map' })
+  @ApiResponse({ status: 201, description: 'Map created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires the admin role' })
+  @ApiResponse({ status: 409, description: 'A map with this name already exists' })
+  async create(@Body() createMapDto: CreateMapDto, @Request() req: { user: JwtPayload }): Promise<MapResponseDto> {
+    return this.mapsService.create(createMapDto, req.user.sub);
+  }
+
+  /**
+   * PATCH /maps/:id
+   * Edit a map, renaming it also updates the search index of its smokes
+   * Admin endpoint - requires the ADMIN role
+   */
+  @Patch(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Update a map' })
+  @ApiResponse({ status: 200, description: 'Map updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires the admin role' })
+  @ApiResponse({ status: 404, description: 'Map not found' })
+  @ApiResponse({ status: 409, description: 'A map with this name already exists' })
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateMapDto: UpdateMapDto,
+    @Request() req: { user: JwtPayload },
+  ): Promise<MapResponseDto> {
+    return this.mapsService.update(id, updateMapDto, req.user.sub);
+  }
+
+  /**
+   * POST /maps/:id/archive
+   * Hide a map from the map list and stop accepting new smokes for it, its smokes are kept
+   * Admin endpoint - requires the ADMIN role
+   */
+  @Post(':id/archive')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Archive a map' })
+  @ApiResponse({ status: 200, description: 'Map archived successfully' })
+  @ApiResponse({ status: 400, description: 'Map is already archived' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires the admin role' })
+  @ApiResponse({ status: 404, description: 'Map not found' })
+  async archive(@Param('id', ParseIntPipe) id: number, @Request() req: { user: JwtPayload }): Promise<MapResponseDto> {
+    return this.mapsService.archive(id, req.user.sub);
+  }
+
+  /**
+   * PUT /maps/:id/layers
+   * Replace the radar layers of a multi-level map (e.g. upper and lower Nuke)
+   * Layers are matched by key, layers left out are removed along with their callout zones
+   * and their smokes left without a layer
+   * Admin endpoint - requires the ADMIN role
+   */
+  @Put(':id/layers')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Replace the radar layers of a map' })
+  @ApiResponse({ status: 200, description: 'Layers updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires the admin role' })
+  @ApiResponse({ status: 404, description: 'Map not found' })
+  async replaceLayers(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateRadarLayersDto: UpdateRadarLayersDto,
+    @Request() req: { user: JwtPayload },
+  ): Promise<MapResponseDto> {
+    return this.mapsService.replaceLayers(id, updateRadarLayersDto, req.user.sub);
+  }
+
+  /**
+   * POST /maps/:id/zones
+   * Add a callout zone polygon to a map, smokes inside it are tagged with it
+   * Admin endpoint - requires the ADMIN role
+   */
+  @Post(':id/zones')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Create a callout zone' })
+  @ApiResponse({ status: 201, description: 'Callout zone created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires the admin role' })
+  @ApiResponse({ status: 404, description: 'Map not found' })
+  @ApiResponse({ status: 409, description: 'A callout zone with this name already exists on the map' })
+  async createZone(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createCalloutZoneDto: CreateCalloutZoneDto,
+    @Request() req: { user: JwtPayload },
+  ): Promise<CalloutZoneResponseDto> {
+    return this.mapsService.createZone(id, createCalloutZoneDto, req.user.sub);
+  }
+
+  /**
+   * PATCH /maps/:id/zones/:zoneId
+   * Rename or redraw a callout zone, smokes are re-tagged when its shape changes
+   * Admin endpoint - requires the ADMIN role
+   */
+  @Patch(':id/zones/:zoneId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Update a callout zone' })
+  @ApiResponse({ status: 200, description: 'Callout zone updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires the admin role' })
+  @ApiResponse({ status: 404, description: 'Callout zone not found' })
+  @ApiResponse({ status: 409, description: 'A callout zone with this name already exists on the map' })
+  async updateZone(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('zoneId', ParseIntPipe) zoneId: number,
+    @Body() updateCalloutZoneDto: UpdateCalloutZoneDto,
+    @Request() req: { user: JwtPayload },
+  ): Promise<CalloutZoneResponseDto> {
+    return this.mapsService.updateZone(id, zoneId, updateCalloutZoneDto, req.user.sub);
+  }
+
+  /**
+   * DELETE /maps/:id/zones/:zoneId
+   * Remove a callout zone, its smokes are re-tagged with the remaining zones
+   * Admin endpoint - requires the ADMIN role
+   */
+  @Delete(':id/zones/:zoneId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Delete a callout zone' })
+  @ApiResponse({ status: 204, description: 'Callout zone deleted successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires the admin role' })
+  @ApiResponse({ status: 404, description: 'Callout zone not found' })
+  async deleteZone(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('zoneId', ParseIntPipe) zoneId: number,
+    @Request() req: { user: JwtPayload },
+  ): Promise<void> {
+    await this.mapsService.deleteZone(id, zoneId, req.user.sub);
+  }
+}
@@ -1,10 +1,12 @@
 import { Module } from '@nestjs/common';
 import { MapsController } from './maps.controller';
 import { MapsService } from './maps.service';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
+  imports: [AuditModule],
   controllers: [MapsController],
   providers: [MapsService],
   exports: [MapsService],
 })
-export class MapsModule {}
\ No newline at end of file
+export class MapsModule {}
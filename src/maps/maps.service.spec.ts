@@ -1,7 +1,11 @@
-import { NotFoundException } from '@nestjs/common';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AuditAction, AuditEntityType, GameMode, GrenadeType, MapPoolStatus, Prisma, TeamSide } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
 import { MapsService } from './maps.service';
+import { MapSort } from '../common/dto/map-query.dto';
 
 describe('MapsService', () => {
   let service: MapsService;
@@ -10,7 +14,79 @@ describe('MapsService', () => {
     map: {
       findMany: jest.fn(),
       findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
     },
+    smoke: {
+      findMany: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    user: {
+      findMany: jest.fn(),
+    },
+    smokeRevision: {
+      updateMany: jest.fn(),
+    },
+    radarLayer: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    calloutZone: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $executeRaw: jest.fn(),
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+  };
+  const auditService = { record: jest.fn() };
+
+  const expectedSelect = {
+    id: true,
+    name: true,
+    description: true,
+    thumbnail: true,
+    radar: true,
+    radarWidth: true,
+    radarHeight: true,
+    radarPosX: true,
+    radarPosY: true,
+    radarScale: true,
+    poolStatus: true,
+    displayOrder: true,
+    gameModes: true,
+    releasedAt: true,
+    lastUpdatedAt: true,
+    archivedAt: true,
+    layers: {
+      select: { id: true, key: true, name: true, radar: true, minZ: true, maxZ: true, displayOrder: true },
+      orderBy: [{ displayOrder: 'asc' }, { id: 'asc' }],
+    },
+    _count: { select: { smokes: { where: { deletedAt: null, hiddenAt: null } } } },
+  };
+  const expectedDetailSelect = {
+    ...expectedSelect,
+    zones: {
+      select: { id: true, name: true, layerId: true, points: true },
+      orderBy: { name: 'asc' },
+    },
+  };
+  const poolFields = {
+    radarPosX: null,
+    radarPosY: null,
+    radarScale: null,
+    poolStatus: MapPoolStatus.ACTIVE_DUTY,
+    displayOrder: 0,
+    gameModes: [GameMode.PREMIER, GameMode.COMPETITIVE],
+    releasedAt: null,
+    lastUpdatedAt: null,
+    archivedAt: null,
+    layers: [],
   };
 
   beforeEach(async () => {
@@ -21,6 +97,14 @@ describe('MapsService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: AuditService,
+          useValue: auditService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: unknown) => defaultValue) },
+        },
       ],
     }).compile();
 
@@ -29,13 +113,14 @@ describe('MapsService', () => {
 
   afterEach(() => {
     jest.clearAllMocks();
+    mockPrismaService.map.findUnique.mockReset();
   });
 
   describe('findAll', () => {
     it('should return all maps', async () => {
       const expectedMaps = [
-        { id: 1, name: 'Dust2', description: 'Classic desert map', thumbnail: 'dust2.jpg', radar: 'dust2_radar.jpg', _count: { smokes: 5 } },
-        { id: 2, name: 'Mirage', description: 'Middle Eastern city map', thumbnail: 'mirage.jpg', radar: 'mirage_radar.jpg', _count: { smokes: 8 } },
+        { id: 1, name: 'Dust2', description: 'Classic desert map', thumbnail: 'dust2.jpg', radar: 'dust2_radar.jpg', radarWidth: 1024, radarHeight: 1024, ...poolFields, _count: { smokes: 5 } },
+        { id: 2, name: 'Mirage', description: 'Middle Eastern city map', thumbnail: 'mirage.jpg', radar: 'mirage_radar.jpg', radarWidth: 1024, radarHeight: 1024, ...poolFields, _count: { smokes: 8 } },
       ];
 
       mockPrismaService.map.findMany.mockResolvedValue(expectedMaps);
@@ -43,21 +128,44 @@ describe('MapsService', () => {
       const result = await service.findAll();
 
       expect(mockPrismaService.map.findMany).toHaveBeenCalledWith({
-        select: {
-          id: true,
-          name: true,
-          description: true,
-          thumbnail: true,
-          radar: true,
-          _count: { select: { smokes: true } },
-        },
+        where: { archivedAt: null },
+        select: expectedSelect,
+        orderBy: [{ poolStatus: 'asc' }, { displayOrder: 'asc' }, { name: 'asc' }],
       });
       expect(result).toEqual([
-        { id: 1, name: 'Dust2', description: 'Classic desert map', thumbnail: 'dust2.jpg', radar: 'dust2_radar.jpg', smokesCount: 5 },
-        { id: 2, name: 'Mirage', description: 'Middle Eastern city map', thumbnail: 'mirage.jpg', radar: 'mirage_radar.jpg', smokesCount: 8 },
+        { id: 1, name: 'Dust2', description: 'Classic desert map', thumbnail: 'dust2.jpg', radar: 'dust2_radar.jpg', radarWidth: 1024, radarHeight: 1024, ...poolFields, smokesCount: 5 },
+        { id: 2, name: 'Mirage', description: 'Middle Eastern city map', thumbnail: 'mirage.jpg', radar: 'mirage_radar.jpg', radarWidth: 1024, radarHeight: 1024, ...poolFields, smokesCount: 8 },
       ]);
     });
 
+    it('should filter by pool status and game mode', async () => {
+      mockPrismaService.map.findMany.mockResolvedValue([]);
+
+      await service.findAll({ status: [MapPoolStatus.ACTIVE_DUTY, MapPoolStatus.RESERVE], mode: [GameMode.WINGMAN] });
+
+      expect(mockPrismaService.map.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            archivedAt: null,
+            poolStatus: { in: [MapPoolStatus.ACTIVE_DUTY, MapPoolStatus.RESERVE] },
+            gameModes: { hasSome: [GameMode.WINGMAN] },
+          },
+        }),
+      );
+    });
+
+    it.each([
+      [MapSort.NAME, [{ name: 'asc' }]],
+      [MapSort.RELEASED, [{ releasedAt: { sort: 'desc', nulls: 'last' } }, { name: 'asc' }]],
+      [MapSort.UPDATED, [{ lastUpdatedAt: { sort: 'desc', nulls: 'last' } }, { name: 'asc' }]],
+    ])('should sort by %s', async (sort, orderBy) => {
+      mockPrismaService.map.findMany.mockResolvedValue([]);
+
+      await service.findAll({ sort });
+
+      expect(mockPrismaService.map.findMany).toHaveBeenCalledWith(expect.objectContaining({ orderBy }));
+    });
+
     it('should return empty array when no maps exist', async () => {
       mockPrismaService.map.findMany.mockResolvedValue([]);
 
@@ -69,7 +177,7 @@ describe('MapsService', () => {
 
   describe('findById', () => {
     it('should return map when found', async () => {
-      const expectedMap = { id: 1, name: 'Dust2', description: 'Classic desert map', thumbnail: 'dust2.jpg', radar: 'dust2_radar.jpg', _count: { smokes: 5 } };
+      const expectedMap = { id: 1, name: 'Dust2', description: 'Classic desert map', thumbnail: 'dust2.jpg', radar: 'dust2_radar.jpg', radarWidth: 1024, radarHeight: 1024, ...poolFields, _count: { smokes: 5 } };
 
       mockPrismaService.map.findUnique.mockResolvedValue(expectedMap);
 
@@ -77,14 +185,7 @@ describe('MapsService', () => {
 
       expect(mockPrismaService.map.findUnique).toHaveBeenCalledWith({
         where: { id: 1 },
-        select: {
-          id: true,
-          name: true,
-          description: true,
-          thumbnail: true,
-          radar: true,
-          _count: { select: { smokes: true } },
-        },
+        select: expectedDetailSelect,
       });
       expect(result).toEqual({
         id: 1,
@@ -92,10 +193,28 @@ describe('MapsService', () => {
         description: 'Classic desert map',
         thumbnail: 'dust2.jpg',
         radar: 'dust2_radar.jpg',
+        radarWidth: 1024,
+        radarHeight: 1024,
+        ...poolFields,
         smokesCount: 5,
       });
     });
 
+    it('should return the callout zones of the map', async () => {
+      const points = [{ x: 0.1, y: 0.1 }, { x: 0.2, y: 0.1 }, { x: 0.2, y: 0.2 }];
+      mockPrismaService.map.findUnique.mockResolvedValue({
+        id: 1,
+        name: 'Dust2',
+        ...poolFields,
+        zones: [{ id: 4, name: 'Xbox', layerId: null, points }],
+        _count: { smokes: 0 },
+      });
+
+      const result = await service.findById(1);
+
+      expect(result.zones).toEqual([{ id: 4, name: 'Xbox', layerId: null, points }]);
+    });
+
     it('should throw NotFoundException when map not found', async () => {
       mockPrismaService.map.findUnique.mockResolvedValue(null);
 
@@ -105,15 +224,466 @@ describe('MapsService', () => {
 
       expect(mockPrismaService.map.findUnique).toHaveBeenCalledWith({
         where: { id: 999 },
-        select: {
-          id: true,
-          name: true,
-          description: true,
-          thumbnail: true,
-          radar: true,
-          _count: { select: { smokes: true } },
+        select: expectedDetailSelect,
+      });
+    });
+  });
+
+  describe('create', () => {
+    const createMapDto = { name: 'Anubis', thumbnail: '/images/maps/anubis.webp', radar: '/images/maps/map_anubis.webp' };
+
+    it('should create the map and record it in the audit log', async () => {
+      const created = { id: 7, ...createMapDto, description: null, radarWidth: 1024, radarHeight: 1024, ...poolFields, _count: { smokes: 0 } };
+      mockPrismaService.map.findUnique.mockResolvedValue(null);
+      mockPrismaService.map.create.mockResolvedValue(created);
+
+      const result = await service.create(createMapDto, 1);
+
+      expect(mockPrismaService.map.create).toHaveBeenCalledWith({ data: createMapDto, select: expectedSelect });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: 1,
+          action: AuditAction.CREATE,
+          entityType: AuditEntityType.MAP,
+          entityId: 7,
+          after: expect.objectContaining({ name: 'Anubis' }),
+        }),
+        mockPrismaService,
+      );
+      expect(result).toMatchObject({ id: 7, name: 'Anubis', smokesCount: 0 });
+    });
+
+    it('should reject a name that is already taken', async () => {
+      mockPrismaService.map.findUnique.mockResolvedValue({ id: 1 });
+
+      await expect(service.create(createMapDto, 1)).rejects.toThrow(
+        new ConflictException('Map with name Anubis already exists'),
+      );
+      expect(mockPrismaService.map.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    const existing = { id: 1, name: 'Dust2', description: null, thumbnail: 'dust2.jpg', radar: 'dust2_radar.jpg', radarWidth: 1024, radarHeight: 1024, ...poolFields };
+
+    it('should update the map without touching search documents when the name is unchanged', async () => {
+      mockPrismaService.map.findUnique.mockResolvedValueOnce(existing);
+      mockPrismaService.map.update.mockResolvedValue({ ...existing, displayOrder: 3, _count: { smokes: 2 } });
+
+      const result = await service.update(1, { name: 'Dust2', displayOrder: 3 }, 1);
+
+      expect(mockPrismaService.map.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { name: 'Dust2', displayOrder: 3 },
+        select: expectedSelect,
+      });
+      expect(mockPrismaService.smoke.findMany).not.toHaveBeenCalled();
+      expect(result.displayOrder).toBe(3);
+    });
+
+    it('should rebuild the search documents of the map\'s smokes when it is renamed', async () => {
+      mockPrismaService.map.findUnique.mockResolvedValueOnce(existing).mockResolvedValueOnce(null);
+      mockPrismaService.map.update.mockResolvedValue({ ...existing, name: 'Dust II', _count: { smokes: 2 } });
+      mockPrismaService.smoke.findMany.mockResolvedValue([
+        { id: 10, title: 'Xbox', callout: 'Xbox', description: null },
+        { id: 11, title: 'Long corner', callout: null, description: null },
+      ]);
+
+      await service.update(1, { name: 'Dust II' }, 1);
+
+      expect(mockPrismaService.smoke.findMany).toHaveBeenCalledWith({
+        where: { mapId: 1 },
+        select: { id: true, title: true, callout: true, description: true },
+      });
+      // Both documents are rebuilt in a single statement
+      expect(mockPrismaService.$executeRaw).toHaveBeenCalledTimes(1);
+      const [strings, ...values] = mockPrismaService.$executeRaw.mock.calls[0];
+      const statement = Prisma.sql(strings, ...values);
+      expect(statement.sql).toContain('FROM (VALUES');
+      expect(statement.values).toEqual(expect.arrayContaining([10, 'xbox', 'dust ii', 11, 'long corner']));
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.UPDATE,
+          before: expect.objectContaining({ name: 'Dust2' }),
+          after: expect.objectContaining({ name: 'Dust II' }),
+        }),
+        mockPrismaService,
+      );
+    });
+
+    it('should reject renaming to the name of another map', async () => {
+      mockPrismaService.map.findUnique.mockResolvedValueOnce(existing).mockResolvedValueOnce({ id: 2 });
+
+      await expect(service.update(1, { name: 'Mirage' }, 1)).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.map.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when map not found', async () => {
+      mockPrismaService.map.findUnique.mockResolvedValue(null);
+
+      await expect(service.update(999, { displayOrder: 1 }, 1)).rejects.toThrow(
+        new NotFoundException('Map with ID 999 not found'),
+      );
+    });
+  });
+
+  describe('archive', () => {
+    it('should archive the map and keep its smokes', async () => {
+      const archivedAt = new Date();
+      mockPrismaService.map.findUnique.mockResolvedValue({ id: 1, archivedAt: null });
+      mockPrismaService.map.update.mockResolvedValue({ id: 1, name: 'Train', archivedAt, _count: { smokes: 4 } });
+
+      const result = await service.archive(1, 1);
+
+      expect(mockPrismaService.map.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { archivedAt: expect.any(Date) },
+        select: expectedSelect,
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        {
+          actorId: 1,
+          action: AuditAction.DELETE,
+          entityType: AuditEntityType.MAP,
+          entityId: 1,
+          before: { archivedAt: null },
+          after: { archivedAt },
         },
+        mockPrismaService,
+      );
+      expect(result).toMatchObject({ archivedAt, smokesCount: 4 });
+    });
+
+    it('should reject maps that are already archived', async () => {
+      mockPrismaService.map.findUnique.mockResolvedValue({ id: 1, archivedAt: new Date() });
+
+      await expect(service.archive(1, 1)).rejects.toThrow(new BadRequestException('Map with ID 1 is already archived'));
+    });
+  });
+
+  describe('replaceLayers', () => {
+    const lower = { key: 'lower', name: 'Lower', radar: '/images/maps/map_nuke_lower.webp', maxZ: -495 };
+    const upper = { key: 'upper', name: 'Upper', radar: '/images/maps/map_nuke.webp', minZ: -495, displayOrder: 1 };
+
+    it('should upsert the layers by key, drop the missing ones and record the change', async () => {
+      mockPrismaService.calloutZone.findMany.mockResolvedValue([]);
+      mockPrismaService.smoke.findMany.mockResolvedValue([]);
+      mockPrismaService.map.findUnique.mockResolvedValue({ id: 1, name: 'Nuke', ...poolFields, _count: { smokes: 0 } });
+      mockPrismaService.radarLayer.findMany.mockResolvedValue([
+        { id: 3, mapId: 1, key: 'lower', name: 'Lower', radar: '/old.webp', minZ: null, maxZ: null, displayOrder: 0 },
+        { id: 4, mapId: 1, key: 'ramp', name: 'Ramp', radar: '/ramp.webp', minZ: null, maxZ: null, displayOrder: 2 },
+      ]);
+
+      await service.replaceLayers(1, { layers: [lower, upper] }, 1);
+
+      expect(mockPrismaService.smokeRevision.updateMany).toHaveBeenCalledWith({
+        where: { landingLayerId: { in: [4] } },
+        data: { landingLayerId: null },
+      });
+      expect(mockPrismaService.smokeRevision.updateMany).toHaveBeenCalledWith({
+        where: { throwLayerId: { in: [4] } },
+        data: { throwLayerId: null },
+      });
+      expect(mockPrismaService.radarLayer.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [4] } } });
+      expect(mockPrismaService.radarLayer.upsert).toHaveBeenCalledTimes(2);
+      expect(mockPrismaService.radarLayer.upsert).toHaveBeenCalledWith({
+        where: { mapId_key: { mapId: 1, key: 'upper' } },
+        create: { ...upper, maxZ: null, mapId: 1 },
+        update: { ...upper, maxZ: null },
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.UPDATE,
+          entityType: AuditEntityType.MAP,
+          before: { layers: [expect.objectContaining({ key: 'lower' }), expect.objectContaining({ key: 'ramp' })] },
+          after: { layers: [expect.objectContaining({ key: 'lower' }), expect.objectContaining({ key: 'upper' })] },
+        }),
+        mockPrismaService,
+      );
+    });
+
+    it('should record the callout zones removed with a layer and re-tag the smokes of the map', async () => {
+      const rampZone = { id: 8, name: 'Ramp', layerId: 4, points: [{ x: 0.1, y: 0.1 }, { x: 0.3, y: 0.1 }, { x: 0.3, y: 0.3 }] };
+      mockPrismaService.map.findUnique.mockResolvedValue({ id: 1, name: 'Nuke', ...poolFields, _count: { smokes: 1 } });
+      mockPrismaService.radarLayer.findMany.mockResolvedValue([
+        { id: 3, mapId: 1, key: 'lower', name: 'Lower', radar: '/old.webp', minZ: null, maxZ: null, displayOrder: 0 },
+        { id: 4, mapId: 1, key: 'ramp', name: 'Ramp', radar: '/ramp.webp', minZ: null, maxZ: null, displayOrder: 2 },
+      ]);
+      mockPrismaService.calloutZone.findMany.mockResolvedValueOnce([rampZone]).mockResolvedValueOnce([]);
+      // The foreign key has already cleared the tag of the smoke thrown from the removed zone
+      mockPrismaService.smoke.findMany.mockResolvedValue([
+        { id: 10, x_coord: 0.5, y_coord: 0.5, throw_x_coord: 0.2, throw_y_coord: 0.2, landingLayerId: 3, throwLayerId: null, landingZoneId: null, throwZoneId: null },
+      ]);
+
+      await service.replaceLayers(1, { layers: [lower] }, 1);
+
+      expect(mockPrismaService.calloutZone.findMany).toHaveBeenCalledWith({
+        where: { layerId: { in: [4] } },
+        select: { id: true, name: true, layerId: true, points: true },
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        {
+          actorId: 1,
+          action: AuditAction.DELETE,
+          entityType: AuditEntityType.CALLOUT_ZONE,
+          entityId: 8,
+          before: { name: 'Ramp', layerId: 4, points: rampZone.points, mapId: 1 },
+        },
+        mockPrismaService,
+      );
+      expect(mockPrismaService.smoke.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { mapId: 1 } }));
+      expect(mockPrismaService.$transaction).toHaveBeenCalledWith(expect.any(Function), { timeout: 30_000 });
+    });
+
+    it('should not remove anything when every layer is kept', async () => {
+      mockPrismaService.map.findUnique.mockResolvedValue({ id: 1, name: 'Nuke', ...poolFields, _count: { smokes: 0 } });
+      mockPrismaService.radarLayer.findMany.mockResolvedValue([
+        { id: 3, mapId: 1, key: 'lower', name: 'Lower', radar: '/old.webp', minZ: null, maxZ: null, displayOrder: 0 },
+      ]);
+
+      await service.replaceLayers(1, { layers: [lower] }, 1);
+
+      expect(mockPrismaService.radarLayer.deleteMany).not.toHaveBeenCalled();
+      expect(mockPrismaService.smokeRevision.updateMany).not.toHaveBeenCalled();
+      expect(mockPrismaService.smoke.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject a layer whose z-range is empty', async () => {
+      mockPrismaService.map.findUnique.mockResolvedValue({ id: 1, name: 'Nuke' });
+
+      await expect(service.replaceLayers(1, { layers: [{ ...lower, minZ: 0, maxZ: -495 }] }, 1)).rejects.toThrow(
+        new BadRequestException('Radar layer lower must have minZ lower than maxZ'),
+      );
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when the map does not exist', async () => {
+      mockPrismaService.map.findUnique.mockResolvedValue(null);
+
+      await expect(service.replaceLayers(999, { layers: [] }, 1)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('zones', () => {
+    const points = [{ x: 0.4, y: 0.4 }, { x: 0.6, y: 0.4 }, { x: 0.6, y: 0.6 }, { x: 0.4, y: 0.6 }];
+    const zone = { id: 4, name: 'Mid', layerId: null, points, mapId: 1 };
+
+    // Rebuild the re-tagging statements so nested id lists are flattened into their values
+    const executedUpdates = () =>
+      mockPrismaService.$executeRaw.mock.calls.map(([strings, ...values]) => Prisma.sql(strings, ...values));
+
+    beforeEach(() => {
+      mockPrismaService.calloutZone.findUnique.mockReset();
+      mockPrismaService.calloutZone.findMany.mockResolvedValue([{ id: 4, layerId: null, points }]);
+      mockPrismaService.smoke.findMany.mockResolvedValue([
+        { id: 10, x_coord: 0.5, y_coord: 0.5, throw_x_coord: null, throw_y_coord: null, landingLayerId: null, throwLayerId: null, landingZoneId: null, throwZoneId: null },
+        { id: 11, x_coord: 0.9, y_coord: 0.9, throw_x_coord: null, throw_y_coord: null, landingLayerId: null, throwLayerId: null, landingZoneId: null, throwZoneId: null },
+      ]);
+    });
+
+    it('should create a zone and tag the smokes inside it', async () => {
+      mockPrismaService.map.findUnique.mockResolvedValue({ id: 1, name: 'Dust2' });
+      mockPrismaService.calloutZone.findUnique.mockResolvedValue(null);
+      mockPrismaService.calloutZone.create.mockResolvedValue(zone);
+
+      const result = await service.createZone(1, { name: 'Mid', points }, 1);
+
+      expect(mockPrismaService.calloutZone.create).toHaveBeenCalledWith({
+        data: { name: 'Mid', points, layerId: null, mapId: 1 },
+      });
+      // Only the smoke landing inside the zone changes
+      expect(executedUpdates()).toHaveLength(1);
+      expect(executedUpdates()[0].values).toEqual([4, null, 10]);
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditAction.CREATE, entityType: AuditEntityType.CALLOUT_ZONE, entityId: 4 }),
+        mockPrismaService,
+      );
+      expect(result).toEqual({ id: 4, name: 'Mid', layerId: null, points });
+    });
+
+    it('should re-tag smokes moving to the same zones in one statement', async () => {
+      mockPrismaService.map.findUnique.mockResolvedValue({ id: 1, name: 'Dust2' });
+      mockPrismaService.calloutZone.findUnique.mockResolvedValue(null);
+      mockPrismaService.calloutZone.create.mockResolvedValue(zone);
+      mockPrismaService.smoke.findMany.mockResolvedValue([
+        { id: 10, x_coord: 0.5, y_coord: 0.5, throw_x_coord: null, throw_y_coord: null, landingLayerId: null, throwLayerId: null, landingZoneId: null, throwZoneId: null },
+        { id: 11, x_coord: 0.45, y_coord: 0.55, throw_x_coord: null, throw_y_coord: null, landingLayerId: null, throwLayerId: null, landingZoneId: null, throwZoneId: null },
+        { id: 12, x_coord: 0.5, y_coord: 0.5, throw_x_coord: 0.5, throw_y_coord: 0.45, landingLayerId: null, throwLayerId: null, landingZoneId: null, throwZoneId: null },
+      ]);
+
+      await service.createZone(1, { name: 'Mid', points }, 1);
+
+      const updates = executedUpdates();
+      expect(updates).toHaveLength(2);
+      expect(updates[0].sql).toContain('WHERE id IN');
+      expect(updates.map((update) => update.values)).toEqual([
+        [4, null, 10, 11],
+        [4, 4, 12],
+      ]);
+    });
+
+    it('should reject a zone name already used on the map', async () => {
+      mockPrismaService.map.findUnique.mockResolvedValue({ id: 1, name: 'Dust2' });
+      mockPrismaService.calloutZone.findUnique.mockResolvedValue({ id: 4 });
+
+      await expect(service.createZone(1, { name: 'Mid', points }, 1)).rejects.toThrow(
+        new ConflictException('Callout zone Mid already exists on map 1'),
+      );
+      expect(mockPrismaService.calloutZone.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a layer of another map', async () => {
+      mockPrismaService.map.findUnique.mockResolvedValue({ id: 1, name: 'Nuke' });
+      mockPrismaService.calloutZone.findUnique.mockResolvedValue(null);
+      mockPrismaService.radarLayer.findUnique.mockResolvedValue({ mapId: 2 });
+
+      await expect(service.createZone(1, { name: 'Ramp', points, layerId: 3 }, 1)).rejects.toThrow(
+        new BadRequestException('Radar layer with ID 3 does not belong to map 1'),
+      );
+    });
+
+    it('should only re-tag smokes when the zone shape or layer changes', async () => {
+      mockPrismaService.calloutZone.findUnique.mockResolvedValueOnce(zone).mockResolvedValueOnce(null);
+      mockPrismaService.calloutZone.update.mockResolvedValue({ ...zone, name: 'Middle' });
+
+      const result = await service.updateZone(1, 4, { name: 'Middle' }, 1);
+
+      expect(mockPrismaService.calloutZone.update).toHaveBeenCalledWith({
+        where: { id: 4 },
+        data: { name: 'Middle', points: undefined, layerId: undefined },
+      });
+      expect(mockPrismaService.smoke.findMany).not.toHaveBeenCalled();
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.UPDATE,
+          before: expect.objectContaining({ name: 'Mid' }),
+          after: expect.objectContaining({ name: 'Middle' }),
+        }),
+        mockPrismaService,
+      );
+      expect(result.name).toBe('Middle');
+    });
+
+    it('should delete a zone and re-tag the smokes of the map', async () => {
+      mockPrismaService.calloutZone.findUnique.mockResolvedValue(zone);
+      mockPrismaService.calloutZone.findMany.mockResolvedValue([]);
+      mockPrismaService.smoke.findMany.mockResolvedValue([
+        { id: 10, x_coord: 0.5, y_coord: 0.5, throw_x_coord: null, throw_y_coord: null, landingLayerId: null, throwLayerId: null, landingZoneId: 4, throwZoneId: null },
+      ]);
+
+      await service.deleteZone(1, 4, 1);
+
+      expect(mockPrismaService.calloutZone.delete).toHaveBeenCalledWith({ where: { id: 4 } });
+      expect(executedUpdates()[0].values).toEqual([null, null, 10]);
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditAction.DELETE, entityType: AuditEntityType.CALLOUT_ZONE, entityId: 4 }),
+        mockPrismaService,
+      );
+    });
+
+    it('should throw NotFoundException for a zone of another map', async () => {
+      mockPrismaService.calloutZone.findUnique.mockResolvedValue({ ...zone, mapId: 2 });
+
+      await expect(service.deleteZone(1, 4, 1)).rejects.toThrow(
+        new NotFoundException('Callout zone with ID 4 not found on map 1'),
+      );
+      expect(mockPrismaService.calloutZone.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getStats', () => {
+    const summary = {
+      smokes_count: BigInt(8),
+      new_last_7_days: BigInt(2),
+      new_last_30_days: BigInt(5),
+      reported_smokes_count: BigInt(2),
+      reports_count: BigInt(3),
+      pending_reports_count: BigInt(1),
+    };
+
+    const mockStatsQueries = () => {
+      mockPrismaService.map.findUnique.mockResolvedValue({ id: 1, name: 'Dust2' });
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([summary])
+        .mockResolvedValueOnce([
+          { id: 3, title: 'Xbox', grenadeType: GrenadeType.SMOKE, side: TeamSide.T, score: BigInt(12) },
+        ]);
+      mockPrismaService.smoke.groupBy
+        .mockResolvedValueOnce([
+          { grenadeType: GrenadeType.SMOKE, side: TeamSide.T, _count: { _all: 5 } },
+          { grenadeType: GrenadeType.SMOKE, side: TeamSide.CT, _count: { _all: 1 } },
+          { grenadeType: GrenadeType.MOLOTOV, side: TeamSide.T, _count: { _all: 2 } },
+        ])
+        .mockResolvedValueOnce([{ authorId: 7, _count: { _all: 6 } }]);
+      mockPrismaService.user.findMany.mockResolvedValue([{ id: 7, username: 'player1', avatarUrl: 'avatar.jpg' }]);
+    };
+
+    it('should aggregate the live smokes of the map', async () => {
+      mockStatsQueries();
+
+      const result = await service.getStats(1);
+
+      expect(mockPrismaService.smoke.groupBy).toHaveBeenCalledWith({
+        by: ['grenadeType', 'side'],
+        where: { mapId: 1, deletedAt: null, hiddenAt: null },
+        _count: { _all: true },
       });
+      expect(result).toEqual({
+        mapId: 1,
+        smokesCount: 8,
+        byGrenadeType: { SMOKE: 6, MOLOTOV: 2, FLASHBANG: 0, HE: 0, DECOY: 0 },
+        bySide: { T: 7, CT: 1, BOTH: 0 },
+        newLast7Days: 2,
+        newLast30Days: 5,
+        topRated: [{ id: 3, title: 'Xbox', grenadeType: GrenadeType.SMOKE, side: TeamSide.T, score: 12 }],
+        topContributors: [{ id: 7, displayName: 'player1', avatarUrl: 'avatar.jpg', smokesCount: 6 }],
+        reports: { reportsCount: 3, pendingReportsCount: 1, reportedSmokesCount: 2, reportRate: 0.25 },
+        generatedAt: expect.any(Date),
+      });
+    });
+
+    it('should leave deleted and hidden smokes out of the raw aggregates', async () => {
+      mockStatsQueries();
+
+      await service.getStats(1);
+
+      for (const [strings] of mockPrismaService.$queryRaw.mock.calls) {
+        expect(strings.join('?')).toContain('s."deletedAt" IS NULL AND s."hiddenAt" IS NULL');
+      }
+    });
+
+    it('should serve cached stats until they expire', async () => {
+      mockStatsQueries();
+
+      const first = await service.getStats(1);
+      const second = await service.getStats(1);
+
+      expect(second).toBe(first);
+      expect(mockPrismaService.$queryRaw).toHaveBeenCalledTimes(2);
+      expect(mockPrismaService.smoke.groupBy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report a zero report rate for maps without smokes', async () => {
+      mockPrismaService.map.findUnique.mockResolvedValue({ id: 1, name: 'Dust2' });
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([
+          { ...summary, smokes_count: BigInt(0), reported_smokes_count: BigInt(0), reports_count: BigInt(0) },
+        ])
+        .mockResolvedValueOnce([]);
+      mockPrismaService.smoke.groupBy.mockResolvedValue([]);
+
+      const result = await service.getStats(1);
+
+      expect(result.reports.reportRate).toBe(0);
+      expect(result.topContributors).toEqual([]);
+      expect(mockPrismaService.user.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for invalid map', async () => {
+      mockPrismaService.map.findUnique.mockResolvedValue(null);
+
+      await expect(service.getStats(999)).rejects.toThrow(new NotFoundException('Map with ID 999 not found'));
+      expect(mockPrismaService.$queryRaw).not.toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+});
@@ -1,57 +1,702 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AuditAction,
+  AuditEntityType,
+  CalloutZone,
+  GrenadeType,
+  Map,
+  Prisma,
+  ReportStatus,
+  TeamSide,
+} from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
 import { MapResponseDto } from '../common/dto/map-response.dto';
+import { CreateMapDto } from '../common/dto/create-map.dto';
+import { UpdateMapDto } from '../common/dto/update-map.dto';
+import { MapQueryDto, MapSort } from '../common/dto/map-query.dto';
+import { RadarLayerDto, UpdateRadarLayersDto } from '../common/dto/radar-layer.dto';
+import { CreateCalloutZoneDto, UpdateCalloutZoneDto } from '../common/dto/callout-zone.dto';
+import { CalloutZoneResponseDto } from '../common/dto/callout-zone-response.dto';
+import { MapStatsResponseDto, TopRatedSmokeDto } from '../common/dto/map-stats-response.dto';
+import { searchVectorSql } from '../smokes/search-document';
+import { RadarPoint } from './radar-coordinates';
+import { retagMapSmokes } from './callout-zones';
+import { DEFAULT_MAP_STATS_CACHE_SECONDS, MAP_STATS_TOP_SIZE, MapStatsCache, daysBefore } from './map-stats';
+
+const MAP_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  thumbnail: true,
+  radar: true,
+  radarWidth: true,
+  radarHeight: true,
+  radarPosX: true,
+  radarPosY: true,
+  radarScale: true,
+  poolStatus: true,
+  displayOrder: true,
+  gameModes: true,
+  releasedAt: true,
+  lastUpdatedAt: true,
+  archivedAt: true,
+  layers: {
+    select: { id: true, key: true, name: true, radar: true, minZ: true, maxZ: true, displayOrder: true },
+    orderBy: [{ displayOrder: 'asc' }, { id: 'asc' }],
+  },
+  // Same smokes as the map stats, deleted and hidden ones are left out
+  _count: { select: { smokes: { where: { deletedAt: null, hiddenAt: null } } } },
+} satisfies Prisma.MapSelect;
+
+// Callout zones are only returned for a single map, they are too heavy for the map list
+const MAP_DETAIL_SELECT = {
+  ...MAP_SELECT,
+  zones: {
+    select: { id: true, name: true, layerId: true, points: true },
+    orderBy: { name: 'asc' },
+  },
+} satisfies Prisma.MapSelect;
+
+type MapWithCount = Prisma.MapGetPayload<{ select: typeof MAP_SELECT }>;
+
+type MapDetail = Prisma.MapGetPayload<{ select: typeof MAP_DETAIL_SELECT }>;
+
+type ZoneSummary = Pick<CalloutZone, 'id' | 'name' | 'layerId' | 'points'>;
+
+// Raw rows use bigint for counts and sums
+interface MapStatsSummaryRow {
+  smokes_count: bigint;
+  new_last_7_days: bigint;
+  new_last_30_days: bigint;
+  reported_smokes_count: bigint;
+  reports_count: bigint;
+  pending_reports_count: bigint;
+}
+
+type TopRatedSmokeRow = Omit<TopRatedSmokeDto, 'score'> & { score: bigint };
+
+// Name breaks ties, maps without a release or update date go last
+const MAP_ORDER: Record<MapSort, Prisma.MapOrderByWithRelationInput[]> = {
+  [MapSort.POOL]: [{ poolStatus: 'asc' }, { displayOrder: 'asc' }, { name: 'asc' }],
+  [MapSort.NAME]: [{ name: 'asc' }],
+  [MapSort.RELEASED]: [{ releasedAt: { sort: 'desc', nulls: 'last' } }, { name: 'asc' }],
+  [MapSort.UPDATED]: [{ lastUpdatedAt: { sort: 'desc', nulls: 'last' } }, { name: 'asc' }],
+};
+
+// Zone and layer edits re-tag every smoke of the map in their transaction, which can outlast Prisma's default 5 s on busy maps
+const ZONE_TRANSACTION_OPTIONS = { timeout: 30_000 };
+
+// Smokes whose search documents are rebuilt per statement when a map is renamed, 5 bind parameters each
+const SEARCH_REINDEX_BATCH_SIZE = 1000;
 
 @Injectable()
 export class MapsService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly statsCache: MapStatsCache;
 
-  async findAll(): Promise<MapResponseDto[]> {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    configService: ConfigService,
+  ) {
+    this.statsCache = new MapStatsCache(
+      configService.get<number>('MAP_STATS_CACHE_SECONDS', DEFAULT_MAP_STATS_CACHE_SECONDS),
+    );
+  }
+
+  /**
+   * List the maps that are not archived, optionally filtered by pool status and game mode
+   * Sorted by pool status (active duty first) and display order unless another ?sort= is requested
+   */
+  async findAll(query: MapQueryDto = {}): Promise<MapResponseDto[]> {
     const maps = await this.prisma.map.findMany({
-      select: {
-        id: true,
-        name: true,
-        description: true,
-        thumbnail: true,
-        radar: true,
-        _count: { select: { smokes: true } },
+      where: {
+        archivedAt: null,
+        ...(query.status?.length && { poolStatus: { in: query.status } }),
+        ...(query.mode?.length && { gameModes: { hasSome: query.mode } }),
       },
+      select: MAP_SELECT,
+      orderBy: MAP_ORDER[query.sort ?? MapSort.POOL],
     });
 
-    return maps.map((m) => ({
-      id: m.id,
-      name: m.name,
-      description: m.description,
-      thumbnail: m.thumbnail,
-      radar: m.radar,
-      smokesCount: m._count?.smokes ?? 0,
-    }));
+    return maps.map((m) => this.toResponseDto(m));
   }
 
+  /**
+   * Find a map by id with its callout zones, archived maps included so links to their smokes keep working
+   */
   async findById(id: number): Promise<MapResponseDto> {
     const map = await this.prisma.map.findUnique({
       where: { id },
-      select: {
-        id: true,
-        name: true,
-        description: true,
-        thumbnail: true,
-        radar: true,
-        _count: { select: { smokes: true } },
-      },
+      select: MAP_DETAIL_SELECT,
     });
 
     if (!map) {
       throw new NotFoundException(`Map with ID ${id} not found`);
     }
 
+    return this.toResponseDto(map);
+  }
+
+  /**
+   * Add a map, e.g. after a game update, without reseeding the database
+   */
+  async create(createMapDto: CreateMapDto, adminId: number): Promise<MapResponseDto> {
+    await this.assertNameAvailable(createMapDto.name);
+
+    const map = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.map.create({
+        data: createMapDto,
+        select: MAP_SELECT,
+      });
+      await this.auditService.record(
+        {
+          actorId: adminId,
+          action: AuditAction.CREATE,
+          entityType: AuditEntityType.MAP,
+          entityId: created.id,
+          after: this.toSnapshot(created),
+        },
+        tx,
+      );
+
+      return created;
+    });
+
+    return this.toResponseDto(map);
+  }
+
+  /**
+   * Edit a map
+   * Renaming a map rebuilds the search documents of its smokes, which include the map name
+   */
+  async update(id: number, updateMapDto: UpdateMapDto, adminId: number): Promise<MapResponseDto> {
+    const existing = await this.findExisting(id);
+    const renamed = updateMapDto.name !== undefined && updateMapDto.name !== existing.name;
+
+    if (renamed) {
+      await this.assertNameAvailable(updateMapDto.name);
+    }
+
+    const map = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.map.update({
+        where: { id },
+        data: updateMapDto,
+        select: MAP_SELECT,
+      });
+
+      if (renamed) {
+        await this.refreshSearchVectors(tx, id, updated.name);
+      }
+
+      await this.auditService.record(
+        {
+          actorId: adminId,
+          action: AuditAction.UPDATE,
+          entityType: AuditEntityType.MAP,
+          entityId: id,
+          before: this.toSnapshot(existing),
+          after: this.toSnapshot(updated),
+        },
+        tx,
+      );
+
+      return updated;
+    });
+
+    return this.toResponseDto(map);
+  }
+
+  /**
+   * Hide a map from the map list and stop accepting new smokes for it, existing smokes are kept
+   */
+  async archive(id: number, adminId: number): Promise<MapResponseDto> {
+    const existing = await this.findExisting(id);
+
+    if (existing.archivedAt) {
+      throw new BadRequestException(`Map with ID ${id} is already archived`);
+    }
+
+    const map = await this.prisma.$transaction(async (tx) => {
+      const archived = await tx.map.update({
+        where: { id },
+        data: { archivedAt: new Date() },
+        select: MAP_SELECT,
+      });
+      await this.auditService.record(
+        {
+          actorId: adminId,
+          action: AuditAction.DELETE,
+          entityType: AuditEntityType.MAP,
+          entityId: id,
+          before: { archivedAt: null },
+          after: { archivedAt: archived.archivedAt },
+        },
+        tx,
+      );
+
+      return archived;
+    });
+
+    return this.toResponseDto(map);
+  }
+
+  /**
+   * Replace the radar layers of a multi-level map, layers are matched by key so existing smokes keep theirs
+   * Smokes on a removed layer are left without one, callout zones drawn on it are removed with it
+   * and the smokes of the map are re-tagged
+   */
+  async replaceLayers(id: number, dto: UpdateRadarLayersDto, adminId: number): Promise<MapResponseDto> {
+    await this.findExisting(id);
+
+    const invalid = dto.layers.find((layer) => layer.minZ != null && layer.maxZ != null && layer.minZ >= layer.maxZ);
+
+    if (invalid) {
+      throw new BadRequestException(`Radar layer ${invalid.key} must have minZ lower than maxZ`);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.radarLayer.findMany({
+        where: { mapId: id },
+        orderBy: [{ displayOrder: 'asc' }, { id: 'asc' }],
+      });
+      const keys = dto.layers.map((layer) => layer.key);
+      const removedIds = existing.filter((layer) => !keys.includes(layer.key)).map((layer) => layer.id);
+
+      if (removedIds.length) {
+        // Revisions only keep the layer ids, smokes are unlinked by the foreign key
+        await tx.smokeRevision.updateMany({
+          where: { landingLayerId: { in: removedIds } },
+          data: { landingLayerId: null },
+        });
+        await tx.smokeRevision.updateMany({
+          where: { throwLayerId: { in: removedIds } },
+          data: { throwLayerId: null },
+        });
+
+        // Zones of a removed layer go with it through the foreign key
+        const removedZones = await tx.calloutZone.findMany({
+          where: { layerId: { in: removedIds } },
+          select: { id: true, name: true, layerId: true, points: true },
+        });
+        await tx.radarLayer.deleteMany({ where: { id: { in: removedIds } } });
+
+        for (const zone of removedZones) {
+          await this.auditService.record(
+            {
+              actorId: adminId,
+              action: AuditAction.DELETE,
+              entityType: AuditEntityType.CALLOUT_ZONE,
+              entityId: zone.id,
+              before: { ...this.toZoneSnapshot(zone), mapId: id },
+            },
+            tx,
+          );
+        }
+      }
+
+      for (const layer of dto.layers) {
+        const data = this.toLayerData(layer);
+        await tx.radarLayer.upsert({
+          where: { mapId_key: { mapId: id, key: layer.key } },
+          create: { ...data, mapId: id },
+          update: data,
+        });
+      }
+
+      await this.auditService.record(
+        {
+          actorId: adminId,
+          action: AuditAction.UPDATE,
+          entityType: AuditEntityType.MAP,
+          entityId: id,
+          before: { layers: existing.map((layer) => this.toLayerData(layer)) },
+          after: { layers: dto.layers.map((layer) => this.toLayerData(layer)) },
+        },
+        tx,
+      );
+
+      if (removedIds.length) {
+        await retagMapSmokes(tx, id);
+      }
+    }, ZONE_TRANSACTION_OPTIONS);
+
+    return this.findById(id);
+  }
+
+  /**
+   * Add a callout zone to a map and tag the smokes landing in or thrown from it
+   */
+  async createZone(mapId: number, dto: CreateCalloutZoneDto, adminId: number): Promise<CalloutZoneResponseDto> {
+    await this.findExisting(mapId);
+    await this.assertZoneNameAvailable(mapId, dto.name);
+    await this.assertLayerOfMap(mapId, dto.layerId);
+
+    const zone = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.calloutZone.create({
+        data: {
+          name: dto.name,
+          points: this.toPoints(dto.points),
+          layerId: dto.layerId ?? null,
+          mapId,
+        },
+      });
+      await retagMapSmokes(tx, mapId);
+      await this.auditService.record(
+        {
+          actorId: adminId,
+          action: AuditAction.CREATE,
+          entityType: AuditEntityType.CALLOUT_ZONE,
+          entityId: created.id,
+          after: { ...this.toZoneSnapshot(created), mapId },
+        },
+        tx,
+      );
+
+      return created;
+    }, ZONE_TRANSACTION_OPTIONS);
+
+    return this.toZoneResponseDto(zone);
+  }
+
+  /**
+   * Rename or redraw a callout zone, the map's smokes are re-tagged when its shape or layer changes
+   */
+  async updateZone(
+    mapId: number,
+    zoneId: number,
+    dto: UpdateCalloutZoneDto,
+    adminId: number,
+  ): Promise<CalloutZoneResponseDto> {
+    const existing = await this.findExistingZone(mapId, zoneId);
+
+    if (dto.name !== undefined && dto.name !== existing.name) {
+      await this.assertZoneNameAvailable(mapId, dto.name);
+    }
+
+    await this.assertLayerOfMap(mapId, dto.layerId);
+
+    const zone = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.calloutZone.update({
+        where: { id: zoneId },
+        data: {
+          name: dto.name,
+          points: dto.points && this.toPoints(dto.points),
+          layerId: dto.layerId,
+        },
+      });
+
+      if (dto.points !== undefined || dto.layerId !== undefined) {
+        await retagMapSmokes(tx, mapId);
+      }
+
+      await this.auditService.record(
+        {
+          actorId: adminId,
+          action: AuditAction.UPDATE,
+          entityType: AuditEntityType.CALLOUT_ZONE,
+          entityId: zoneId,
+          before: this.toZoneSnapshot(existing),
+          after: this.toZoneSnapshot(updated),
+        },
+        tx,
+      );
+
+      return updated;
+    }, ZONE_TRANSACTION_OPTIONS);
+
+    return this.toZoneResponseDto(zone);
+  }
+
+  /**
+   * Remove a callout zone, its smokes fall back to the next zone containing them if any
+   */
+  async deleteZone(mapId: number, zoneId: number, adminId: number): Promise<void> {
+    const existing = await this.findExistingZone(mapId, zoneId);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.calloutZone.delete({ where: { id: zoneId } });
+      await retagMapSmokes(tx, mapId);
+      await this.auditService.record(
+        {
+          actorId: adminId,
+          action: AuditAction.DELETE,
+          entityType: AuditEntityType.CALLOUT_ZONE,
+          entityId: zoneId,
+          before: { ...this.toZoneSnapshot(existing), mapId },
+        },
+        tx,
+      );
+    }, ZONE_TRANSACTION_OPTIONS);
+  }
+
+  /**
+   * Stats of the live smokes of a map: counts by grenade type and side, new smokes of the last 7 and 30 days,
+   * top rated smokes, top contributors and how often smokes get reported
+   * Cached per map for MAP_STATS_CACHE_SECONDS, so new smokes and votes show up with a delay
+   */
+  async getStats(id: number): Promise<MapStatsResponseDto> {
+    await this.findExisting(id);
+
+    return this.statsCache.get(id, () => this.computeStats(id));
+  }
+
+  private async findExisting(id: number): Promise<Map> {
+    const map = await this.prisma.map.findUnique({
+      where: { id },
+    });
+
+    if (!map) {
+      throw new NotFoundException(`Map with ID ${id} not found`);
+    }
+
+    return map;
+  }
+
+  /**
+   * Compute the stats of a map with a fixed number of aggregate queries
+   */
+  private async computeStats(mapId: number): Promise<MapStatsResponseDto> {
+    const now = new Date();
+    const live: Prisma.SmokeWhereInput = { mapId, deletedAt: null, hiddenAt: null };
+
+    const [[summary], groups, topRated, contributors] = await Promise.all([
+      this.prisma.$queryRaw<MapStatsSummaryRow[]>`
+        SELECT
+          COUNT(*) as smokes_count,
+          COUNT(*) FILTER (WHERE s."createdAt" >= ${daysBefore(now, 7)}) as new_last_7_days,
+          COUNT(*) FILTER (WHERE s."createdAt" >= ${daysBefore(now, 30)}) as new_last_30_days,
+          COUNT(*) FILTER (WHERE smoke_reports.total > 0) as reported_smokes_count,
+          COALESCE(SUM(smoke_reports.total), 0)::bigint as reports_count,
+          COALESCE(SUM(smoke_reports.pending), 0)::bigint as pending_reports_count
+        FROM smokes s
+        CROSS JOIN LATERAL (
+          SELECT
+            COUNT(*) as total,
+            COUNT(*) FILTER (WHERE r.status::text = ${ReportStatus.PENDING}) as pending
+          FROM reports r
+          WHERE r."smokeId" = s.id
+        ) smoke_reports
+        WHERE s."mapId" = ${mapId} AND s."deletedAt" IS NULL AND s."hiddenAt" IS NULL
+      `,
+      this.prisma.smoke.groupBy({
+        by: ['grenadeType', 'side'],
+        where: live,
+        _count: { _all: true },
+      }),
+      // Only smokes with a positive score make the top, ties go to the oldest
+      this.prisma.$queryRaw<TopRatedSmokeRow[]>`
+        SELECT s.id, s.title, s."grenadeType", s.side, SUM(r.value) as score
+        FROM smokes s
+        JOIN ratings r ON r."smokeId" = s.id
+        WHERE s."mapId" = ${mapId} AND s."deletedAt" IS NULL AND s."hiddenAt" IS NULL
+        GROUP BY s.id
+        HAVING SUM(r.value) > 0
+        ORDER BY score DESC, s.id
+        LIMIT ${MAP_STATS_TOP_SIZE}
+      `,
+      this.prisma.smoke.groupBy({
+        by: ['authorId'],
+        where: live,
+        _count: { _all: true },
+        orderBy: [{ _count: { authorId: 'desc' } }, { authorId: 'asc' }],
+        take: MAP_STATS_TOP_SIZE,
+      }),
+    ]);
+
+    const authors = contributors.length
+      ? await this.prisma.user.findMany({
+        where: { id: { in: contributors.map((contributor) => contributor.authorId) } },
+        select: { id: true, username: true, avatarUrl: true },
+      })
+      : [];
+
+    const byGrenadeType = this.zeroCounts(Object.values(GrenadeType));
+    const bySide = this.zeroCounts(Object.values(TeamSide));
+
+    for (const group of groups) {
+      byGrenadeType[group.grenadeType] += group._count._all;
+      bySide[group.side] += group._count._all;
+    }
+
+    const smokesCount = Number(summary.smokes_count);
+    const reportedSmokesCount = Number(summary.reported_smokes_count);
+
+    return {
+      mapId,
+      smokesCount,
+      byGrenadeType,
+      bySide,
+      newLast7Days: Number(summary.new_last_7_days),
+      newLast30Days: Number(summary.new_last_30_days),
+      topRated: topRated.map((smoke) => ({ ...smoke, score: Number(smoke.score) })),
+      topContributors: contributors.map((contributor) => {
+        const author = authors.find((user) => user.id === contributor.authorId);
+
+        return {
+          id: contributor.authorId,
+          displayName: author?.username,
+          avatarUrl: author?.avatarUrl,
+          smokesCount: contributor._count._all,
+        };
+      }),
+      reports: {
+        reportsCount: Number(summary.reports_count),
+        pendingReportsCount: Number(summary.pending_reports_count),
+        reportedSmokesCount,
+        reportRate: smokesCount ? reportedSmokesCount / smokesCount : 0,
+      },
+      generatedAt: now,
+    };
+  }
+
+  private zeroCounts<T extends string>(keys: T[]): Record<T, number> {
+    return Object.fromEntries(keys.map((key) => [key, 0])) as Record<T, number>;
+  }
+
+  private async findExistingZone(mapId: number, zoneId: number): Promise<CalloutZone> {
+    const zone = await this.prisma.calloutZone.findUnique({
+      where: { id: zoneId },
+    });
+
+    if (!zone || zone.mapId !== mapId) {
+      throw new NotFoundException(`Callout zone with ID ${zoneId} not found on map ${mapId}`);
+    }
+
+    return zone;
+  }
+
+  private async assertZoneNameAvailable(mapId: number, name: string): Promise<void> {
+    const existing = await this.prisma.calloutZone.findUnique({
+      where: { mapId_name: { mapId, name } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ConflictException(`Callout zone ${name} already exists on map ${mapId}`);
+    }
+  }
+
+  private async assertLayerOfMap(mapId: number, layerId: number | undefined): Promise<void> {
+    if (layerId === undefined) {
+      return;
+    }
+
+    const layer = await this.prisma.radarLayer.findUnique({
+      where: { id: layerId },
+      select: { mapId: true },
+    });
+
+    if (!layer || layer.mapId !== mapId) {
+      throw new BadRequestException(`Radar layer with ID ${layerId} does not belong to map ${mapId}`);
+    }
+  }
+
+  private async assertNameAvailable(name: string): Promise<void> {
+    const existing = await this.prisma.map.findUnique({
+      where: { name },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ConflictException(`Map with name ${name} already exists`);
+    }
+  }
+
+  /**
+   * Rebuild the search documents of every smoke on a map after its name changed
+   * Smokes are updated in batches so renaming a busy map stays within the transaction timeout
+   */
+  private async refreshSearchVectors(tx: Prisma.TransactionClient, mapId: number, mapName: string): Promise<void> {
+    const smokes = await tx.smoke.findMany({
+      where: { mapId },
+      select: { id: true, title: true, callout: true, description: true },
+    });
+
+    for (let start = 0; start < smokes.length; start += SEARCH_REINDEX_BATCH_SIZE) {
+      const rows = smokes
+        .slice(start, start + SEARCH_REINDEX_BATCH_SIZE)
+        .map((smoke) => Prisma.sql`(${smoke.id}::int, ${searchVectorSql({ ...smoke, mapName })})`);
+
+      await tx.$executeRaw`
+        UPDATE smokes SET "searchVector" = documents.vector
+        FROM (VALUES ${Prisma.join(rows)}) AS documents(id, vector)
+        WHERE smokes.id = documents.id
+      `;
+    }
+  }
+
+  private toLayerData(layer: RadarLayerDto): Omit<Prisma.RadarLayerUncheckedCreateInput, 'mapId'> {
+    return {
+      key: layer.key,
+      name: layer.name,
+      radar: layer.radar,
+      minZ: layer.minZ ?? null,
+      maxZ: layer.maxZ ?? null,
+      displayOrder: layer.displayOrder ?? 0,
+    };
+  }
+
+  // Store plain { x, y } objects rather than the validated DTO instances
+  private toPoints(points: RadarPoint[]): Prisma.InputJsonValue {
+    return points.map((point) => ({ x: point.x, y: point.y }));
+  }
+
+  private toZoneSnapshot(zone: ZoneSummary): Omit<ZoneSummary, 'id'> {
+    return { name: zone.name, layerId: zone.layerId, points: zone.points };
+  }
+
+  private toZoneResponseDto(zone: ZoneSummary): CalloutZoneResponseDto {
+    return {
+      id: zone.id,
+      name: zone.name,
+      layerId: zone.layerId,
+      points: zone.points as unknown as RadarPoint[],
+    };
+  }
+
+  private toSnapshot(map: Omit<Map, 'id'>): Omit<Map, 'id'> {
+    return {
+      name: map.name,
+      description: map.description,
+      thumbnail: map.thumbnail,
+      radar: map.radar,
+      radarWidth: map.radarWidth,
+      radarHeight: map.radarHeight,
+      radarPosX: map.radarPosX,
+      radarPosY: map.radarPosY,
+      radarScale: map.radarScale,
+      poolStatus: map.poolStatus,
+      displayOrder: map.displayOrder,
+      gameModes: map.gameModes,
+      releasedAt: map.releasedAt,
+      lastUpdatedAt: map.lastUpdatedAt,
+      archivedAt: map.archivedAt,
+    };
+  }
+
+  private toResponseDto(map: MapWithCount & Partial<Pick<MapDetail, 'zones'>>): MapResponseDto {
     return {
       id: map.id,
       name: map.name,
       description: map.description,
       thumbnail: map.thumbnail,
       radar: map.radar,
+      radarWidth: map.radarWidth,
+      radarHeight: map.radarHeight,
+      radarPosX: map.radarPosX,
+      radarPosY: map.radarPosY,
+      radarScale: map.radarScale,
+      poolStatus: map.poolStatus,
+      displayOrder: map.displayOrder,
+      gameModes: map.gameModes,
+      releasedAt: map.releasedAt,
+      lastUpdatedAt: map.lastUpdatedAt,
+      archivedAt: map.archivedAt,
+      layers: map.layers ?? [],
+      ...(map.zones && { zones: map.zones.map((zone) => this.toZoneResponseDto(zone)) }),
       smokesCount: map._count?.smokes ?? 0,
     };
   }
-}
\ No newline at end of file
+}
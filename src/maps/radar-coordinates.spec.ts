@@ -0,0 +1,43 @@
+import { isCalibrated, isWithinRadar, radarToWorld, worldToRadar } from './radar-coordinates';
+
+describe('radar coordinates', () => {
+  // de_dust2 overview calibration
+  const dust2 = { radarPosX: -2476, radarPosY: 3239, radarScale: 4.4, radarWidth: 1024, radarHeight: 1024 };
+
+  it('should map the overview origin to the top-left corner of the radar', () => {
+    expect(worldToRadar(dust2, { x: -2476, y: 3239 })).toEqual({ x: 0, y: 0 });
+  });
+
+  it('should flip the Y axis, which grows upwards in the world and downwards on the radar', () => {
+    const point = worldToRadar(dust2, { x: -2476 + 1024 * 4.4, y: 3239 - 1024 * 4.4 });
+
+    expect(point.x).toBeCloseTo(1);
+    expect(point.y).toBeCloseTo(1);
+  });
+
+  it('should convert radar coordinates back to the same world position', () => {
+    const world = { x: 123.5, y: -456.25 };
+    const roundTrip = radarToWorld(dust2, worldToRadar(dust2, world));
+
+    expect(roundTrip.x).toBeCloseTo(world.x);
+    expect(roundTrip.y).toBeCloseTo(world.y);
+  });
+
+  it('should not depend on the radar image the calibration was measured on', () => {
+    const doubleResolution = { ...dust2, radarScale: 2.2, radarWidth: 2048, radarHeight: 2048 };
+
+    expect(worldToRadar(doubleResolution, { x: 500, y: 500 })).toEqual(worldToRadar(dust2, { x: 500, y: 500 }));
+  });
+
+  it('should only treat fully calibrated maps as calibrated', () => {
+    expect(isCalibrated(dust2)).toBe(true);
+    expect(isCalibrated({ ...dust2, radarScale: null })).toBe(false);
+    expect(isCalibrated({ ...dust2, radarPosX: null })).toBe(false);
+  });
+
+  it('should check that a point lies on the radar', () => {
+    expect(isWithinRadar({ x: 0, y: 1 })).toBe(true);
+    expect(isWithinRadar({ x: 1.01, y: 0.5 })).toBe(false);
+    expect(isWithinRadar({ x: 0.5, y: -0.01 })).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * CS2 overview calibration of a map, as found in its overview file (pos_x, pos_y, scale)
+ * pos_x/pos_y are the world coordinates of the radar's top-left corner and scale is the number
+ * of world units per pixel of a radar image of radarWidth x radarHeight pixels
+ */
+export interface RadarCalibration {
+  radarPosX: number | null;
+  radarPosY: number | null;
+  radarScale: number | null;
+  radarWidth: number;
+  radarHeight: number;
+}
+
+/**
+ * A point on the radar, 0-1 from the left and top edges regardless of the radar image resolution
+ */
+export interface RadarPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * A point in game-world units, as shown by `getpos` in the CS2 console
+ */
+export interface WorldPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Whether a map has the calibration needed by the conversions below
+ */
+export function isCalibrated(map: RadarCalibration): boolean {
+  return map.radarPosX !== null && map.radarPosY !== null && map.radarScale !== null && map.radarScale > 0;
+}
+
+/**
+ * Convert world X to a normalised radar X, world X grows to the right like the radar's
+ */
+export function worldXToRadar(map: RadarCalibration, x: number): number {
+  return (x - map.radarPosX) / (map.radarScale * map.radarWidth);
+}
+
+/**
+ * Convert world Y to a normalised radar Y, world Y grows upwards while the radar's grows downwards
+ */
+export function worldYToRadar(map: RadarCalibration, y: number): number {
+  return (map.radarPosY - y) / (map.radarScale * map.radarHeight);
+}
+
+export function worldToRadar(map: RadarCalibration, point: WorldPoint): RadarPoint {
+  return { x: worldXToRadar(map, point.x), y: worldYToRadar(map, point.y) };
+}
+
+export function radarToWorld(map: RadarCalibration, point: RadarPoint): WorldPoint {
+  return {
+    x: map.radarPosX + point.x * map.radarScale * map.radarWidth,
+    y: map.radarPosY - point.y * map.radarScale * map.radarHeight,
+  };
+}
+
+export function isWithinRadar(point: RadarPoint): boolean {
+  return point.x >= 0 && point.x <= 1 && point.y >= 0 && point.y <= 1;
+}
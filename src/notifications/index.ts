@@ -0,0 +1,3 @@
+export * from './notifications.service';
+export * from './notifications.controller';
+export * from './notifications.module';
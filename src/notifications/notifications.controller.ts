@@ -0,0 +1,49 @@
+import { Controller, Get, HttpCode, HttpStatus, Param, ParseIntPipe, Patch, Request, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { NotificationResponseDto } from '../common/dto/notification-response.dto';
+import { NotificationsService } from './notifications.service';
+
+@ApiTags('notifications')
+@Controller()
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  /**
+   * GET /notifications
+   * Get the authenticated user's most recent notifications
+   * Protected endpoint - requires JWT authentication
+   */
+  @Get('notifications')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List notifications of the current user, newest first' })
+  @ApiResponse({ status: 200, description: 'Notifications', type: [NotificationResponseDto] })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getNotifications(@Request() req: { user: JwtPayload }): Promise<NotificationResponseDto[]> {
+    return this.notificationsService.findForUser(req.user.sub);
+  }
+
+  /**
+   * PATCH /notifications/:id/read
+   * Mark a notification as read
+   * Protected endpoint - requires JWT authentication
+   */
+  @Patch('notifications/:id/read')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  @ApiResponse({ status: 200, description: 'Notification marked as read' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  async markNotificationAsRead(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: { user: JwtPayload },
+  ): Promise<{ message: string }> {
+    await this.notificationsService.markAsRead(id, req.user.sub);
+
+    return { message: 'Notification marked as read' };
+  }
+}
@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { NotificationType } from '@prisma/client';
+import { NotificationsService } from './notifications.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+  let prismaService: any;
+
+  const mockNotification = {
+    id: 1,
+    type: NotificationType.SMOKE_AUTO_HIDDEN,
+    message: 'Your smoke "Window smoke" was hidden',
+    smokeId: 3,
+    readAt: null,
+    createdAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      notification: {
+        create: jest.fn(),
+        findMany: jest.fn(),
+        findUnique: jest.fn(),
+        update: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<NotificationsService>(NotificationsService);
+    prismaService = module.get(PrismaService);
+  });
+
+  describe('notify', () => {
+    const notification = {
+      userId: 2,
+      type: NotificationType.SMOKE_AUTO_HIDDEN,
+      message: 'Your smoke "Window smoke" was hidden',
+      smokeId: 3,
+    };
+
+    it('should store the notification', async () => {
+      // Act
+      await service.notify(notification);
+
+      // Assert
+      expect(prismaService.notification.create).toHaveBeenCalledWith({ data: notification });
+    });
+
+    it('should use the given transaction client', async () => {
+      // Arrange
+      const tx = { notification: { create: jest.fn() } };
+
+      // Act
+      await service.notify(notification, tx as any);
+
+      // Assert
+      expect(tx.notification.create).toHaveBeenCalledWith({ data: notification });
+      expect(prismaService.notification.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findForUser', () => {
+    it('should return the latest notifications of the user, newest first', async () => {
+      // Arrange
+      prismaService.notification.findMany.mockResolvedValue([mockNotification]);
+
+      // Act
+      const result = await service.findForUser(2);
+
+      // Assert
+      expect(prismaService.notification.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 2 },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          take: 50,
+        }),
+      );
+      expect(result).toEqual([mockNotification]);
+    });
+  });
+
+  describe('markAsRead', () => {
+    it('should mark an unread notification as read', async () => {
+      // Arrange
+      prismaService.notification.findUnique.mockResolvedValue({ userId: 2, readAt: null });
+
+      // Act
+      await service.markAsRead(1, 2);
+
+      // Assert
+      expect(prismaService.notification.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { readAt: expect.any(Date) },
+      });
+    });
+
+    it('should keep the first read time', async () => {
+      // Arrange
+      prismaService.notification.findUnique.mockResolvedValue({ userId: 2, readAt: new Date() });
+
+      // Act
+      await service.markAsRead(1, 2);
+
+      // Assert
+      expect(prismaService.notification.update).not.toHaveBeenCalled();
+    });
+
+    it("should not reveal other users' notifications", async () => {
+      // Arrange
+      prismaService.notification.findUnique.mockResolvedValue({ userId: 3, readAt: null });
+
+      // Act & Assert
+      await expect(service.markAsRead(1, 2)).rejects.toThrow(new NotFoundException('Notification with ID 1 not found'));
+      expect(prismaService.notification.update).not.toHaveBeenCalled();
+    });
+  });
+});
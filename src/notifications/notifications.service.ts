@@ -0,0 +1,69 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { NotificationType, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationResponseDto } from '../common/dto/notification-response.dto';
+
+const NOTIFICATION_LIST_LIMIT = 50;
+
+export interface NewNotification {
+  userId: number;
+  type: NotificationType;
+  message: string;
+  smokeId?: number;
+}
+
+@Injectable()
+export class NotificationsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Send a notification to a user
+   * Accepts a transaction client so the notification is only stored if the change it describes is
+   */
+  async notify(notification: NewNotification, client: Prisma.TransactionClient = this.prisma): Promise<void> {
+    await client.notification.create({
+      data: notification,
+    });
+  }
+
+  /**
+   * Get the most recent notifications of a user, newest first
+   */
+  async findForUser(userId: number): Promise<NotificationResponseDto[]> {
+    return this.prisma.notification.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        type: true,
+        message: true,
+        smokeId: true,
+        readAt: true,
+        createdAt: true,
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: NOTIFICATION_LIST_LIMIT,
+    });
+  }
+
+  /**
+   * Mark one of the user's notifications as read, keeping the first read time
+   */
+  async markAsRead(id: number, userId: number): Promise<void> {
+    const notification = await this.prisma.notification.findUnique({
+      where: { id },
+      select: { userId: true, readAt: true },
+    });
+
+    // Other users' notifications are reported as missing rather than forbidden
+    if (!notification || notification.userId !== userId) {
+      throw new NotFoundException(`Notification with ID ${id} not found`);
+    }
+
+    if (!notification.readAt) {
+      await this.prisma.notification.update({
+        where: { id },
+        data: { readAt: new Date() },
+      });
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { Role } from '@prisma/client';
 import { RatingsController } from './ratings.controller';
 import { RatingsService } from './ratings.service';
 import { RateSmokeDto } from '../common/dto/rate-smoke.dto';
@@ -40,6 +41,7 @@ describe('RatingsController', () => {
       sub: 1,
       steamId: '76561198000000000',
       username: 'testuser',
+      role: Role.USER,
     };
 
     const mockRequest = { user: mockUser };
@@ -83,6 +85,7 @@ describe('RatingsController', () => {
         sub: 999,
         steamId: '76561198999999999',
         username: 'customuser',
+        role: Role.USER,
       };
       const customRequest = { user: customUser };
 
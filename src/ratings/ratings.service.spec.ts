@@ -2,11 +2,14 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { NotFoundException, BadRequestException } from '@nestjs/common';
 import { RatingsService } from './ratings.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
 import { RateSmokeDto } from '../common/dto/rate-smoke.dto';
+import { AuditAction, AuditEntityType } from '@prisma/client';
 
 describe('RatingsService', () => {
   let service: RatingsService;
   let prismaService: any;
+  let auditService: { record: jest.Mock };
 
   const mockUser = {
     id: 1,
@@ -34,9 +37,15 @@ describe('RatingsService', () => {
         findUnique: jest.fn(),
       },
       rating: {
+        findUnique: jest.fn(),
         upsert: jest.fn(),
+        deleteMany: jest.fn(),
       },
+      $transaction: jest.fn(),
     };
+    mockPrismaService.$transaction.mockImplementation((callback) => callback(mockPrismaService));
+
+    auditService = { record: jest.fn() };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -45,6 +54,10 @@ describe('RatingsService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: AuditService,
+          useValue: auditService,
+        },
       ],
     }).compile();
 
@@ -73,7 +86,7 @@ describe('RatingsService', () => {
       // Assert
       expect(prismaService.smoke.findUnique).toHaveBeenCalledWith({
         where: { id: smokeId },
-        select: { id: true },
+        select: { id: true, deletedAt: true },
       });
       expect(prismaService.user.findUnique).toHaveBeenCalledWith({
         where: { id: userId },
@@ -95,6 +108,17 @@ describe('RatingsService', () => {
           value: rateSmokeDto.value,
         },
       });
+      expect(auditService.record).toHaveBeenCalledWith(
+        {
+          actorId: userId,
+          action: AuditAction.CREATE,
+          entityType: AuditEntityType.RATING,
+          entityId: mockRating.id,
+          before: undefined,
+          after: { smokeId, value: 1 },
+        },
+        prismaService,
+      );
     });
 
     it('should update existing rating with valid data', async () => {
@@ -106,6 +130,7 @@ describe('RatingsService', () => {
 
       prismaService.smoke.findUnique.mockResolvedValue(mockSmoke);
       prismaService.user.findUnique.mockResolvedValue(mockUser);
+      prismaService.rating.findUnique.mockResolvedValue({ value: 1 });
       prismaService.rating.upsert.mockResolvedValue(updatedRating);
 
       // Act
@@ -128,6 +153,14 @@ describe('RatingsService', () => {
           value: -1,
         },
       });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.UPDATE,
+          before: { smokeId, value: 1 },
+          after: { smokeId, value: -1 },
+        }),
+        prismaService,
+      );
     });
 
     it('should throw BadRequestException for invalid rating value', async () => {
@@ -254,4 +287,43 @@ describe('RatingsService', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('removeRating', () => {
+    it('should delete the rating and record it in the audit log', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue(mockSmoke);
+      prismaService.user.findUnique.mockResolvedValue(mockUser);
+      prismaService.rating.findUnique.mockResolvedValue(mockRating);
+
+      // Act
+      await service.removeRating(1, 1);
+
+      // Assert
+      expect(prismaService.rating.deleteMany).toHaveBeenCalledWith({ where: { userId: 1, smokeId: 1 } });
+      expect(auditService.record).toHaveBeenCalledWith(
+        {
+          actorId: 1,
+          action: AuditAction.DELETE,
+          entityType: AuditEntityType.RATING,
+          entityId: mockRating.id,
+          before: { smokeId: 1, value: 1 },
+        },
+        prismaService,
+      );
+    });
+
+    it('should do nothing when the user has not rated the smoke', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue(mockSmoke);
+      prismaService.user.findUnique.mockResolvedValue(mockUser);
+      prismaService.rating.findUnique.mockResolvedValue(null);
+
+      // Act
+      await service.removeRating(1, 1);
+
+      // Assert
+      expect(prismaService.rating.deleteMany).not.toHaveBeenCalled();
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,10 +1,15 @@
 import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { AuditAction, AuditEntityType } from '@prisma/client';
 import { RateSmokeDto } from '../common/dto/rate-smoke.dto';
 import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
 
 @Injectable()
 export class RatingsService {
-  constructor(private readonly prisma: PrismaService) { }
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) { }
 
   /**
    * Create or update a rating using Prisma upsert operation
@@ -38,23 +43,47 @@ export class RatingsService {
       throw new NotFoundException(`User with ID ${userId} not found`);
     }
 
-    // Use Prisma upsert to create or update the rating
-    // This handles the unique constraint on (userId, smokeId)
-    await this.prisma.rating.upsert({
+    const existingRating = await this.prisma.rating.findUnique({
       where: {
         userId_smokeId: {
           userId,
           smokeId,
         },
       },
-      update: {
-        value,
-      },
-      create: {
-        userId,
-        smokeId,
-        value,
-      },
+      select: { value: true },
+    });
+
+    await this.prisma.$transaction(async (tx) => {
+      // Use Prisma upsert to create or update the rating
+      // This handles the unique constraint on (userId, smokeId)
+      const rating = await tx.rating.upsert({
+        where: {
+          userId_smokeId: {
+            userId,
+            smokeId,
+          },
+        },
+        update: {
+          value,
+        },
+        create: {
+          userId,
+          smokeId,
+          value,
+        },
+      });
+
+      await this.auditService.record(
+        {
+          actorId: userId,
+          action: existingRating ? AuditAction.UPDATE : AuditAction.CREATE,
+          entityType: AuditEntityType.RATING,
+          entityId: rating.id,
+          before: existingRating ? { smokeId, value: existingRating.value } : undefined,
+          after: { smokeId, value },
+        },
+        tx,
+      );
     });
   }
 
@@ -104,12 +133,39 @@ export class RatingsService {
       throw new NotFoundException(`User with ID ${userId} not found`);
     }
 
-    // Delete the rating
-    await this.prisma.rating.deleteMany({
+    const rating = await this.prisma.rating.findUnique({
       where: {
-        userId,
-        smokeId,
+        userId_smokeId: {
+          userId,
+          smokeId,
+        },
       },
     });
+
+    // Removing a rating that does not exist is a no-op
+    if (!rating) {
+      return;
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      // Delete the rating
+      await tx.rating.deleteMany({
+        where: {
+          userId,
+          smokeId,
+        },
+      });
+
+      await this.auditService.record(
+        {
+          actorId: userId,
+          action: AuditAction.DELETE,
+          entityType: AuditEntityType.RATING,
+          entityId: rating.id,
+          before: { smokeId, value: rating.value },
+        },
+        tx,
+      );
+    });
   }
 }
\ No newline at end of file
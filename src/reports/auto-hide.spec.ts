@@ -0,0 +1,26 @@
+import { DEFAULT_AUTO_HIDE_RULES, reporterWeight } from './auto-hide';
+
+describe('reporterWeight', () => {
+  const now = new Date('2025-06-01T00:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  it('should count established accounts as one report', () => {
+    expect(reporterWeight({ createdAt: daysAgo(30), reputation: 0 }, DEFAULT_AUTO_HIDE_RULES, now)).toBe(1);
+  });
+
+  it('should halve reports from new accounts, whatever their reputation', () => {
+    expect(reporterWeight({ createdAt: daysAgo(2), reputation: 0 }, DEFAULT_AUTO_HIDE_RULES, now)).toBe(0.5);
+    expect(reporterWeight({ createdAt: daysAgo(2), reputation: 50 }, DEFAULT_AUTO_HIDE_RULES, now)).toBe(0.5);
+  });
+
+  it('should give more weight to trusted contributors', () => {
+    expect(reporterWeight({ createdAt: daysAgo(30), reputation: 10 }, DEFAULT_AUTO_HIDE_RULES, now)).toBe(1.5);
+  });
+
+  it('should follow the configured rules', () => {
+    const rules = { threshold: 5, newAccountDays: 0, trustedReputation: 100 };
+
+    expect(reporterWeight({ createdAt: daysAgo(0), reputation: 50 }, rules, now)).toBe(1);
+    expect(reporterWeight({ createdAt: daysAgo(0), reputation: 100 }, rules, now)).toBe(1.5);
+  });
+});
@@ -0,0 +1,34 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When pending reports hide a smoke without waiting for a moderator
+ */
+export interface AutoHideRules {
+  // Summed weight of pending reports that hides a smoke, 0 turns auto-hiding off
+  threshold: number;
+  // Reports from accounts younger than this count for half
+  newAccountDays: number;
+  // Reports from users whose smokes have at least this net rating score count one and a half times
+  trustedReputation: number;
+}
+
+export const DEFAULT_AUTO_HIDE_RULES: AutoHideRules = {
+  threshold: 3,
+  newAccountDays: 7,
+  trustedReputation: 10,
+};
+
+/**
+ * Weight of a report, so a handful of fresh accounts cannot hide a smoke as easily as established users
+ */
+export function reporterWeight(
+  reporter: { createdAt: Date; reputation: number },
+  rules: AutoHideRules,
+  now: Date = new Date(),
+): number {
+  if (now.getTime() - reporter.createdAt.getTime() < rules.newAccountDays * DAY_MS) {
+    return 0.5;
+  }
+
+  return reporter.reputation >= rules.trustedReputation ? 1.5 : 1;
+}
@@ -1,9 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ModerationActionType, ReportCategory, ReportStatus, Role } from '@prisma/client';
 import { ReportsController } from './reports.controller';
 import { ReportsService } from './reports.service';
 import { ReportSmokeDto } from '../common/dto/report-smoke.dto';
 import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
-import { describe, beforeEach, afterEach, it } from 'node:test';
 
 describe('ReportsController', () => {
   let controller: ReportsController;
@@ -11,6 +11,9 @@ describe('ReportsController', () => {
 
   const mockReportsService = {
     create: jest.fn(),
+    findQueue: jest.fn(),
+    updateStatus: jest.fn(),
+    applyAction: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -38,14 +41,16 @@ describe('ReportsController', () => {
 
   describe('reportSmoke', () => {
     const mockJwtPayload: JwtPayload = {
-      id: 1,
+      sub: 1,
       steamId: '76561198000000000',
       username: 'testuser',
+      role: Role.USER,
     };
 
     const mockRequest = { user: mockJwtPayload };
     const reportSmokeDto: ReportSmokeDto = {
-      reason: 'This smoke contains inappropriate content that violates community guidelines',
+      category: ReportCategory.OFFENSIVE,
+      comment: 'This smoke contains inappropriate content that violates community guidelines',
     };
 
     it('should create a report successfully', async () => {
@@ -61,9 +66,10 @@ describe('ReportsController', () => {
     it('should extract reporterId from JWT payload', async () => {
       const smokeId = 456;
       const customPayload: JwtPayload = {
-        id: 999,
+        sub: 999,
         steamId: '76561198111111111',
         username: 'anotheruser',
+        role: Role.USER,
       };
       const customRequest = { user: customPayload };
 
@@ -86,4 +92,51 @@ describe('ReportsController', () => {
       expect(service.create).toHaveBeenCalledWith(smokeId, mockJwtPayload.sub, reportSmokeDto);
     });
   });
-});
\ No newline at end of file
+
+  describe('getModerationQueue', () => {
+    it('should pass the queue filters to the service', async () => {
+      const query = { status: ReportStatus.REVIEWED, limit: 10 };
+      const expected = { data: [], pagination: { limit: 10, hasMore: false, nextCursor: null } };
+      mockReportsService.findQueue.mockResolvedValue(expected);
+
+      const result = await controller.getModerationQueue(query);
+
+      expect(service.findQueue).toHaveBeenCalledWith(query);
+      expect(result).toEqual(expected);
+    });
+  });
+
+  describe('updateReportStatus', () => {
+    it('should record the authenticated moderator as the handler', async () => {
+      const moderator: JwtPayload = {
+        sub: 5,
+        steamId: '76561198555555555',
+        username: 'moderator',
+        role: Role.MODERATOR,
+      };
+      const dto = { status: ReportStatus.RESOLVED, resolutionNote: 'Removed the smoke' };
+      mockReportsService.updateStatus.mockResolvedValue({ id: 3, status: ReportStatus.RESOLVED });
+
+      await controller.updateReportStatus(3, dto, { user: moderator });
+
+      expect(service.updateStatus).toHaveBeenCalledWith(3, dto, 5);
+    });
+  });
+
+  describe('takeModerationAction', () => {
+    it('should apply the action as the authenticated moderator', async () => {
+      const moderator: JwtPayload = {
+        sub: 5,
+        steamId: '76561198555555555',
+        username: 'moderator',
+        role: Role.MODERATOR,
+      };
+      const dto = { action: ModerationActionType.REMOVE, reason: 'Offensive title' };
+      mockReportsService.applyAction.mockResolvedValue({ id: 1, ...dto });
+
+      await controller.takeModerationAction(3, dto, { user: moderator });
+
+      expect(service.applyAction).toHaveBeenCalledWith(3, dto, 5);
+    });
+  });
+});
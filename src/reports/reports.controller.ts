@@ -2,19 +2,31 @@ import {
   Controller,
   Post,
   Get,
+  Patch,
   Param,
   Body,
+  Query,
   UseGuards,
   Request,
   ParseIntPipe,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
+import { Role } from '@prisma/client';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
 import { ReportsService } from './reports.service';
 import { ReportSmokeDto } from '../common/dto/report-smoke.dto';
+import { ReportQueueQueryDto } from '../common/dto/report-queue-query.dto';
+import { UpdateReportStatusDto } from '../common/dto/update-report-status.dto';
+import { CreateModerationActionDto } from '../common/dto/create-moderation-action.dto';
+import { ModerationActionResponseDto } from '../common/dto/moderation-action-response.dto';
+import { ReportResponseDto } from '../common/dto/report-response.dto';
+import { ReportQueueItemDto } from '../common/dto/report-queue-response.dto';
+import { PaginatedResponseDto } from '../common/dto/paginated-response.dto';
 import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
-import { ApiTags } from '@nestjs/swagger';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 
 @ApiTags('reports')
 @Controller()
@@ -74,4 +86,68 @@ export class ReportsController {
     
     return { message: 'Report submitted successfully' };
   }
-}
\ No newline at end of file
+
+  /**
+   * GET /moderation/reports
+   * Moderation queue: reported smokes with their reports, most reported first
+   * Filter by report status with ?status= (defaults to PENDING), paginated with ?limit= and ?cursor=
+   * Moderator endpoint - requires the MODERATOR or ADMIN role
+   */
+  @Get('moderation/reports')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.MODERATOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List the report moderation queue grouped by smoke' })
+  @ApiResponse({ status: 200, description: 'Page of reported smokes with their reports and reporters' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires the moderator role' })
+  async getModerationQueue(@Query() query: ReportQueueQueryDto): Promise<PaginatedResponseDto<ReportQueueItemDto>> {
+    return this.reportsService.findQueue(query);
+  }
+
+  /**
+   * PATCH /moderation/reports/:id
+   * Move a report to REVIEWED or RESOLVED, recording the handling moderator and an optional note
+   * Moderator endpoint - requires the MODERATOR or ADMIN role
+   */
+  @Patch('moderation/reports/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.MODERATOR)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Change the status of a report' })
+  @ApiResponse({ status: 200, description: 'Report updated' })
+  @ApiResponse({ status: 400, description: 'Invalid status transition' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires the moderator role' })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  async updateReportStatus(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateReportStatusDto: UpdateReportStatusDto,
+    @Request() req: { user: JwtPayload },
+  ): Promise<ReportResponseDto> {
+    return this.reportsService.updateStatus(id, updateReportStatusDto, req.user.sub);
+  }
+
+  /**
+   * POST /moderation/reports/:id/actions
+   * Act on the reported smoke: HIDE it pending review, REMOVE it, RESTORE it or DISMISS the report
+   * The action is recorded with the moderator and reason, and the report status is updated to match
+   * Hiding or removing a smoke notifies its author with the reason
+   * Moderator endpoint - requires the MODERATOR or ADMIN role
+   */
+  @Post('moderation/reports/:id/actions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.MODERATOR)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Take a moderation action on a reported smoke' })
+  @ApiResponse({ status: 201, description: 'Action recorded and applied' })
+  @ApiResponse({ status: 400, description: 'Action not possible in the current report or smoke state' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires the moderator role' })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  async takeModerationAction(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createModerationActionDto: CreateModerationActionDto,
+    @Request() req: { user: JwtPayload },
+  ): Promise<ModerationActionResponseDto> {
+    return this.reportsService.applyAction(id, createModerationActionDto, req.user.sub);
+  }
+}
@@ -1,8 +1,11 @@
 import { Module } from '@nestjs/common';
 import { ReportsService } from './reports.service';
 import { ReportsController } from './reports.controller';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
+  imports: [NotificationsModule, AuditModule],
   controllers: [ReportsController],
   providers: [ReportsService],
   exports: [ReportsService],
@@ -1,25 +1,45 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { NotFoundException, BadRequestException } from '@nestjs/common';
 import { ReportsService } from './reports.service';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { NotificationsService } from '../notifications/notifications.service';
 import { ReportSmokeDto } from '../common/dto/report-smoke.dto';
-import { ReportStatus } from '@prisma/client';
+import {
+  AuditAction,
+  AuditEntityType,
+  ModerationActionType,
+  NotificationType,
+  ReportCategory,
+  ReportStatus,
+} from '@prisma/client';
 
 describe('ReportsService', () => {
   let service: ReportsService;
   let prismaService: any;
+  let auditService: { record: jest.Mock };
+  let notificationsService: { notify: jest.Mock };
+  let config: Record<string, number>;
 
   const mockUser = {
     id: 1,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
   };
 
   const mockSmoke = {
     id: 1,
+    title: 'Window smoke',
+    authorId: 2,
+    deletedAt: null,
+    hiddenAt: null,
   };
 
   const mockReport = {
     id: 1,
-    reason: 'This smoke is inappropriate',
+    category: ReportCategory.OFFENSIVE,
+    comment: 'This smoke is inappropriate',
+    duplicateOfId: null,
     status: ReportStatus.PENDING,
     reporterId: 1,
     smokeId: 1,
@@ -34,11 +54,31 @@ describe('ReportsService', () => {
       },
       smoke: {
         findUnique: jest.fn(),
+        findMany: jest.fn(),
+        update: jest.fn(),
       },
       report: {
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        groupBy: jest.fn(),
+        create: jest.fn().mockResolvedValue(mockReport),
+        update: jest.fn(),
+        updateMany: jest.fn(),
+        aggregate: jest.fn().mockResolvedValue({ _sum: { weight: 1 } }),
+      },
+      rating: {
+        aggregate: jest.fn().mockResolvedValue({ _sum: { value: null } }),
+      },
+      moderationAction: {
         create: jest.fn(),
       },
+      $transaction: jest.fn(),
     };
+    mockPrismaService.$transaction.mockImplementation((callback) => callback(mockPrismaService));
+    notificationsService = { notify: jest.fn() };
+    config = {};
+
+    auditService = { record: jest.fn() };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -47,6 +87,18 @@ describe('ReportsService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: NotificationsService,
+          useValue: notificationsService,
+        },
+        {
+          provide: AuditService,
+          useValue: auditService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue: number) => config[key] ?? defaultValue) },
+        },
       ],
     }).compile();
 
@@ -64,7 +116,8 @@ describe('ReportsService', () => {
       const smokeId = 1;
       const reporterId = 1;
       const reportSmokeDto: ReportSmokeDto = {
-        reason: 'This smoke contains inappropriate content',
+        category: ReportCategory.BROKEN_VIDEO,
+        comment: 'The video was made private',
       };
 
       prismaService.smoke.findUnique.mockResolvedValue(mockSmoke);
@@ -77,98 +130,109 @@ describe('ReportsService', () => {
       // Assert
       expect(prismaService.smoke.findUnique).toHaveBeenCalledWith({
         where: { id: smokeId },
-        select: { id: true },
+        select: { id: true, title: true, authorId: true, deletedAt: true, hiddenAt: true },
       });
       expect(prismaService.user.findUnique).toHaveBeenCalledWith({
         where: { id: reporterId },
-        select: { id: true },
+        select: { id: true, createdAt: true },
       });
       expect(prismaService.report.create).toHaveBeenCalledWith({
         data: {
-          reason: reportSmokeDto.reason.trim(),
+          category: ReportCategory.BROKEN_VIDEO,
+          comment: 'The video was made private',
+          duplicateOfId: undefined,
           status: ReportStatus.PENDING,
+          weight: 1,
           reporterId,
           smokeId,
         },
       });
+      expect(auditService.record).toHaveBeenCalledWith(
+        {
+          actorId: reporterId,
+          action: AuditAction.CREATE,
+          entityType: AuditEntityType.REPORT,
+          entityId: mockReport.id,
+          after: expect.objectContaining({ smokeId, category: ReportCategory.BROKEN_VIDEO, weight: 1 }),
+        },
+        prismaService,
+      );
     });
 
-    it('should trim whitespace from reason before creating report', async () => {
+    it('should accept a report without a comment', async () => {
       // Arrange
-      const smokeId = 1;
-      const reporterId = 1;
-      const reportSmokeDto: ReportSmokeDto = {
-        reason: '  This smoke has inappropriate content  ',
-      };
-
       prismaService.smoke.findUnique.mockResolvedValue(mockSmoke);
       prismaService.user.findUnique.mockResolvedValue(mockUser);
-      prismaService.report.create.mockResolvedValue(mockReport);
 
       // Act
-      await service.create(smokeId, reporterId, reportSmokeDto);
+      await service.create(1, 1, { category: ReportCategory.SPAM });
 
       // Assert
       expect(prismaService.report.create).toHaveBeenCalledWith({
-        data: {
-          reason: 'This smoke has inappropriate content', // Trimmed
-          status: ReportStatus.PENDING,
-          reporterId,
-          smokeId,
-        },
+        data: expect.objectContaining({ category: ReportCategory.SPAM, comment: null }),
       });
     });
 
-    it('should throw BadRequestException for empty reason', async () => {
+    it('should trim whitespace from the comment and drop blank comments', async () => {
       // Arrange
-      const smokeId = 1;
-      const reporterId = 1;
-      const reportSmokeDto: ReportSmokeDto = {
-        reason: '',
-      };
+      prismaService.smoke.findUnique.mockResolvedValue(mockSmoke);
+      prismaService.user.findUnique.mockResolvedValue(mockUser);
 
-      // Act & Assert
-      await expect(service.create(smokeId, reporterId, reportSmokeDto)).rejects.toThrow(
-        new BadRequestException('Report reason is required'),
-      );
+      // Act
+      await service.create(1, 1, { category: ReportCategory.WRONG_MAP, comment: '  This is Inferno, not Mirage  ' });
+      await service.create(1, 1, { category: ReportCategory.WRONG_MAP, comment: '   ' });
 
-      // Verify that no database operations were called
-      expect(prismaService.smoke.findUnique).not.toHaveBeenCalled();
-      expect(prismaService.user.findUnique).not.toHaveBeenCalled();
-      expect(prismaService.report.create).not.toHaveBeenCalled();
+      // Assert
+      expect(prismaService.report.create.mock.calls.map(([args]) => args.data.comment)).toEqual([
+        'This is Inferno, not Mirage',
+        null,
+      ]);
     });
 
-    it('should throw BadRequestException for whitespace-only reason', async () => {
+    it('should reference the original smoke of a duplicate', async () => {
       // Arrange
-      const smokeId = 1;
-      const reporterId = 1;
-      const reportSmokeDto: ReportSmokeDto = {
-        reason: '   ',
-      };
+      prismaService.smoke.findUnique
+        .mockResolvedValueOnce(mockSmoke)
+        .mockResolvedValueOnce({ id: 7, deletedAt: null });
+      prismaService.user.findUnique.mockResolvedValue(mockUser);
 
+      // Act
+      await service.create(1, 1, { category: ReportCategory.DUPLICATE, duplicateOfId: 7 });
+
+      // Assert
+      expect(prismaService.smoke.findUnique).toHaveBeenLastCalledWith({
+        where: { id: 7 },
+        select: { id: true, deletedAt: true },
+      });
+      expect(prismaService.report.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ category: ReportCategory.DUPLICATE, duplicateOfId: 7 }),
+      });
+    });
+
+    it('should only let duplicate reports reference another smoke', async () => {
       // Act & Assert
-      await expect(service.create(smokeId, reporterId, reportSmokeDto)).rejects.toThrow(
-        new BadRequestException('Report reason is required'),
+      await expect(service.create(1, 1, { category: ReportCategory.SPAM, duplicateOfId: 7 })).rejects.toThrow(
+        new BadRequestException('Only duplicate reports can reference an original smoke'),
+      );
+      await expect(service.create(1, 1, { category: ReportCategory.DUPLICATE, duplicateOfId: 1 })).rejects.toThrow(
+        new BadRequestException('A smoke cannot be a duplicate of itself'),
       );
 
       // Verify that no database operations were called
       expect(prismaService.smoke.findUnique).not.toHaveBeenCalled();
-      expect(prismaService.user.findUnique).not.toHaveBeenCalled();
       expect(prismaService.report.create).not.toHaveBeenCalled();
     });
 
-    it('should throw BadRequestException for null reason', async () => {
+    it('should throw NotFoundException when the original smoke does not exist', async () => {
       // Arrange
-      const smokeId = 1;
-      const reporterId = 1;
-      const reportSmokeDto: ReportSmokeDto = {
-        reason: null as any,
-      };
+      prismaService.smoke.findUnique.mockResolvedValueOnce(mockSmoke).mockResolvedValueOnce(null);
+      prismaService.user.findUnique.mockResolvedValue(mockUser);
 
       // Act & Assert
-      await expect(service.create(smokeId, reporterId, reportSmokeDto)).rejects.toThrow(
-        new BadRequestException('Report reason is required'),
+      await expect(service.create(1, 1, { category: ReportCategory.DUPLICATE, duplicateOfId: 99 })).rejects.toThrow(
+        new NotFoundException('Smoke with ID 99 not found'),
       );
+      expect(prismaService.report.create).not.toHaveBeenCalled();
     });
 
     it('should throw NotFoundException for non-existent smoke', async () => {
@@ -176,7 +240,7 @@ describe('ReportsService', () => {
       const smokeId = 999;
       const reporterId = 1;
       const reportSmokeDto: ReportSmokeDto = {
-        reason: 'This smoke is inappropriate',
+        category: ReportCategory.OFFENSIVE,
       };
 
       prismaService.smoke.findUnique.mockResolvedValue(null);
@@ -196,7 +260,7 @@ describe('ReportsService', () => {
       const smokeId = 1;
       const reporterId = 999;
       const reportSmokeDto: ReportSmokeDto = {
-        reason: 'This smoke is inappropriate',
+        category: ReportCategory.OFFENSIVE,
       };
 
       prismaService.smoke.findUnique.mockResolvedValue(mockSmoke);
@@ -211,29 +275,12 @@ describe('ReportsService', () => {
       expect(prismaService.report.create).not.toHaveBeenCalled();
     });
 
-    it('should validate reason before checking smoke existence', async () => {
-      // Arrange
-      const smokeId = 1;
-      const reporterId = 1;
-      const reportSmokeDto: ReportSmokeDto = {
-        reason: '',
-      };
-
-      // Act & Assert
-      await expect(service.create(smokeId, reporterId, reportSmokeDto)).rejects.toThrow(
-        BadRequestException,
-      );
-
-      // Verify that no database operations were performed
-      expect(prismaService.smoke.findUnique).not.toHaveBeenCalled();
-    });
-
     it('should set default status to PENDING for new reports', async () => {
       // Arrange
       const smokeId = 1;
       const reporterId = 1;
       const reportSmokeDto: ReportSmokeDto = {
-        reason: 'Valid report reason',
+        category: ReportCategory.WRONG_COORDINATES,
       };
 
       prismaService.smoke.findUnique.mockResolvedValue(mockSmoke);
@@ -250,59 +297,522 @@ describe('ReportsService', () => {
         }),
       });
     });
+  });
 
-    it('should handle long valid reasons correctly', async () => {
-      // Arrange
-      const smokeId = 1;
-      const reporterId = 1;
-      const longReason = 'This is a very long reason that explains in detail why this smoke should be reported for inappropriate content and violations of community guidelines';
-      const reportSmokeDto: ReportSmokeDto = {
-        reason: longReason,
-      };
+  describe('auto-hiding', () => {
+    const reportSmokeDto: ReportSmokeDto = { category: ReportCategory.SPAM, comment: 'The video is an ad' };
 
+    beforeEach(() => {
       prismaService.smoke.findUnique.mockResolvedValue(mockSmoke);
       prismaService.user.findUnique.mockResolvedValue(mockUser);
-      prismaService.report.create.mockResolvedValue(mockReport);
+    });
+
+    it('should hide the smoke and notify its author once pending reports reach the threshold', async () => {
+      // Arrange
+      prismaService.report.aggregate.mockResolvedValue({ _sum: { weight: 3 } });
 
       // Act
-      await service.create(smokeId, reporterId, reportSmokeDto);
+      await service.create(1, 1, reportSmokeDto);
 
       // Assert
-      expect(prismaService.report.create).toHaveBeenCalledWith({
+      expect(prismaService.report.aggregate).toHaveBeenCalledWith({
+        where: { smokeId: 1, status: ReportStatus.PENDING },
+        _sum: { weight: true },
+      });
+      expect(prismaService.smoke.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { hiddenAt: expect.any(Date), autoHidden: true },
+      });
+      expect(notificationsService.notify).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 2, type: NotificationType.SMOKE_AUTO_HIDDEN, smokeId: 1 }),
+        prismaService,
+      );
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: null,
+          action: AuditAction.UPDATE,
+          entityType: AuditEntityType.SMOKE,
+          after: { hiddenAt: expect.any(Date), autoHidden: true },
+        }),
+        prismaService,
+      );
+    });
+
+    it('should keep the smoke visible below the threshold', async () => {
+      // Arrange
+      prismaService.report.aggregate.mockResolvedValue({ _sum: { weight: 2.5 } });
+
+      // Act
+      await service.create(1, 1, reportSmokeDto);
+
+      // Assert
+      expect(prismaService.smoke.update).not.toHaveBeenCalled();
+      expect(notificationsService.notify).not.toHaveBeenCalled();
+    });
+
+    it('should not hide a smoke twice', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue({ ...mockSmoke, hiddenAt: new Date() });
+      prismaService.report.aggregate.mockResolvedValue({ _sum: { weight: 10 } });
+
+      // Act
+      await service.create(1, 1, reportSmokeDto);
+
+      // Assert
+      expect(prismaService.report.aggregate).not.toHaveBeenCalled();
+      expect(prismaService.smoke.update).not.toHaveBeenCalled();
+    });
+
+    it('should weigh reports by account age and reputation', async () => {
+      // Arrange
+      prismaService.user.findUnique.mockResolvedValueOnce({ id: 1, createdAt: new Date() });
+      prismaService.rating.aggregate.mockResolvedValueOnce({ _sum: { value: 0 } });
+
+      // Act
+      await service.create(1, 1, reportSmokeDto);
+      prismaService.rating.aggregate.mockResolvedValueOnce({ _sum: { value: 25 } });
+      await service.create(1, 1, reportSmokeDto);
+
+      // Assert
+      expect(prismaService.rating.aggregate).toHaveBeenCalledWith({
+        where: { smoke: { authorId: 1, deletedAt: null } },
+        _sum: { value: true },
+      });
+      expect(prismaService.report.create.mock.calls.map(([args]) => args.data.weight)).toEqual([0.5, 1.5]);
+    });
+
+    it('should use the configured threshold and allow turning auto-hiding off', async () => {
+      // Arrange
+      const configured = (threshold: number) =>
+        new ReportsService(
+          prismaService,
+          notificationsService as unknown as NotificationsService,
+          auditService as unknown as AuditService,
+          {
+            get: (key: string, defaultValue: number) =>
+              key === 'REPORT_AUTO_HIDE_THRESHOLD' ? threshold : defaultValue,
+          } as unknown as ConfigService,
+        );
+      prismaService.report.aggregate.mockResolvedValue({ _sum: { weight: 1 } });
+
+      // Act
+      await configured(0).create(1, 1, reportSmokeDto);
+      await configured(1).create(1, 1, reportSmokeDto);
+
+      // Assert
+      expect(prismaService.report.aggregate).toHaveBeenCalledTimes(1);
+      expect(prismaService.smoke.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('findQueue', () => {
+    const reporter = {
+      id: 2,
+      steamId: '76561198000000002',
+      username: 'Reporter',
+      avatarUrl: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should group pending reports by smoke with counts and reporter info', async () => {
+      // Arrange
+      const firstReportedAt = new Date('2025-03-01T10:00:00Z');
+      const lastReportedAt = new Date('2025-03-02T10:00:00Z');
+      prismaService.report.groupBy.mockResolvedValue([
+        { smokeId: 7, _count: { _all: 2 }, _min: { createdAt: firstReportedAt }, _max: { createdAt: lastReportedAt } },
+      ]);
+      prismaService.smoke.findMany.mockResolvedValue([
+        {
+          id: 7,
+          title: 'Broken smoke',
+          authorId: 1,
+          mapId: 3,
+          deletedAt: null,
+          hiddenAt: new Date(),
+          autoHidden: true,
+          map: { name: 'Mirage' },
+        },
+      ]);
+      prismaService.report.findMany.mockResolvedValue([
+        { ...mockReport, id: 10, smokeId: 7, reporter, handledBy: null },
+        { ...mockReport, id: 11, smokeId: 7, category: ReportCategory.BROKEN_VIDEO, comment: null, reporter, handledBy: null },
+      ]);
+
+      // Act
+      const result = await service.findQueue();
+
+      // Assert
+      expect(prismaService.report.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({ by: ['smokeId'], where: { status: ReportStatus.PENDING }, skip: 0, take: 21 }),
+      );
+      expect(prismaService.report.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { smokeId: { in: [7] }, status: ReportStatus.PENDING } }),
+      );
+      expect(result.pagination).toEqual({ limit: 20, hasMore: false, nextCursor: null });
+      expect(result.data).toHaveLength(1);
+      expect(result.data[0]).toMatchObject({
+        smoke: { id: 7, title: 'Broken smoke', mapName: 'Mirage', deletedAt: null, autoHidden: true },
+        reportCount: 2,
+        firstReportedAt,
+        lastReportedAt,
+      });
+      expect(result.data[0].reports.map((report) => report.id)).toEqual([10, 11]);
+      expect(result.data[0].reports[0].reporter).toEqual({
+        id: 2,
+        steamId: reporter.steamId,
+        displayName: 'Reporter',
+        avatarUrl: null,
+        createdAt: reporter.createdAt,
+        updatedAt: reporter.updatedAt,
+      });
+    });
+
+    it('should filter by status and continue from the cursor', async () => {
+      // Arrange
+      const cursor = Buffer.from(JSON.stringify({ offset: 20 })).toString('base64url');
+      const groups = [1, 2].map((smokeId) => ({
+        smokeId,
+        _count: { _all: 1 },
+        _min: { createdAt: new Date() },
+        _max: { createdAt: new Date() },
+      }));
+      prismaService.report.groupBy.mockResolvedValue(groups);
+      prismaService.smoke.findMany.mockResolvedValue([
+        { id: 1, title: 'Smoke', authorId: 1, mapId: 1, deletedAt: null, map: { name: 'Dust2' } },
+      ]);
+      prismaService.report.findMany.mockResolvedValue([]);
+
+      // Act
+      const result = await service.findQueue({ status: ReportStatus.RESOLVED, limit: 1, cursor });
+
+      // Assert
+      expect(prismaService.report.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { status: ReportStatus.RESOLVED }, skip: 20, take: 2 }),
+      );
+      expect(result.data).toHaveLength(1);
+      expect(result.pagination.hasMore).toBe(true);
+      expect(JSON.parse(Buffer.from(result.pagination.nextCursor, 'base64url').toString())).toEqual({ offset: 21 });
+    });
+
+    it('should only count and list reports of the requested category', async () => {
+      // Arrange
+      prismaService.report.groupBy.mockResolvedValue([]);
+      prismaService.smoke.findMany.mockResolvedValue([]);
+      prismaService.report.findMany.mockResolvedValue([]);
+
+      // Act
+      await service.findQueue({ category: ReportCategory.DUPLICATE });
+
+      // Assert
+      const where = { status: ReportStatus.PENDING, category: ReportCategory.DUPLICATE };
+      expect(prismaService.report.groupBy).toHaveBeenCalledWith(expect.objectContaining({ where }));
+      expect(prismaService.report.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { ...where, smokeId: { in: [] } } }),
+      );
+    });
+
+    it('should reject an invalid cursor', async () => {
+      // Act & Assert
+      await expect(service.findQueue({ cursor: 'not-a-cursor' })).rejects.toThrow(
+        new BadRequestException('Invalid pagination cursor'),
+      );
+    });
+  });
+
+  describe('updateStatus', () => {
+    it('should record the moderator and resolution note', async () => {
+      // Arrange
+      prismaService.report.findUnique.mockResolvedValue(mockReport);
+      prismaService.report.update.mockResolvedValue({ ...mockReport, status: ReportStatus.RESOLVED });
+
+      // Act
+      const result = await service.updateStatus(
+        1,
+        { status: ReportStatus.RESOLVED, resolutionNote: 'Video replaced by the author' },
+        5,
+      );
+
+      // Assert
+      expect(prismaService.report.update).toHaveBeenCalledWith({
+        where: { id: 1 },
         data: {
-          reason: longReason,
-          status: ReportStatus.PENDING,
-          reporterId,
-          smokeId,
+          status: ReportStatus.RESOLVED,
+          resolutionNote: 'Video replaced by the author',
+          handledById: 5,
+          handledAt: expect.any(Date),
         },
       });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: 5,
+          action: AuditAction.UPDATE,
+          entityType: AuditEntityType.REPORT,
+          before: { status: ReportStatus.PENDING, resolutionNote: undefined },
+          after: expect.objectContaining({ status: ReportStatus.RESOLVED }),
+        }),
+        prismaService,
+      );
+      expect(result.status).toBe(ReportStatus.RESOLVED);
     });
 
-    it('should handle minimum length valid reasons correctly', async () => {
+    it('should allow resolving a reviewed report', async () => {
       // Arrange
-      const smokeId = 1;
-      const reporterId = 1;
-      const minReason = 'Bad smoke';
-      const reportSmokeDto: ReportSmokeDto = {
-        reason: minReason,
-      };
+      prismaService.report.findUnique.mockResolvedValue({ ...mockReport, status: ReportStatus.REVIEWED });
+      prismaService.report.update.mockResolvedValue({ ...mockReport, status: ReportStatus.RESOLVED });
 
-      prismaService.smoke.findUnique.mockResolvedValue(mockSmoke);
-      prismaService.user.findUnique.mockResolvedValue(mockUser);
-      prismaService.report.create.mockResolvedValue(mockReport);
+      // Act
+      await service.updateStatus(1, { status: ReportStatus.RESOLVED }, 5);
+
+      // Assert
+      expect(prismaService.report.update).toHaveBeenCalled();
+    });
+
+    it.each([
+      [ReportStatus.REVIEWED, ReportStatus.REVIEWED],
+      [ReportStatus.RESOLVED, ReportStatus.REVIEWED],
+      [ReportStatus.RESOLVED, ReportStatus.RESOLVED],
+    ])('should reject moving a %s report to %s', async (current, next) => {
+      // Arrange
+      prismaService.report.findUnique.mockResolvedValue({ ...mockReport, status: current });
+
+      // Act & Assert
+      await expect(service.updateStatus(1, { status: next }, 5)).rejects.toThrow(
+        new BadRequestException(`Cannot change report status from ${current} to ${next}`),
+      );
+      expect(prismaService.report.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown report', async () => {
+      // Arrange
+      prismaService.report.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.updateStatus(99, { status: ReportStatus.REVIEWED }, 5)).rejects.toThrow(
+        new NotFoundException('Report with ID 99 not found'),
+      );
+    });
+  });
+
+  describe('applyAction', () => {
+    const visibleSmoke = { id: 1, title: 'Window smoke', authorId: 2, deletedAt: null, hiddenAt: null, autoHidden: false };
+
+    const arrangeReport = (report: object) => {
+      prismaService.report.findUnique.mockResolvedValue(report);
+      prismaService.report.update.mockImplementation(({ data }) => ({ ...mockReport, ...data }));
+      prismaService.moderationAction.create.mockImplementation(({ data }) => ({ id: 9, createdAt: new Date(), ...data }));
+    };
+
+    it('should hide the smoke and put the report under review', async () => {
+      // Arrange
+      arrangeReport({ ...mockReport, smoke: visibleSmoke });
 
       // Act
-      await service.create(smokeId, reporterId, reportSmokeDto);
+      const result = await service.applyAction(1, { action: ModerationActionType.HIDE, reason: 'Checking the video' }, 5);
 
       // Assert
-      expect(prismaService.report.create).toHaveBeenCalledWith({
+      expect(prismaService.smoke.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { hiddenAt: expect.any(Date), autoHidden: false },
+      });
+      expect(prismaService.report.update).toHaveBeenCalledWith({
+        where: { id: 1 },
         data: {
-          reason: minReason,
-          status: ReportStatus.PENDING,
-          reporterId,
-          smokeId,
+          status: ReportStatus.REVIEWED,
+          resolutionNote: 'Checking the video',
+          handledById: 5,
+          handledAt: expect.any(Date),
         },
       });
+      expect(prismaService.moderationAction.create).toHaveBeenCalledWith({
+        data: { action: ModerationActionType.HIDE, reason: 'Checking the video', smokeId: 1, reportId: 1, moderatorId: 5 },
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        {
+          actorId: 5,
+          action: AuditAction.MODERATE,
+          entityType: AuditEntityType.SMOKE,
+          entityId: 1,
+          before: { deletedAt: null, hiddenAt: null, autoHidden: false },
+          after: expect.objectContaining({ action: ModerationActionType.HIDE, reportStatus: ReportStatus.REVIEWED }),
+        },
+        prismaService,
+      );
+      expect(notificationsService.notify).toHaveBeenCalledWith(
+        {
+          userId: 2,
+          type: NotificationType.SMOKE_HIDDEN,
+          smokeId: 1,
+          message: 'Your smoke "Window smoke" was hidden by a moderator: Checking the video',
+        },
+        prismaService,
+      );
+      expect(result).toMatchObject({ id: 9, action: ModerationActionType.HIDE, report: { status: ReportStatus.REVIEWED } });
+    });
+
+    it('should soft-delete the smoke and resolve every open report of it', async () => {
+      // Arrange
+      arrangeReport({ ...mockReport, smoke: visibleSmoke });
+
+      // Act
+      await service.applyAction(1, { action: ModerationActionType.REMOVE, reason: 'Offensive title' }, 5);
+
+      // Assert
+      expect(prismaService.smoke.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { deletedAt: expect.any(Date), deletedById: 5, autoHidden: false },
+      });
+      expect(prismaService.report.updateMany).toHaveBeenCalledWith({
+        where: { smokeId: 1, id: { not: 1 }, status: { not: ReportStatus.RESOLVED } },
+        data: expect.objectContaining({ status: ReportStatus.RESOLVED, handledById: 5 }),
+      });
+      expect(notificationsService.notify).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 2,
+          type: NotificationType.SMOKE_REMOVED,
+          message: 'Your smoke "Window smoke" was removed by a moderator: Offensive title',
+        }),
+        prismaService,
+      );
+    });
+
+    it('should restore a removed smoke even when the report is resolved', async () => {
+      // Arrange
+      arrangeReport({
+        ...mockReport,
+        status: ReportStatus.RESOLVED,
+        smoke: { ...visibleSmoke, deletedAt: new Date() },
+      });
+
+      // Act
+      await service.applyAction(1, { action: ModerationActionType.RESTORE, reason: 'Removed by mistake' }, 5);
+
+      // Assert
+      expect(prismaService.smoke.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { deletedAt: null, deletedById: null, hiddenAt: null, autoHidden: false },
+      });
+    });
+
+    it('should unhide the smoke when dismissing a report', async () => {
+      // Arrange
+      arrangeReport({ ...mockReport, status: ReportStatus.REVIEWED, smoke: { ...visibleSmoke, hiddenAt: new Date() } });
+
+      // Act
+      await service.applyAction(1, { action: ModerationActionType.DISMISS, reason: 'Lineup still works' }, 5);
+
+      // Assert
+      expect(prismaService.smoke.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { hiddenAt: null, autoHidden: false },
+      });
+      expect(prismaService.report.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: ReportStatus.RESOLVED }) }),
+      );
+    });
+
+    it('should not hide a dismissed smoke again on the next report', async () => {
+      // Arrange
+      const reports = [1, 2, 3].map((id) => ({ id, weight: 1, status: ReportStatus.PENDING as ReportStatus }));
+      const pendingWeight = () =>
+        reports.filter((report) => report.status === ReportStatus.PENDING).reduce((sum, report) => sum + report.weight, 0);
+      const report = { ...mockReport, smoke: { ...visibleSmoke, hiddenAt: new Date(), autoHidden: true } };
+      arrangeReport(report);
+      // The new reporter has not reported the smoke yet
+      prismaService.report.findUnique.mockResolvedValueOnce(report).mockResolvedValue(null);
+      prismaService.report.update.mockImplementation(({ where, data }) => {
+        Object.assign(reports.find((report) => report.id === where.id), data);
+        return { ...mockReport, ...data };
+      });
+      prismaService.report.updateMany.mockImplementation(({ where, data }) => {
+        reports
+          .filter((report) => report.id !== where.id.not && report.status === where.status)
+          .forEach((report) => Object.assign(report, data));
+      });
+      prismaService.report.create.mockImplementation(({ data }) => {
+        reports.push({ id: 4, weight: data.weight, status: ReportStatus.PENDING });
+        return mockReport;
+      });
+      prismaService.report.aggregate.mockImplementation(async () => ({ _sum: { weight: pendingWeight() } }));
+      prismaService.smoke.findUnique.mockResolvedValue(mockSmoke);
+      prismaService.user.findUnique.mockResolvedValue(mockUser);
+
+      // Act
+      await service.applyAction(1, { action: ModerationActionType.DISMISS, reason: 'Lineup still works' }, 5);
+      prismaService.smoke.update.mockClear();
+      await service.create(1, 6, { category: ReportCategory.SPAM, comment: 'The video is an ad' });
+
+      // Assert
+      expect(prismaService.report.updateMany).toHaveBeenCalledWith({
+        where: { smokeId: 1, id: { not: 1 }, status: ReportStatus.PENDING },
+        data: expect.objectContaining({ status: ReportStatus.RESOLVED, handledById: 5 }),
+      });
+      expect(pendingWeight()).toBe(1);
+      expect(prismaService.smoke.update).not.toHaveBeenCalled();
+      expect(notificationsService.notify).not.toHaveBeenCalled();
+    });
+
+    it('should not touch a visible smoke when dismissing a report', async () => {
+      // Arrange
+      arrangeReport({ ...mockReport, smoke: visibleSmoke });
+
+      // Act
+      await service.applyAction(1, { action: ModerationActionType.DISMISS, reason: 'Lineup still works' }, 5);
+
+      // Assert
+      expect(prismaService.smoke.update).not.toHaveBeenCalled();
+      expect(notificationsService.notify).not.toHaveBeenCalled();
+    });
+
+    it('should confirm an automatic hide, keeping the original hide time', async () => {
+      // Arrange
+      const hiddenAt = new Date('2025-03-01T10:00:00Z');
+      arrangeReport({ ...mockReport, smoke: { ...visibleSmoke, hiddenAt, autoHidden: true } });
+
+      // Act
+      await service.applyAction(1, { action: ModerationActionType.HIDE, reason: 'Spam lineup' }, 5);
+
+      // Assert
+      expect(prismaService.smoke.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { hiddenAt, autoHidden: false },
+      });
+    });
+
+    it('should reject actions other than restore on resolved reports', async () => {
+      // Arrange
+      arrangeReport({ ...mockReport, status: ReportStatus.RESOLVED, smoke: visibleSmoke });
+
+      // Act & Assert
+      await expect(
+        service.applyAction(1, { action: ModerationActionType.HIDE, reason: 'Hide it' }, 5),
+      ).rejects.toThrow(new BadRequestException('Report with ID 1 is already resolved'));
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject actions that do not change the smoke state', async () => {
+      // Arrange
+      arrangeReport({ ...mockReport, smoke: { ...visibleSmoke, hiddenAt: new Date() } });
+
+      // Act & Assert
+      await expect(
+        service.applyAction(1, { action: ModerationActionType.HIDE, reason: 'Hide it' }, 5),
+      ).rejects.toThrow(new BadRequestException('Smoke with ID 1 is already hidden'));
+
+      arrangeReport({ ...mockReport, smoke: visibleSmoke });
+      await expect(
+        service.applyAction(1, { action: ModerationActionType.RESTORE, reason: 'Bring it back' }, 5),
+      ).rejects.toThrow(new BadRequestException('Smoke with ID 1 is not hidden or removed'));
+    });
+
+    it('should throw NotFoundException for an unknown report', async () => {
+      // Arrange
+      prismaService.report.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.applyAction(99, { action: ModerationActionType.DISMISS, reason: 'Not an issue' }, 5),
+      ).rejects.toThrow(new NotFoundException('Report with ID 99 not found'));
     });
   });
-});
\ No newline at end of file
+});
@@ -1,11 +1,86 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { AuditService } from '../audit/audit.service';
 import { ReportSmokeDto } from '../common/dto/report-smoke.dto';
-import { ReportStatus } from '@prisma/client';
+import { ReportQueueQueryDto } from '../common/dto/report-queue-query.dto';
+import { UpdateReportStatusDto } from '../common/dto/update-report-status.dto';
+import { ReportResponseDto } from '../common/dto/report-response.dto';
+import { ReportQueueItemDto } from '../common/dto/report-queue-response.dto';
+import { PaginatedResponseDto } from '../common/dto/paginated-response.dto';
+import { UserResponseDto } from '../common/dto/user-response.dto';
+import { CreateModerationActionDto } from '../common/dto/create-moderation-action.dto';
+import { ModerationActionResponseDto } from '../common/dto/moderation-action-response.dto';
+import {
+  AuditAction,
+  AuditEntityType,
+  ModerationActionType,
+  NotificationType,
+  Prisma,
+  ReportCategory,
+  ReportStatus,
+  User,
+} from '@prisma/client';
+import { AutoHideRules, DEFAULT_AUTO_HIDE_RULES, reporterWeight } from './auto-hide';
+
+const DEFAULT_QUEUE_PAGE_SIZE = 20;
+
+/**
+ * Statuses a report can move to from each status, reports only move forward
+ */
+const REPORT_TRANSITIONS: Record<ReportStatus, ReportStatus[]> = {
+  [ReportStatus.PENDING]: [ReportStatus.REVIEWED, ReportStatus.RESOLVED],
+  [ReportStatus.REVIEWED]: [ReportStatus.RESOLVED],
+  [ReportStatus.RESOLVED]: [],
+};
+
+/**
+ * Report status after each moderation action, hiding only puts the report under review
+ */
+const ACTION_REPORT_STATUS: Record<ModerationActionType, ReportStatus> = {
+  [ModerationActionType.HIDE]: ReportStatus.REVIEWED,
+  [ModerationActionType.REMOVE]: ReportStatus.RESOLVED,
+  [ModerationActionType.RESTORE]: ReportStatus.RESOLVED,
+  [ModerationActionType.DISMISS]: ReportStatus.RESOLVED,
+};
+
+/**
+ * Notification sent to the author for actions taken against their smoke, along with the moderator's reason
+ */
+const ACTION_NOTIFICATIONS: Partial<Record<ModerationActionType, { type: NotificationType; outcome: string }>> = {
+  [ModerationActionType.HIDE]: { type: NotificationType.SMOKE_HIDDEN, outcome: 'hidden by a moderator' },
+  [ModerationActionType.REMOVE]: { type: NotificationType.SMOKE_REMOVED, outcome: 'removed by a moderator' },
+};
+
+const USER_SUMMARY_SELECT = {
+  id: true,
+  steamId: true,
+  username: true,
+  avatarUrl: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
 
 @Injectable()
 export class ReportsService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly autoHideRules: AutoHideRules;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationsService: NotificationsService,
+    private readonly auditService: AuditService,
+    configService: ConfigService,
+  ) {
+    this.autoHideRules = {
+      threshold: configService.get<number>('REPORT_AUTO_HIDE_THRESHOLD', DEFAULT_AUTO_HIDE_RULES.threshold),
+      newAccountDays: configService.get<number>('REPORT_NEW_ACCOUNT_DAYS', DEFAULT_AUTO_HIDE_RULES.newAccountDays),
+      trustedReputation: configService.get<number>(
+        'REPORT_TRUSTED_REPUTATION',
+        DEFAULT_AUTO_HIDE_RULES.trustedReputation,
+      ),
+    };
+  }
 
   /**
    * Check if a user has already reported a specific smoke
@@ -51,19 +126,24 @@ export class ReportsService {
    * Create a new report for content moderation
    * Sets default status to PENDING for new reports
    * Prevents duplicate reports from the same user for the same smoke
+   * DUPLICATE reports may point to the original smoke, which must exist and differ from the reported one
+   * Hides the smoke and notifies its author once the weighted pending reports reach the auto-hide threshold
    */
   async create(smokeId: number, reporterId: number, reportSmokeDto: ReportSmokeDto): Promise<void> {
-    const { reason } = reportSmokeDto;
+    const { category, comment, duplicateOfId } = reportSmokeDto;
 
-    // Validate that reason is provided (additional validation beyond DTO)
-    if (!reason || reason.trim().length === 0) {
-      throw new BadRequestException('Report reason is required');
+    if (duplicateOfId !== undefined && category !== ReportCategory.DUPLICATE) {
+      throw new BadRequestException('Only duplicate reports can reference an original smoke');
+    }
+
+    if (duplicateOfId === smokeId) {
+      throw new BadRequestException('A smoke cannot be a duplicate of itself');
     }
 
     // Verify the smoke exists and is not deleted
     const smokeExists = await this.prisma.smoke.findUnique({
       where: { id: smokeId },
-      select: { id: true, deletedAt: true },
+      select: { id: true, title: true, authorId: true, deletedAt: true, hiddenAt: true },
     });
 
     if (!smokeExists || smokeExists.deletedAt) {
@@ -73,13 +153,24 @@ export class ReportsService {
     // Verify the reporter exists
     const reporterExists = await this.prisma.user.findUnique({
       where: { id: reporterId },
-      select: { id: true },
+      select: { id: true, createdAt: true },
     });
 
     if (!reporterExists) {
       throw new NotFoundException(`User with ID ${reporterId} not found`);
     }
 
+    if (duplicateOfId !== undefined) {
+      const original = await this.prisma.smoke.findUnique({
+        where: { id: duplicateOfId },
+        select: { id: true, deletedAt: true },
+      });
+
+      if (!original || original.deletedAt) {
+        throw new NotFoundException(`Smoke with ID ${duplicateOfId} not found`);
+      }
+    }
+
     // Check if user has already reported this smoke
     const existingReport = await this.prisma.report.findUnique({
       where: {
@@ -94,14 +185,403 @@ export class ReportsService {
       throw new BadRequestException('You have already reported this smoke');
     }
 
-    // Create the report with default PENDING status
-    await this.prisma.report.create({
-      data: {
-        reason: reason.trim(),
-        status: ReportStatus.PENDING,
-        reporterId,
-        smokeId,
+    const weight = reporterWeight(
+      { createdAt: reporterExists.createdAt, reputation: await this.getReputation(reporterId) },
+      this.autoHideRules,
+    );
+
+    await this.prisma.$transaction(async (tx) => {
+      // Create the report with default PENDING status
+      const report = await tx.report.create({
+        data: {
+          category,
+          comment: comment?.trim() || null,
+          duplicateOfId,
+          status: ReportStatus.PENDING,
+          weight,
+          reporterId,
+          smokeId,
+        },
+      });
+
+      await this.auditService.record(
+        {
+          actorId: reporterId,
+          action: AuditAction.CREATE,
+          entityType: AuditEntityType.REPORT,
+          entityId: report.id,
+          after: { smokeId, category, comment: report.comment, duplicateOfId: report.duplicateOfId, weight },
+        },
+        tx,
+      );
+
+      await this.autoHideIfReported(tx, smokeExists);
+    });
+  }
+
+  /**
+   * Net rating score of the user's smokes, used to trust reports from established contributors
+   */
+  private async getReputation(userId: number): Promise<number> {
+    const { _sum } = await this.prisma.rating.aggregate({
+      where: { smoke: { authorId: userId, deletedAt: null } },
+      _sum: { value: true },
+    });
+
+    return _sum.value ?? 0;
+  }
+
+  /**
+   * Hide the smoke until a moderator reviews it once its pending reports weigh enough, and tell the author
+   * Each user reports a smoke at most once, so the sum always comes from distinct reporters
+   */
+  private async autoHideIfReported(
+    tx: Prisma.TransactionClient,
+    smoke: { id: number; title: string; authorId: number; hiddenAt: Date | null },
+  ): Promise<void> {
+    if (this.autoHideRules.threshold <= 0 || smoke.hiddenAt) {
+      return;
+    }
+
+    const { _sum } = await tx.report.aggregate({
+      where: { smokeId: smoke.id, status: ReportStatus.PENDING },
+      _sum: { weight: true },
+    });
+
+    if ((_sum.weight ?? 0) < this.autoHideRules.threshold) {
+      return;
+    }
+
+    const hiddenAt = new Date();
+
+    await tx.smoke.update({
+      where: { id: smoke.id },
+      data: { hiddenAt, autoHidden: true },
+    });
+
+    await this.auditService.record(
+      {
+        actorId: null,
+        action: AuditAction.UPDATE,
+        entityType: AuditEntityType.SMOKE,
+        entityId: smoke.id,
+        before: { hiddenAt: null, autoHidden: false },
+        after: { hiddenAt, autoHidden: true },
+      },
+      tx,
+    );
+
+    await this.notificationsService.notify(
+      {
+        userId: smoke.authorId,
+        type: NotificationType.SMOKE_AUTO_HIDDEN,
+        smokeId: smoke.id,
+        message: `Your smoke "${smoke.title}" was hidden after several reports and is waiting for a moderator to review it`,
       },
+      tx,
+    );
+  }
+
+  /**
+   * List reported smokes for moderators, most reported first, with every report of the given status
+   * Defaults to pending reports of any category, optionally narrowed with a category filter
+   * Pages are offset-based since smokes leave the queue as reports are handled
+   */
+  async findQueue(query: ReportQueueQueryDto = {}): Promise<PaginatedResponseDto<ReportQueueItemDto>> {
+    const status = query.status ?? ReportStatus.PENDING;
+    const where: Prisma.ReportWhereInput = { status, category: query.category };
+    const limit = query.limit ?? DEFAULT_QUEUE_PAGE_SIZE;
+    const offset = query.cursor ? this.decodeQueueCursor(query.cursor) : 0;
+
+    const groups = await this.prisma.report.groupBy({
+      by: ['smokeId'],
+      where,
+      _count: { _all: true },
+      _min: { createdAt: true },
+      _max: { createdAt: true },
+      orderBy: [{ _count: { smokeId: 'desc' } }, { _min: { createdAt: 'asc' } }, { smokeId: 'asc' }],
+      skip: offset,
+      take: limit + 1,
+    });
+
+    const hasMore = groups.length > limit;
+    const page = groups.slice(0, limit);
+    const smokeIds = page.map((group) => group.smokeId);
+
+    const [smokes, reports] = await Promise.all([
+      this.prisma.smoke.findMany({
+        where: { id: { in: smokeIds } },
+        select: {
+          id: true,
+          title: true,
+          authorId: true,
+          mapId: true,
+          deletedAt: true,
+          hiddenAt: true,
+          autoHidden: true,
+          map: { select: { name: true } },
+        },
+      }),
+      this.prisma.report.findMany({
+        where: { ...where, smokeId: { in: smokeIds } },
+        include: {
+          reporter: { select: USER_SUMMARY_SELECT },
+          handledBy: { select: USER_SUMMARY_SELECT },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const smokesById = new Map(smokes.map((smoke) => [smoke.id, smoke]));
+
+    const data = page.map((group) => {
+      const smoke = smokesById.get(group.smokeId);
+
+      return {
+        smoke: {
+          id: smoke.id,
+          title: smoke.title,
+          authorId: smoke.authorId,
+          mapId: smoke.mapId,
+          mapName: smoke.map.name,
+          deletedAt: smoke.deletedAt,
+          hiddenAt: smoke.hiddenAt,
+          autoHidden: smoke.autoHidden,
+        },
+        reportCount: group._count._all,
+        firstReportedAt: group._min.createdAt,
+        lastReportedAt: group._max.createdAt,
+        reports: reports
+          .filter((report) => report.smokeId === group.smokeId)
+          .map(({ reporter, handledBy, ...report }) => ({
+            ...report,
+            reporter: this.toUserResponse(reporter),
+            handledBy: handledBy ? this.toUserResponse(handledBy) : null,
+          })),
+      };
     });
+
+    return {
+      data,
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore ? Buffer.from(JSON.stringify({ offset: offset + limit })).toString('base64url') : null,
+      },
+    };
+  }
+
+  /**
+   * Move a report forward in its lifecycle (PENDING -> REVIEWED -> RESOLVED)
+   * Records the moderator who handled it and, optionally, a resolution note
+   */
+  async updateStatus(
+    id: number,
+    updateReportStatusDto: UpdateReportStatusDto,
+    moderatorId: number,
+  ): Promise<ReportResponseDto> {
+    const report = await this.prisma.report.findUnique({
+      where: { id },
+    });
+
+    if (!report) {
+      throw new NotFoundException(`Report with ID ${id} not found`);
+    }
+
+    const { status, resolutionNote } = updateReportStatusDto;
+
+    if (!REPORT_TRANSITIONS[report.status].includes(status)) {
+      throw new BadRequestException(`Cannot change report status from ${report.status} to ${status}`);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updated = await tx.report.update({
+        where: { id },
+        data: {
+          status,
+          resolutionNote, // Omitted notes keep the previous one
+          handledById: moderatorId,
+          handledAt: new Date(),
+        },
+      });
+
+      await this.auditService.record(
+        {
+          actorId: moderatorId,
+          action: AuditAction.UPDATE,
+          entityType: AuditEntityType.REPORT,
+          entityId: id,
+          before: { status: report.status, resolutionNote: report.resolutionNote },
+          after: { status: updated.status, resolutionNote: updated.resolutionNote },
+        },
+        tx,
+      );
+
+      return updated;
+    });
+  }
+
+  /**
+   * Act on the smoke behind a report and update the report accordingly, in a single transaction
+   * HIDE hides the smoke pending review, REMOVE soft-deletes it and resolves every open report of the smoke,
+   * RESTORE brings back a hidden or removed smoke and DISMISS closes an unfounded report, unhiding the smoke
+   * Unhiding a smoke also resolves its other pending reports, since the moderator has judged the smoke as a whole
+   * Any action clears the auto-hidden flag, since a moderator has now looked at the smoke
+   * The author is notified with the reason when their smoke is hidden or removed
+   */
+  async applyAction(
+    reportId: number,
+    createModerationActionDto: CreateModerationActionDto,
+    moderatorId: number,
+  ): Promise<ModerationActionResponseDto> {
+    const { action, reason } = createModerationActionDto;
+
+    const report = await this.prisma.report.findUnique({
+      where: { id: reportId },
+      include: {
+        smoke: { select: { id: true, title: true, authorId: true, deletedAt: true, hiddenAt: true, autoHidden: true } },
+      },
+    });
+
+    if (!report) {
+      throw new NotFoundException(`Report with ID ${reportId} not found`);
+    }
+
+    const { smoke } = report;
+
+    // Restoring is how a wrong decision is undone, so it is the only action allowed on resolved reports
+    if (action !== ModerationActionType.RESTORE && report.status === ReportStatus.RESOLVED) {
+      throw new BadRequestException(`Report with ID ${reportId} is already resolved`);
+    }
+
+    if ((action === ModerationActionType.HIDE || action === ModerationActionType.REMOVE) && smoke.deletedAt) {
+      throw new BadRequestException(`Smoke with ID ${smoke.id} is already removed`);
+    }
+
+    // Hiding an auto-hidden smoke confirms the automatic decision
+    if (action === ModerationActionType.HIDE && smoke.hiddenAt && !smoke.autoHidden) {
+      throw new BadRequestException(`Smoke with ID ${smoke.id} is already hidden`);
+    }
+
+    if (action === ModerationActionType.RESTORE && !smoke.deletedAt && !smoke.hiddenAt) {
+      throw new BadRequestException(`Smoke with ID ${smoke.id} is not hidden or removed`);
+    }
+
+    const now = new Date();
+    const handled = { resolutionNote: reason, handledById: moderatorId, handledAt: now };
+
+    return this.prisma.$transaction(async (tx) => {
+      const smokeChanges = this.smokeChangesFor(action, now, smoke, moderatorId);
+
+      if (smokeChanges) {
+        await tx.smoke.update({
+          where: { id: smoke.id },
+          data: smokeChanges,
+        });
+      }
+
+      const updatedReport = await tx.report.update({
+        where: { id: reportId },
+        data: { status: ACTION_REPORT_STATUS[action], ...handled },
+      });
+
+      if (action === ModerationActionType.REMOVE) {
+        await tx.report.updateMany({
+          where: { smokeId: smoke.id, id: { not: reportId }, status: { not: ReportStatus.RESOLVED } },
+          data: { status: ReportStatus.RESOLVED, ...handled },
+        });
+      } else if (smoke.hiddenAt && smokeChanges?.hiddenAt === null) {
+        // Reports left pending would still weigh past the auto-hide threshold, hiding the smoke again on the next one
+        await tx.report.updateMany({
+          where: { smokeId: smoke.id, id: { not: reportId }, status: ReportStatus.PENDING },
+          data: { status: ReportStatus.RESOLVED, ...handled },
+        });
+      }
+
+      await this.auditService.record(
+        {
+          actorId: moderatorId,
+          action: AuditAction.MODERATE,
+          entityType: AuditEntityType.SMOKE,
+          entityId: smoke.id,
+          before: { deletedAt: smoke.deletedAt, hiddenAt: smoke.hiddenAt, autoHidden: smoke.autoHidden },
+          after: { ...smokeChanges, action, reason, reportId, reportStatus: updatedReport.status },
+        },
+        tx,
+      );
+
+      const moderationAction = await tx.moderationAction.create({
+        data: {
+          action,
+          reason,
+          smokeId: smoke.id,
+          reportId,
+          moderatorId,
+        },
+      });
+
+      const notification = ACTION_NOTIFICATIONS[action];
+
+      if (notification) {
+        await this.notificationsService.notify(
+          {
+            userId: smoke.authorId,
+            type: notification.type,
+            smokeId: smoke.id,
+            message: `Your smoke "${smoke.title}" was ${notification.outcome}: ${reason}`,
+          },
+          tx,
+        );
+      }
+
+      return { ...moderationAction, report: updatedReport };
+    });
+  }
+
+  private smokeChangesFor(
+    action: ModerationActionType,
+    now: Date,
+    smoke: { hiddenAt: Date | null; autoHidden: boolean },
+    moderatorId: number,
+  ): Prisma.SmokeUncheckedUpdateInput | null {
+    switch (action) {
+      case ModerationActionType.HIDE:
+        return { hiddenAt: smoke.hiddenAt ?? now, autoHidden: false };
+      case ModerationActionType.REMOVE:
+        return { deletedAt: now, deletedById: moderatorId, autoHidden: false };
+      case ModerationActionType.RESTORE:
+        return { deletedAt: null, deletedById: null, hiddenAt: null, autoHidden: false };
+      case ModerationActionType.DISMISS:
+      default:
+        // A dismissed report means the smoke was fine, so undo a previous hide
+        return smoke.hiddenAt ? { hiddenAt: null, autoHidden: false } : null;
+    }
+  }
+
+  private decodeQueueCursor(raw: string): number {
+    let cursor: { offset?: unknown };
+
+    try {
+      cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    } catch {
+      throw new BadRequestException('Invalid pagination cursor');
+    }
+
+    if (!Number.isInteger(cursor?.offset) || (cursor.offset as number) < 0) {
+      throw new BadRequestException('Invalid pagination cursor');
+    }
+
+    return cursor.offset as number;
+  }
+
+  private toUserResponse(user: Pick<User, keyof typeof USER_SUMMARY_SELECT>): UserResponseDto {
+    return {
+      id: user.id,
+      steamId: user.steamId,
+      displayName: user.username, // Map username to displayName
+      avatarUrl: user.avatarUrl,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,14 @@
+/**
+ * When a new smoke is considered a repost of an existing one
+ */
+export interface DuplicateRules {
+  // Largest distance, in radar widths, between the landing (and throw) points of the same lineup
+  maxDistance: number;
+  // Reject smokes with the same video and timestamp as an existing one instead of only warning the author
+  blockExact: boolean;
+}
+
+export const DEFAULT_DUPLICATE_RULES: DuplicateRules = {
+  maxDistance: 0.02,
+  blockExact: true,
+};
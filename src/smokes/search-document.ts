@@ -0,0 +1,47 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Text of a smoke that is indexed for full-text search
+ */
+export interface SearchDocument {
+  title: string;
+  callout: string | null;
+  description: string | null;
+  mapName: string;
+}
+
+/**
+ * Lower-case the text and strip diacritics, so "Janela" matches "janéla" and "Fundão" matches "fundao"
+ * Applied to both indexed text and search terms, which keeps matching accent-insensitive without a database extension
+ */
+export function foldSearchText(text: string | null): string {
+  return (text ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Build the weighted tsvector of a smoke: title first, then callout and map name, then description
+ * The 'simple' configuration is used because titles mix Portuguese, English and in-game callouts
+ */
+export function searchVectorSql(document: SearchDocument): Prisma.Sql {
+  return Prisma.sql`
+    setweight(to_tsvector('simple', ${foldSearchText(document.title)}), 'A') ||
+    setweight(to_tsvector('simple', ${foldSearchText(document.callout)}), 'B') ||
+    setweight(to_tsvector('simple', ${foldSearchText(document.mapName)}), 'B') ||
+    setweight(to_tsvector('simple', ${foldSearchText(document.description)}), 'C')
+  `;
+}
+
+/**
+ * Turn free text into a prefix tsquery matching all of its words, e.g. "janela mid" -> "janela:* & mid:*"
+ * Returns null when the text has nothing searchable left
+ */
+export function toSearchQuery(text: string): string | null {
+  const terms = foldSearchText(text)
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length > 0);
+
+  return terms.length ? [...new Set(terms)].map((term) => `${term}:*`).join(' & ') : null;
+}
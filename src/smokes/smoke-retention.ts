@@ -0,0 +1,76 @@
+import { AuditAction, AuditEntityType, PrismaClient } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How long soft-deleted smokes can be restored and kept before they are purged
+ */
+export interface SmokeRetentionRules {
+  // Days after deleting a smoke during which its author can restore it
+  restoreGraceDays: number;
+  // Days after deletion when a smoke, its ratings and its reports are removed for good
+  purgeAfterDays: number;
+}
+
+export const DEFAULT_SMOKE_RETENTION: SmokeRetentionRules = {
+  restoreGraceDays: 30,
+  purgeAfterDays: 90,
+};
+
+/**
+ * Number of rows removed by a purge
+ */
+export interface PurgeResult {
+  smokes: number;
+  ratings: number;
+  reports: number;
+}
+
+/**
+ * Last moment the author can restore a smoke deleted at the given time
+ */
+export function restoreDeadline(deletedAt: Date, rules: SmokeRetentionRules): Date {
+  return new Date(deletedAt.getTime() + rules.restoreGraceDays * DAY_MS);
+}
+
+/**
+ * Hard-delete smokes that were soft-deleted more than `purgeAfterDays` ago, with a system DELETE audit entry each
+ * Shared by the scheduled job and the db-management script, so it only depends on a Prisma client
+ * and writes the audit entries itself rather than through AuditService
+ */
+export async function purgeDeletedSmokes(
+  prisma: PrismaClient,
+  purgeAfterDays: number,
+  now: Date = new Date(),
+): Promise<PurgeResult> {
+  const cutoff = new Date(now.getTime() - purgeAfterDays * DAY_MS);
+
+  return prisma.$transaction(async (tx) => {
+    const smokes = await tx.smoke.findMany({
+      where: { deletedAt: { lt: cutoff } },
+      select: { id: true, title: true, authorId: true, mapId: true, deletedAt: true, deletedById: true },
+    });
+    const smokeIds = smokes.map((smoke) => smoke.id);
+
+    if (!smokeIds.length) {
+      return { smokes: 0, ratings: 0, reports: 0 };
+    }
+
+    // Ratings and reports would cascade with the smoke, they are deleted first to report how many were removed
+    const ratings = await tx.rating.deleteMany({ where: { smokeId: { in: smokeIds } } });
+    const reports = await tx.report.deleteMany({ where: { smokeId: { in: smokeIds } } });
+    const deleted = await tx.smoke.deleteMany({ where: { id: { in: smokeIds } } });
+
+    await tx.auditLog.createMany({
+      data: smokes.map(({ id, ...smoke }) => ({
+        actorId: null,
+        action: AuditAction.DELETE,
+        entityType: AuditEntityType.SMOKE,
+        entityId: id,
+        before: { ...smoke, deletedAt: smoke.deletedAt.toISOString() },
+      })),
+    });
+
+    return { smokes: deleted.count, ratings: ratings.count, reports: reports.count };
+  });
+}
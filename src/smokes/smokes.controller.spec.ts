@@ -1,7 +1,10 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { GrenadeType, Role, TeamSide, VideoProvider } from '@prisma/client';
 import { SmokesController } from './smokes.controller';
 import { SmokesService } from './smokes.service';
 import { CreateSmokeDto } from '../common/dto/create-smoke.dto';
+import { SmokeSort } from '../common/dto/smoke-query.dto';
 import { SmokeResponseDto } from '../common/dto/smoke-response.dto';
 import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
 
@@ -11,23 +14,57 @@ describe('SmokesController', () => {
 
   const mockSmokesService = {
     findByMapId: jest.fn(),
+    search: jest.fn(),
+    findWithin: jest.fn(),
+    findById: jest.fn(),
     create: jest.fn(),
+    update: jest.fn(),
+    findRevisions: jest.fn(),
+    rollback: jest.fn(),
     delete: jest.fn(),
+    findDeleted: jest.fn(),
+    restore: jest.fn(),
+    purgeDeleted: jest.fn(),
   };
 
   const mockJwtPayload: JwtPayload = {
     sub: 1,
     steamId: '76561198000000000',
     username: 'testuser',
+    role: Role.USER,
   };
 
   const mockSmokeResponse: SmokeResponseDto = {
     id: 1,
     title: 'Test Smoke',
-    videoUrl: 'https://example.com/video',
+    description: null,
+    grenadeType: GrenadeType.SMOKE,
+    side: TeamSide.T,
+    callout: 'Window',
+    videoUrl: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
     timestamp: 30,
+    video: {
+      provider: VideoProvider.YOUTUBE,
+      videoId: 'dQw4w9WgXcQ',
+      startTime: 30,
+      watchUrl: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=30s',
+      embedUrl: 'https://www.youtube.com/embed/dQw4w9WgXcQ?start=30',
+    },
     x_coord: 100.5,
     y_coord: 200.5,
+    throw_x_coord: 620,
+    throw_y_coord: 710,
+    landingLayerId: null,
+    throwLayerId: null,
+    landingZoneId: null,
+    throwZoneId: null,
+    technique: {
+      stance: null,
+      movement: null,
+      mouseButton: null,
+      requiresJumpThrowBind: false,
+      tickrateSensitive: false,
+    },
     score: 5,
     createdAt: new Date(),
     updatedAt: new Date(),
@@ -42,7 +79,7 @@ describe('SmokesController', () => {
     map: {
       id: 1,
       name: 'de_dust2',
-      imageUrl: 'https://example.com/dust2.jpg',
+      thumbnail: 'https://example.com/dust2.jpg',
     },
   };
 
@@ -54,6 +91,10 @@ describe('SmokesController', () => {
           provide: SmokesService,
           useValue: mockSmokesService,
         },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn() },
+        },
       ],
     }).compile();
 
@@ -72,31 +113,116 @@ describe('SmokesController', () => {
   describe('getSmokesByMapId', () => {
     it('should return smokes for a valid map ID', async () => {
       const mapId = 1;
-      const expectedSmokes = [mockSmokeResponse];
+      const expectedSmokes = {
+        data: [mockSmokeResponse],
+        pagination: { limit: 20, hasMore: false, nextCursor: null },
+      };
 
       mockSmokesService.findByMapId.mockResolvedValue(expectedSmokes);
 
-      const result = await controller.getSmokesByMapId(mapId);
+      const result = await controller.getSmokesByMapId(mapId, {});
 
-      expect(service.findByMapId).toHaveBeenCalledWith(mapId);
+      expect(service.findByMapId).toHaveBeenCalledWith(mapId, {});
       expect(result).toEqual(expectedSmokes);
     });
 
+    it('should pass grenade type filters to the service', async () => {
+      const query = { type: [GrenadeType.MOLOTOV, GrenadeType.FLASHBANG] };
+
+      mockSmokesService.findByMapId.mockResolvedValue([]);
+
+      await controller.getSmokesByMapId(1, query);
+
+      expect(service.findByMapId).toHaveBeenCalledWith(1, query);
+    });
+
+    it('should pass sorting and pagination options to the service', async () => {
+      const query = { sort: SmokeSort.TRENDING, limit: 10, cursor: 'abc', minScore: 2 };
+
+      mockSmokesService.findByMapId.mockResolvedValue({ data: [], pagination: { limit: 10, hasMore: false, nextCursor: null } });
+
+      await controller.getSmokesByMapId(1, query);
+
+      expect(service.findByMapId).toHaveBeenCalledWith(1, query);
+    });
+
+    it('should pass side and callout filters to the service', async () => {
+      const query = { side: TeamSide.CT, callout: 'jungle' };
+
+      mockSmokesService.findByMapId.mockResolvedValue([]);
+
+      await controller.getSmokesByMapId(1, query);
+
+      expect(service.findByMapId).toHaveBeenCalledWith(1, query);
+    });
+
     it('should handle service errors', async () => {
       const mapId = 999;
       const error = new Error('Map not found');
 
       mockSmokesService.findByMapId.mockRejectedValue(error);
 
-      await expect(controller.getSmokesByMapId(mapId)).rejects.toThrow(error);
-      expect(service.findByMapId).toHaveBeenCalledWith(mapId);
+      await expect(controller.getSmokesByMapId(mapId, {})).rejects.toThrow(error);
+      expect(service.findByMapId).toHaveBeenCalledWith(mapId, {});
+    });
+  });
+
+  describe('searchSmokes', () => {
+    it('should pass the search query to the service', async () => {
+      const query = { q: 'janela', mapId: 1, limit: 10 };
+      const expected = {
+        data: [{ ...mockSmokeResponse, relevance: 0.3 }],
+        pagination: { limit: 10, hasMore: false, nextCursor: null },
+      };
+
+      mockSmokesService.search.mockResolvedValue(expected);
+
+      const result = await controller.searchSmokes(query);
+
+      expect(service.search).toHaveBeenCalledWith(query);
+      expect(result).toEqual(expected);
+    });
+  });
+
+  describe('getSmokesNearby', () => {
+    it('should pass the map id and region to the service', async () => {
+      const query = { x: 0.4, y: 0.6, radius: 0.05 };
+      const expected = [{ ...mockSmokeResponse, distance: 0.01 }];
+
+      mockSmokesService.findWithin.mockResolvedValue(expected);
+
+      const result = await controller.getSmokesNearby(1, query);
+
+      expect(service.findWithin).toHaveBeenCalledWith(1, query);
+      expect(result).toEqual(expected);
+    });
+  });
+
+  describe('getSmokeById', () => {
+    it('should return smoke details for anonymous requests', async () => {
+      const details = { ...mockSmokeResponse, upvotes: 6, downvotes: 1 };
+
+      mockSmokesService.findById.mockResolvedValue(details);
+
+      const result = await controller.getSmokeById(1, { user: null });
+
+      expect(service.findById).toHaveBeenCalledWith(1, undefined);
+      expect(result).toEqual(details);
+    });
+
+    it('should pass the authenticated user to personalise the response', async () => {
+      mockSmokesService.findById.mockResolvedValue({ ...mockSmokeResponse, upvotes: 6, downvotes: 1, userVote: 1 });
+
+      await controller.getSmokeById(1, { user: mockJwtPayload });
+
+      expect(service.findById).toHaveBeenCalledWith(1, mockJwtPayload.sub);
     });
   });
 
   describe('createSmoke', () => {
     const createSmokeDto: CreateSmokeDto = {
       title: 'Test Smoke',
-      videoUrl: 'https://example.com/video',
+      videoUrl: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
       timestamp: 30,
       x_coord: 100.5,
       y_coord: 200.5,
@@ -125,6 +251,46 @@ describe('SmokesController', () => {
     });
   });
 
+  describe('updateSmoke', () => {
+    it('should update a smoke with authenticated user', async () => {
+      const updateSmokeDto = { title: 'Fixed title' };
+      const mockRequest = { user: mockJwtPayload };
+
+      mockSmokesService.update.mockResolvedValue({ ...mockSmokeResponse, title: 'Fixed title' });
+
+      const result = await controller.updateSmoke(1, updateSmokeDto, mockRequest);
+
+      expect(service.update).toHaveBeenCalledWith(1, updateSmokeDto, mockJwtPayload.sub);
+      expect(result.title).toBe('Fixed title');
+    });
+  });
+
+  describe('getSmokeRevisions', () => {
+    it('should return the revision history for the authenticated user', async () => {
+      const mockRequest = { user: mockJwtPayload };
+
+      mockSmokesService.findRevisions.mockResolvedValue([]);
+
+      const result = await controller.getSmokeRevisions(1, mockRequest);
+
+      expect(service.findRevisions).toHaveBeenCalledWith(1, mockJwtPayload.sub, mockJwtPayload.role);
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('rollbackSmoke', () => {
+    it('should roll back a smoke to the given revision', async () => {
+      const mockRequest = { user: mockJwtPayload };
+
+      mockSmokesService.rollback.mockResolvedValue(mockSmokeResponse);
+
+      const result = await controller.rollbackSmoke(1, 10, mockRequest);
+
+      expect(service.rollback).toHaveBeenCalledWith(1, 10, mockJwtPayload.sub, mockJwtPayload.role);
+      expect(result).toEqual(mockSmokeResponse);
+    });
+  });
+
   describe('deleteSmoke', () => {
     it('should delete a smoke with authenticated user', async () => {
       const smokeId = 1;
@@ -134,7 +300,7 @@ describe('SmokesController', () => {
 
       const result = await controller.deleteSmoke(smokeId, mockRequest);
 
-      expect(service.delete).toHaveBeenCalledWith(smokeId, mockJwtPayload.sub);
+      expect(service.delete).toHaveBeenCalledWith(smokeId, mockJwtPayload.sub, Role.USER);
       expect(result).toBeUndefined();
     });
 
@@ -146,7 +312,42 @@ describe('SmokesController', () => {
       mockSmokesService.delete.mockRejectedValue(error);
 
       await expect(controller.deleteSmoke(smokeId, mockRequest)).rejects.toThrow(error);
-      expect(service.delete).toHaveBeenCalledWith(smokeId, mockJwtPayload.sub);
+      expect(service.delete).toHaveBeenCalledWith(smokeId, mockJwtPayload.sub, Role.USER);
+    });
+  });
+
+  describe('getDeletedSmokes', () => {
+    it('should list the deleted smokes of the authenticated user', async () => {
+      const deleted = [{ ...mockSmokeResponse, deletedAt: new Date(), restorableUntil: new Date() }];
+      mockSmokesService.findDeleted.mockResolvedValue(deleted);
+
+      const result = await controller.getDeletedSmokes({ user: mockJwtPayload });
+
+      expect(service.findDeleted).toHaveBeenCalledWith(mockJwtPayload.sub);
+      expect(result).toEqual(deleted);
+    });
+  });
+
+  describe('restoreSmoke', () => {
+    it('should restore a smoke with the caller\'s id and role', async () => {
+      const admin = { ...mockJwtPayload, role: Role.ADMIN };
+      mockSmokesService.restore.mockResolvedValue(mockSmokeResponse);
+
+      const result = await controller.restoreSmoke(1, { user: admin });
+
+      expect(service.restore).toHaveBeenCalledWith(1, admin.sub, Role.ADMIN);
+      expect(result).toEqual(mockSmokeResponse);
+    });
+  });
+
+  describe('purgeDeletedSmokes', () => {
+    it('should run the purge job', async () => {
+      mockSmokesService.purgeDeleted.mockResolvedValue({ smokes: 2, ratings: 5, reports: 1 });
+
+      const result = await controller.purgeDeletedSmokes();
+
+      expect(service.purgeDeleted).toHaveBeenCalled();
+      expect(result).toEqual({ smokes: 2, ratings: 5, reports: 1 });
     });
   });
-});
\ No newline at end of file
+});
@@ -7,15 +7,30 @@ import {
   HttpStatus,
   Param,
   ParseIntPipe,
+  Patch,
   Post,
+  Query,
   Request,
   UseGuards,
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
+import { CronSecretGuard } from '../auth/guards/cron-secret.guard';
 import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
 import { CreateSmokeDto } from '../common/dto/create-smoke.dto';
+import { UpdateSmokeDto } from '../common/dto/update-smoke.dto';
+import { SmokeQueryDto } from '../common/dto/smoke-query.dto';
+import { SmokeSearchQueryDto } from '../common/dto/smoke-search-query.dto';
+import { SmokeSpatialQueryDto } from '../common/dto/smoke-spatial-query.dto';
 import { SmokeResponseDto } from '../common/dto/smoke-response.dto';
+import { SmokeDetailResponseDto } from '../common/dto/smoke-detail-response.dto';
+import { PaginatedResponseDto } from '../common/dto/paginated-response.dto';
+import { SmokeRevisionResponseDto } from '../common/dto/smoke-revision-response.dto';
+import { SmokeSearchResultDto } from '../common/dto/smoke-search-result.dto';
+import { SmokeSpatialResultDto } from '../common/dto/smoke-spatial-result.dto';
+import { DeletedSmokeResponseDto, PurgeResultResponseDto } from '../common/dto/deleted-smoke-response.dto';
+import { CreatedSmokeResponseDto } from '../common/dto/created-smoke-response.dto';
 import { SmokesService } from './smokes.service';
 
 @ApiTags('smokes')
@@ -25,19 +40,116 @@ export class SmokesController {
 
   /**
    * GET /maps/:mapId/smokes
-   * Get all smokes for a specific map with calculated scores
+   * Get a page of smokes for a specific map with calculated scores
+   * Supports filtering by grenade type (?type=SMOKE,MOLOTOV), side (?side=T), callout (?callout=window),
+   * throw technique (?stance=, ?movement=, ?mouseButton=, ?jumpThrowBind=, ?tickrateSensitive=),
+   * author (?authorId=), date range (?createdFrom=, ?createdTo=) and minimum score (?minScore=)
+   * Sorted by ?sort=top|new|controversial|trending and paginated with ?limit= and ?cursor=
    * Public endpoint - no authentication required
    */
   @Get('maps/:mapId/smokes')
+  @ApiOperation({ summary: 'List smoke strategies for a map' })
+  @ApiResponse({ status: 200, description: 'Page of smoke strategies with pagination metadata' })
+  @ApiResponse({ status: 400, description: 'Invalid filters or pagination cursor' })
+  @ApiResponse({ status: 404, description: 'Map not found' })
   async getSmokesByMapId(
     @Param('mapId', ParseIntPipe) mapId: number,
-  ): Promise<SmokeResponseDto[]> {
-    return this.smokesService.findByMapId(mapId);
+    @Query() query: SmokeQueryDto,
+  ): Promise<PaginatedResponseDto<SmokeResponseDto>> {
+    return this.smokesService.findByMapId(mapId, query);
+  }
+
+  /**
+   * GET /maps/:mapId/smokes/nearby
+   * Find the smokes thrown from (?point=throw, default) or landing in (?point=landing) a region of the radar:
+   * a radius around a point (?x=&y=&radius=), a bounding box (?minX=&minY=&maxX=&maxY=)
+   * or a polygon (?polygon=x1,y1;x2,y2;x3,y3), in normalised radar coordinates
+   * Ordered by distance from x/y or from the center of the region, optionally limited to one layer (?layerId=)
+   * Public endpoint - no authentication required
+   */
+  @Get('maps/:mapId/smokes/nearby')
+  @ApiOperation({ summary: 'Find smoke strategies near a point or inside a region' })
+  @ApiResponse({ status: 200, description: 'Matching smoke strategies, closest first' })
+  @ApiResponse({ status: 400, description: 'Invalid or ambiguous region' })
+  @ApiResponse({ status: 404, description: 'Map not found' })
+  async getSmokesNearby(
+    @Param('mapId', ParseIntPipe) mapId: number,
+    @Query() query: SmokeSpatialQueryDto,
+  ): Promise<SmokeSpatialResultDto[]> {
+    return this.smokesService.findWithin(mapId, query);
+  }
+
+  /**
+   * GET /smokes/search?q=
+   * Full-text search across smoke titles, descriptions, callouts and map names, ignoring accents
+   * Ranked by relevance blended with the rating score, optionally limited to one map (?mapId=)
+   * and paginated with ?limit= and ?cursor=
+   * Public endpoint - no authentication required
+   * Declared before /smokes/:id so "search" is not parsed as an id
+   */
+  @Get('smokes/search')
+  @ApiOperation({ summary: 'Search smoke strategies' })
+  @ApiResponse({ status: 200, description: 'Page of matching smoke strategies, most relevant first' })
+  @ApiResponse({ status: 400, description: 'Invalid search query or pagination cursor' })
+  async searchSmokes(@Query() query: SmokeSearchQueryDto): Promise<PaginatedResponseDto<SmokeSearchResultDto>> {
+    return this.smokesService.search(query);
+  }
+
+  /**
+   * GET /smokes/deleted
+   * List the caller's deleted smoke strategies with the date until which each can be restored
+   * Protected endpoint - requires JWT authentication
+   * Declared before /smokes/:id so "deleted" is not parsed as an id
+   */
+  @Get('smokes/deleted')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List my deleted smoke strategies' })
+  @ApiResponse({ status: 200, description: 'Deleted smoke strategies, most recently deleted first' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  async getDeletedSmokes(@Request() req: { user: JwtPayload }): Promise<DeletedSmokeResponseDto[]> {
+    const userId = req.user.sub;
+    return this.smokesService.findDeleted(userId);
+  }
+
+  /**
+   * GET /cron/purge-deleted-smokes
+   * Permanently remove smokes deleted longer ago than the retention window, with their ratings and reports
+   * Scheduled job endpoint - requires the CRON_SECRET bearer token
+   */
+  @Get('cron/purge-deleted-smokes')
+  @UseGuards(CronSecretGuard)
+  @ApiOperation({ summary: 'Purge deleted smoke strategies past the retention window' })
+  @ApiResponse({ status: 200, description: 'Number of purged smokes, ratings and reports' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing cron secret' })
+  async purgeDeletedSmokes(): Promise<PurgeResultResponseDto> {
+    return this.smokesService.purgeDeleted();
+  }
+
+  /**
+   * GET /smokes/:id
+   * Get a single smoke strategy with its score and vote breakdown
+   * Public endpoint - when authenticated, also returns the caller's vote and report status
+   */
+  @Get('smokes/:id')
+  @UseGuards(OptionalJwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get a smoke strategy' })
+  @ApiResponse({ status: 200, description: 'Smoke strategy details' })
+  @ApiResponse({ status: 404, description: 'Smoke not found or deleted' })
+  async getSmokeById(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: { user?: JwtPayload | null },
+  ): Promise<SmokeDetailResponseDto> {
+    const viewerId = req.user?.sub;
+    return this.smokesService.findById(id, viewerId);
   }
 
   /**
    * POST /smokes
    * Create a new smoke strategy
+   * The response lists existing smokes that look like the same lineup (possibleDuplicates) so the author can be warned,
+   * reposting the same video at the same timestamp is rejected with the ids of the existing smokes
    * Protected endpoint - requires JWT authentication
    */
   @Post('smokes')
@@ -46,19 +158,105 @@ export class SmokesController {
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({ summary: 'Create a new smoke strategy' })
   @ApiBody({ type: CreateSmokeDto })
-  @ApiResponse({ status: 201, description: 'Smoke strategy created successfully' })
+  @ApiResponse({ status: 201, description: 'Smoke strategy created successfully, with possible duplicates' })
   @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 409, description: 'The same video and timestamp was already posted on this map' })
   async createSmoke(
     @Body() createSmokeDto: CreateSmokeDto,
     @Request() req: { user: JwtPayload },
-  ): Promise<SmokeResponseDto> {
+  ): Promise<CreatedSmokeResponseDto> {
     const authorId = req.user.sub;
     return this.smokesService.create(createSmokeDto, authorId);
   }
 
+  /**
+   * PATCH /smokes/:id
+   * Edit a smoke strategy (only owner can edit)
+   * Protected endpoint - requires JWT authentication
+   */
+  @Patch('smokes/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Edit a smoke strategy' })
+  @ApiBody({ type: UpdateSmokeDto })
+  @ApiResponse({ status: 200, description: 'Smoke strategy updated successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Only the owner can edit the smoke strategy' })
+  async updateSmoke(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateSmokeDto: UpdateSmokeDto,
+    @Request() req: { user: JwtPayload },
+  ): Promise<SmokeResponseDto> {
+    const userId = req.user.sub;
+    return this.smokesService.update(id, updateSmokeDto, userId);
+  }
+
+  /**
+   * GET /smokes/:id/revisions
+   * List previous versions of a smoke strategy with the changes of each edit
+   * Protected endpoint - only the author, a moderator or an admin can view the history
+   */
+  @Get('smokes/:id/revisions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List the revision history of a smoke strategy' })
+  @ApiResponse({ status: 200, description: 'Revision history, newest first' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Only the owner or a moderator can view the revision history' })
+  async getSmokeRevisions(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: { user: JwtPayload },
+  ): Promise<SmokeRevisionResponseDto[]> {
+    const userId = req.user.sub;
+    return this.smokesService.findRevisions(id, userId, req.user.role);
+  }
+
+  /**
+   * POST /smokes/:id/revisions/:revisionId/rollback
+   * Restore a smoke strategy to one of its previous revisions
+   * Protected endpoint - only the author, a moderator or an admin can roll back
+   */
+  @Post('smokes/:id/revisions/:revisionId/rollback')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Roll a smoke strategy back to a previous revision' })
+  @ApiResponse({ status: 200, description: 'Smoke strategy restored successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Only the owner or a moderator can roll back the smoke' })
+  @ApiResponse({ status: 404, description: 'Smoke or revision not found' })
+  async rollbackSmoke(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('revisionId', ParseIntPipe) revisionId: number,
+    @Request() req: { user: JwtPayload },
+  ): Promise<SmokeResponseDto> {
+    const userId = req.user.sub;
+    return this.smokesService.rollback(id, revisionId, userId, req.user.role);
+  }
+
+  /**
+   * POST /smokes/:id/restore
+   * Restore a deleted smoke strategy
+   * Protected endpoint - authors can restore smokes they deleted within the grace period, admins any smoke
+   */
+  @Post('smokes/:id/restore')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Restore a deleted smoke strategy' })
+  @ApiResponse({ status: 200, description: 'Smoke strategy restored successfully' })
+  @ApiResponse({ status: 400, description: 'The restore grace period has expired' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Only the author or an admin can restore the smoke strategy' })
+  @ApiResponse({ status: 404, description: 'Deleted smoke not found' })
+  async restoreSmoke(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: { user: JwtPayload },
+  ): Promise<SmokeResponseDto> {
+    const userId = req.user.sub;
+    return this.smokesService.restore(id, userId, req.user.role);
+  }
+
   /**
    * DELETE /smokes/:id
-   * Delete a smoke strategy (only owner can delete)
+   * Delete a smoke strategy (only the owner, a moderator or an admin can delete)
    * Protected endpoint - requires JWT authentication
    */
   @Delete('smokes/:id')
@@ -68,12 +266,12 @@ export class SmokesController {
   @ApiOperation({ summary: 'Delete a smoke strategy' })
   @ApiResponse({ status: 204, description: 'Smoke strategy deleted successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Only the owner can delete the smoke strategy' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Only the owner or a moderator can delete the smoke strategy' })
   async deleteSmoke(
     @Param('id', ParseIntPipe) id: number,
     @Request() req: { user: JwtPayload },
   ): Promise<void> {
     const userId = req.user.sub;
-    return this.smokesService.delete(id, userId);
+    return this.smokesService.delete(id, userId, req.user.role);
   }
 }
\ No newline at end of file
@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { SmokesService } from './smokes.service';
 import { SmokesController } from './smokes.controller';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
+  imports: [AuditModule],
   controllers: [SmokesController],
   providers: [SmokesService],
   exports: [SmokesService],
@@ -1,17 +1,39 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { NotFoundException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException, ForbiddenException, BadRequestException, ConflictException } from '@nestjs/common';
+import {
+  AuditAction,
+  AuditEntityType,
+  GrenadeType,
+  MouseButton,
+  Prisma,
+  Role,
+  TeamSide,
+  ThrowStance,
+  VideoProvider,
+} from '@prisma/client';
 import { SmokesService } from './smokes.service';
 import { PrismaService } from '../prisma/prisma.service';
-import { CreateSmokeDto } from '../common/dto/create-smoke.dto';
+import { AuditService } from '../audit/audit.service';
+import { CoordinateSpace, CreateSmokeDto } from '../common/dto/create-smoke.dto';
+import { SmokeSort } from '../common/dto/smoke-query.dto';
+import { SpatialTarget } from '../common/dto/smoke-spatial-query.dto';
+import { DuplicateMatch } from '../common/dto/created-smoke-response.dto';
 
 describe('SmokesService', () => {
   let service: SmokesService;
   let prismaService: any;
+  let auditService: { record: jest.Mock };
 
   const mockMap = {
     id: 1,
     name: 'Dust2',
-    imageUrl: 'https://example.com/dust2.jpg',
+    thumbnail: 'https://example.com/dust2.jpg',
+    radarWidth: 1024,
+    radarHeight: 1024,
+    radarPosX: -2476,
+    radarPosY: 3239,
+    radarScale: 4.4,
   };
 
   const mockUser = {
@@ -26,10 +48,23 @@ describe('SmokesService', () => {
   const mockSmoke = {
     id: 1,
     title: 'Xbox Smoke',
-    videoUrl: 'https://youtube.com/watch?v=test',
+    description: null,
+    grenadeType: GrenadeType.SMOKE,
+    side: TeamSide.BOTH,
+    callout: 'Xbox',
+    videoUrl: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    videoProvider: VideoProvider.YOUTUBE,
+    videoId: 'dQw4w9WgXcQ',
     timestamp: 30,
-    x_coord: 100.5,
-    y_coord: 200.5,
+    x_coord: 0.25,
+    y_coord: 0.5,
+    throw_x_coord: null,
+    throw_y_coord: null,
+    throwStance: null,
+    throwMovement: null,
+    mouseButton: null,
+    requiresJumpThrowBind: false,
+    tickrateSensitive: false,
     createdAt: new Date(),
     updatedAt: new Date(),
     authorId: 1,
@@ -38,10 +73,10 @@ describe('SmokesService', () => {
 
   const mockCreateSmokeDto: CreateSmokeDto = {
     title: 'Xbox Smoke',
-    videoUrl: 'https://youtube.com/watch?v=test',
+    videoUrl: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
     timestamp: 30,
-    x_coord: 100.5,
-    y_coord: 200.5,
+    x_coord: 0.25,
+    y_coord: 0.5,
     mapId: 1,
   };
 
@@ -49,17 +84,52 @@ describe('SmokesService', () => {
     const mockPrismaService = {
       map: {
         findUnique: jest.fn(),
+        findMany: jest.fn(),
       },
       user: {
         findUnique: jest.fn(),
+        findMany: jest.fn(),
       },
       smoke: {
         findUnique: jest.fn(),
+        findMany: jest.fn(),
         create: jest.fn(),
+        update: jest.fn(),
         delete: jest.fn(),
+        deleteMany: jest.fn(),
       },
-      $queryRaw: jest.fn(),
+      smokeRevision: {
+        findMany: jest.fn(),
+        findUnique: jest.fn(),
+        aggregate: jest.fn(),
+        create: jest.fn(),
+      },
+      rating: {
+        aggregate: jest.fn(),
+        groupBy: jest.fn(),
+        findUnique: jest.fn(),
+        deleteMany: jest.fn(),
+      },
+      report: {
+        findUnique: jest.fn(),
+        deleteMany: jest.fn(),
+      },
+      radarLayer: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      calloutZone: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      auditLog: {
+        createMany: jest.fn(),
+      },
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      $executeRaw: jest.fn(),
+      $transaction: jest.fn(),
     };
+    mockPrismaService.$transaction.mockImplementation((callback) => callback(mockPrismaService));
+
+    auditService = { record: jest.fn() };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -68,6 +138,14 @@ describe('SmokesService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: AuditService,
+          useValue: auditService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: unknown) => defaultValue) },
+        },
       ],
     }).compile();
 
@@ -75,6 +153,14 @@ describe('SmokesService', () => {
     prismaService = module.get(PrismaService);
   });
 
+  /**
+   * Rebuild the last raw query from its tagged template call, including nested fragments
+   */
+  const lastQuery = () => {
+    const [strings, ...values] = prismaService.$queryRaw.mock.calls[0];
+    return Prisma.sql(strings, ...values);
+  };
+
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
@@ -92,8 +178,7 @@ describe('SmokesService', () => {
 
       prismaService.map.findUnique.mockResolvedValue(mockMap);
       prismaService.$queryRaw.mockResolvedValue(mockRawSmokes);
-      prismaService.user.findUnique.mockResolvedValue(mockUser);
-      prismaService.map.findUnique.mockResolvedValueOnce(mockMap); // For the second call
+      prismaService.user.findMany.mockResolvedValue([mockUser]);
 
       // Act
       const result = await service.findByMapId(mapId);
@@ -101,9 +186,22 @@ describe('SmokesService', () => {
       // Assert
       expect(prismaService.map.findUnique).toHaveBeenCalledWith({
         where: { id: mapId },
+        select: { id: true, name: true, thumbnail: true },
       });
-      expect(result).toHaveLength(1);
-      expect(result[0]).toMatchObject({
+      expect(prismaService.user.findMany).toHaveBeenCalledWith({
+        where: { id: { in: [mockUser.id] } },
+        select: {
+          id: true,
+          steamId: true,
+          username: true,
+          avatarUrl: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
+      expect(result.data).toHaveLength(1);
+      expect(result.pagination).toEqual({ limit: 20, hasMore: false, nextCursor: null });
+      expect(result.data[0]).toMatchObject({
         id: mockSmoke.id,
         title: mockSmoke.title,
         score: 5, // BigInt converted to number
@@ -126,7 +224,7 @@ describe('SmokesService', () => {
       );
     });
 
-    it('should return empty array when map has no smokes', async () => {
+    it('should return an empty page when map has no smokes', async () => {
       // Arrange
       const mapId = 1;
       prismaService.map.findUnique.mockResolvedValue(mockMap);
@@ -136,7 +234,286 @@ describe('SmokesService', () => {
       const result = await service.findByMapId(mapId);
 
       // Assert
-      expect(result).toEqual([]);
+      expect(result).toEqual({ data: [], pagination: { limit: 20, hasMore: false, nextCursor: null } });
+      expect(prismaService.user.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should fetch one extra row and return a cursor when more pages exist', async () => {
+      // Arrange
+      const rows = [3, 2, 1].map((id) => ({ ...mockSmoke, id, score: BigInt(id), sort_value: id }));
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue(rows);
+      prismaService.user.findMany.mockResolvedValue([mockUser]);
+
+      // Act
+      const result = await service.findByMapId(1, { limit: 2 });
+
+      // Assert
+      expect(lastQuery().values).toContain(3); // limit + 1
+      expect(result.data.map((smoke) => smoke.id)).toEqual([3, 2]);
+      expect(result.pagination.hasMore).toBe(true);
+      expect(JSON.parse(Buffer.from(result.pagination.nextCursor, 'base64url').toString())).toEqual({
+        sort: SmokeSort.TOP,
+        value: 2,
+        id: 2,
+      });
+    });
+
+    it('should continue after the cursor position', async () => {
+      // Arrange
+      const cursor = Buffer.from(JSON.stringify({ sort: SmokeSort.NEW, value: 42, id: 42 })).toString('base64url');
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([]);
+
+      // Act
+      await service.findByMapId(1, { sort: SmokeSort.NEW, cursor });
+
+      // Assert
+      const query = lastQuery();
+      expect(query.sql).toContain('(sort_value, id) < (');
+      expect(query.values).toEqual(expect.arrayContaining([42]));
+    });
+
+    it('should reject a cursor from another sort order', async () => {
+      // Arrange
+      const cursor = Buffer.from(JSON.stringify({ sort: SmokeSort.TOP, value: 5, id: 7 })).toString('base64url');
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+
+      // Act & Assert
+      await expect(service.findByMapId(1, { sort: SmokeSort.NEW, cursor })).rejects.toThrow(
+        new BadRequestException('Invalid pagination cursor'),
+      );
+      await expect(service.findByMapId(1, { cursor: 'not-a-cursor' })).rejects.toThrow(BadRequestException);
+      expect(prismaService.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should keep the trending reference time across pages', async () => {
+      // Arrange
+      const asOf = '2025-06-01T12:00:00.000Z';
+      const cursor = Buffer.from(JSON.stringify({ sort: SmokeSort.TRENDING, value: 0.5, id: 9, asOf })).toString(
+        'base64url',
+      );
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([
+        { ...mockSmoke, id: 8, score: BigInt(1), sort_value: 0.4 },
+        { ...mockSmoke, id: 7, score: BigInt(1), sort_value: 0.3 },
+      ]);
+      prismaService.user.findMany.mockResolvedValue([mockUser]);
+
+      // Act
+      const result = await service.findByMapId(1, { sort: SmokeSort.TRENDING, cursor, limit: 1 });
+
+      // Assert
+      expect(lastQuery().values).toContainEqual(new Date(asOf));
+      expect(JSON.parse(Buffer.from(result.pagination.nextCursor, 'base64url').toString())).toEqual({
+        sort: SmokeSort.TRENDING,
+        value: 0.4,
+        id: 8,
+        asOf,
+      });
+    });
+
+    it('should use the ranking expression of the selected sort', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([]);
+
+      // Act
+      await service.findByMapId(1, { sort: SmokeSort.CONTROVERSIAL });
+
+      // Assert
+      expect(lastQuery().sql).toContain('LEAST(upvotes, downvotes)');
+    });
+
+    it('should filter by author, date range and minimum score', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([]);
+
+      // Act
+      await service.findByMapId(1, {
+        authorId: 4,
+        createdFrom: '2025-01-01',
+        createdTo: '2025-02-01',
+        minScore: 3,
+      });
+
+      // Assert
+      const query = lastQuery();
+      expect(query.sql).toContain('s."authorId" = ');
+      expect(query.sql).toContain('s."createdAt" >= ');
+      expect(query.sql).toContain('s."createdAt" <= ');
+      expect(query.sql).toContain('AND score >= ');
+      expect(query.values).toEqual(
+        expect.arrayContaining([4, new Date('2025-01-01'), new Date('2025-02-01'), 3]),
+      );
+    });
+
+    it('should filter by grenade types when requested', async () => {
+      // Arrange
+      const mapId = 1;
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([]);
+
+      // Act
+      await service.findByMapId(mapId, { type: [GrenadeType.MOLOTOV, GrenadeType.FLASHBANG] });
+
+      // Assert
+      const [, , , filters] = prismaService.$queryRaw.mock.calls[0];
+      expect(filters.sql).toContain('"grenadeType"');
+      expect(filters.values).toEqual([GrenadeType.MOLOTOV, GrenadeType.FLASHBANG]);
+    });
+
+    it('should include lineups for both sides when filtering by side', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([]);
+
+      // Act
+      await service.findByMapId(1, { side: TeamSide.T });
+
+      // Assert
+      const [, , , filters] = prismaService.$queryRaw.mock.calls[0];
+      expect(filters.sql).toContain('s.side');
+      expect(filters.values).toEqual([TeamSide.T, TeamSide.BOTH]);
+    });
+
+    it('should match callouts case-insensitively with escaped wildcards', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([]);
+
+      // Act
+      await service.findByMapId(1, { callout: 'ct_cross' });
+
+      // Assert
+      const [, , , filters] = prismaService.$queryRaw.mock.calls[0];
+      expect(filters.sql).toContain('ILIKE');
+      expect(filters.values).toEqual(['%ct\\_cross%']);
+    });
+
+    it('should filter by throw technique when requested', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([]);
+
+      // Act
+      await service.findByMapId(1, {
+        stance: [ThrowStance.STANDING, ThrowStance.CROUCHING],
+        mouseButton: [MouseButton.LEFT],
+        jumpThrowBind: false,
+      });
+
+      // Assert
+      const [, , , filters] = prismaService.$queryRaw.mock.calls[0];
+      expect(filters.sql).toContain('"throwStance"');
+      expect(filters.sql).toContain('"mouseButton"');
+      expect(filters.sql).toContain('"requiresJumpThrowBind"');
+      expect(filters.sql).not.toContain('"throwMovement"');
+      expect(filters.values).toEqual([ThrowStance.STANDING, ThrowStance.CROUCHING, MouseButton.LEFT, false]);
+    });
+
+    it('should filter by radar layer on either end of the lineup', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([]);
+
+      // Act
+      await service.findByMapId(1, { layerId: 3 });
+
+      // Assert
+      const [, , , filters] = prismaService.$queryRaw.mock.calls[0];
+      expect(filters.sql).toContain('"landingLayerId"');
+      expect(filters.sql).toContain('"throwLayerId"');
+      expect(filters.values).toEqual([3, 3]);
+    });
+
+    it('should filter by landing and throw callout zones', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([]);
+
+      // Act
+      await service.findByMapId(1, { landingZoneId: 4, throwZoneId: 7 });
+
+      // Assert
+      const [, , , filters] = prismaService.$queryRaw.mock.calls[0];
+      expect(filters.sql).toContain('s."landingZoneId" = ');
+      expect(filters.sql).toContain('s."throwZoneId" = ');
+      expect(filters.values).toEqual([4, 7]);
+    });
+
+    it('should not filter by default', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([]);
+
+      // Act
+      await service.findByMapId(1);
+
+      // Assert
+      const [, , , filters] = prismaService.$queryRaw.mock.calls[0];
+      expect(filters.values).toEqual([]);
+    });
+
+    it('should exclude deleted and hidden smokes', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([]);
+
+      // Act
+      await service.findByMapId(1);
+
+      // Assert
+      expect(lastQuery().sql).toContain('s."deletedAt" IS NULL AND s."hiddenAt" IS NULL');
+    });
+
+    describe('query count', () => {
+      /**
+       * Seed the mocked database with `count` smokes spread over a pool of authors
+       * and return how many database calls listing them takes
+       */
+      const countQueriesFor = async (count: number) => {
+        const authors = Array.from({ length: 25 }, (_, index) => ({ ...mockUser, id: index + 1 }));
+        const smokes = Array.from({ length: count }, (_, index) => ({
+          ...mockSmoke,
+          id: index + 1,
+          authorId: (index % authors.length) + 1,
+          score: BigInt(count - index),
+          sort_value: count - index,
+        }));
+
+        prismaService.map.findUnique.mockResolvedValue(mockMap);
+        prismaService.$queryRaw.mockResolvedValue(smokes);
+        prismaService.user.findMany.mockImplementation(({ where }) =>
+          Promise.resolve(authors.filter((author) => where.id.in.includes(author.id))),
+        );
+
+        const result = await service.findByMapId(1, { limit: 100 });
+
+        const queries = [
+          prismaService.map.findUnique,
+          prismaService.user.findUnique,
+          prismaService.user.findMany,
+          prismaService.$queryRaw,
+        ].reduce((total, mock) => total + mock.mock.calls.length, 0);
+
+        jest.clearAllMocks();
+
+        return { queries, result };
+      };
+
+      // A 500 smoke map used to issue 1000+ queries; a full 100 smoke page must cost the same as a tiny one
+      it('should not scale with the number of smokes returned', async () => {
+        const small = await countQueriesFor(5);
+        const large = await countQueriesFor(500);
+
+        expect(small.result.data).toHaveLength(5);
+        expect(large.result.data).toHaveLength(100);
+        expect(large.result.data.every((smoke) => smoke.author.id === ((smoke.id - 1) % 25) + 1)).toBe(true);
+        expect(small.queries).toBe(3);
+        expect(large.queries).toBe(small.queries);
+      });
     });
 
     it('should handle smokes with zero score', async () => {
@@ -151,155 +528,1546 @@ describe('SmokesService', () => {
 
       prismaService.map.findUnique.mockResolvedValue(mockMap);
       prismaService.$queryRaw.mockResolvedValue(mockRawSmokes);
-      prismaService.user.findUnique.mockResolvedValue(mockUser);
-      prismaService.map.findUnique.mockResolvedValueOnce(mockMap);
+      prismaService.user.findMany.mockResolvedValue([mockUser]);
 
       // Act
       const result = await service.findByMapId(mapId);
 
       // Assert
-      expect(result[0].score).toBe(0);
+      expect(result.data[0].score).toBe(0);
     });
   });
 
-  describe('create', () => {
-    it('should create smoke successfully with valid data', async () => {
-      // Arrange
-      const authorId = 1;
-      const createdSmoke = {
-        ...mockSmoke,
-        author: mockUser,
-        map: mockMap,
-      };
+  describe('search', () => {
+    const searchRow = {
+      ...mockSmoke,
+      title: 'Smoke janela',
+      score: BigInt(4),
+      sort_value: 0.42,
+    };
 
-      prismaService.map.findUnique.mockResolvedValue(mockMap);
-      prismaService.smoke.create.mockResolvedValue(createdSmoke);
+    it('should match folded prefix terms and return ranked results with authors and maps', async () => {
+      // Arrange
+      prismaService.$queryRaw.mockResolvedValue([searchRow]);
+      prismaService.user.findMany.mockResolvedValue([mockUser]);
+      prismaService.map.findMany.mockResolvedValue([mockMap]);
 
       // Act
-      const result = await service.create(mockCreateSmokeDto, authorId);
+      const result = await service.search({ q: 'Janéla  MIRAGE' });
 
       // Assert
-      expect(prismaService.map.findUnique).toHaveBeenCalledWith({
-        where: { id: mockCreateSmokeDto.mapId },
+      const query = lastQuery();
+      expect(query.sql).toContain(`to_tsquery('simple',`);
+      expect(query.values).toContain('janela:* & mirage:*');
+      expect(query.values).toContain(21);
+      expect(prismaService.map.findMany).toHaveBeenCalledWith({
+        where: { id: { in: [1] } },
+        select: { id: true, name: true, thumbnail: true },
       });
-      expect(prismaService.smoke.create).toHaveBeenCalledWith({
-        data: {
-          title: mockCreateSmokeDto.title,
-          videoUrl: mockCreateSmokeDto.videoUrl,
-          timestamp: mockCreateSmokeDto.timestamp,
-          x_coord: mockCreateSmokeDto.x_coord,
-          y_coord: mockCreateSmokeDto.y_coord,
-          authorId,
-          mapId: mockCreateSmokeDto.mapId,
-        },
-        include: {
-          author: {
-            select: {
-              id: true,
-              steamId: true,
-              username: true,
-              avatarUrl: true,
-              createdAt: true,
-              updatedAt: true,
-            },
-          },
-          map: {
-            select: {
-              id: true,
-              name: true,
-              imageUrl: true,
-            },
-          },
-        },
+      expect(result.data).toHaveLength(1);
+      expect(result.data[0]).toMatchObject({
+        id: 1,
+        title: 'Smoke janela',
+        score: 4,
+        relevance: 0.42,
+        author: { displayName: mockUser.username },
+        map: mockMap,
       });
-      expect(result.score).toBe(0); // New smoke should have score 0
-      expect(result.author.displayName).toBe(mockUser.username);
+      expect(result.pagination).toEqual({ limit: 20, hasMore: false, nextCursor: null });
     });
 
-    it('should throw NotFoundException for invalid map', async () => {
+    it('should restrict results to a map when requested', async () => {
       // Arrange
-      const authorId = 1;
-      prismaService.map.findUnique.mockResolvedValue(null);
+      prismaService.$queryRaw.mockResolvedValue([]);
 
-      // Act & Assert
-      await expect(service.create(mockCreateSmokeDto, authorId)).rejects.toThrow(
-        new NotFoundException(`Map with ID ${mockCreateSmokeDto.mapId} not found`),
-      );
+      // Act
+      await service.search({ q: 'window', mapId: 3 });
+
+      // Assert
+      const query = lastQuery();
+      expect(query.sql).toContain('s."mapId" = ?');
+      expect(query.values).toContain(3);
+      expect(prismaService.user.findMany).not.toHaveBeenCalled();
+      expect(prismaService.map.findMany).not.toHaveBeenCalled();
     });
-  });
 
-  describe('delete', () => {
-    it('should delete smoke successfully when user owns it', async () => {
+    it('should return a relevance cursor when more results exist', async () => {
       // Arrange
-      const smokeId = 1;
-      const userId = 1;
-      const ownedSmoke = {
-        id: smokeId,
-        authorId: userId,
-      };
-
-      prismaService.smoke.findUnique.mockResolvedValue(ownedSmoke);
-      prismaService.smoke.delete.mockResolvedValue(mockSmoke);
+      prismaService.$queryRaw.mockResolvedValue([
+        { ...searchRow, id: 5, sort_value: 0.9 },
+        { ...searchRow, id: 4, sort_value: 0.5 },
+      ]);
+      prismaService.user.findMany.mockResolvedValue([mockUser]);
+      prismaService.map.findMany.mockResolvedValue([mockMap]);
 
       // Act
-      await service.delete(smokeId, userId);
+      const result = await service.search({ q: 'window', limit: 1 });
 
       // Assert
-      expect(prismaService.smoke.findUnique).toHaveBeenCalledWith({
-        where: { id: smokeId },
-        select: {
-          id: true,
-          authorId: true,
-        },
-      });
-      expect(prismaService.smoke.delete).toHaveBeenCalledWith({
-        where: { id: smokeId },
+      expect(result.data).toHaveLength(1);
+      expect(result.pagination.hasMore).toBe(true);
+      expect(JSON.parse(Buffer.from(result.pagination.nextCursor, 'base64url').toString())).toEqual({
+        sort: 'relevance',
+        value: 0.9,
+        id: 5,
       });
     });
 
-    it('should throw NotFoundException for non-existent smoke', async () => {
+    it('should reject a cursor from the map listing', async () => {
       // Arrange
-      const smokeId = 999;
-      const userId = 1;
-      prismaService.smoke.findUnique.mockResolvedValue(null);
+      const cursor = Buffer.from(JSON.stringify({ sort: SmokeSort.TOP, value: 5, id: 7 })).toString('base64url');
 
       // Act & Assert
-      await expect(service.delete(smokeId, userId)).rejects.toThrow(
-        new NotFoundException(`Smoke with ID ${smokeId} not found`),
+      await expect(service.search({ q: 'window', cursor })).rejects.toThrow(
+        new BadRequestException('Invalid pagination cursor'),
       );
     });
 
-    it('should throw ForbiddenException when user does not own smoke', async () => {
+    it('should return an empty page without querying when nothing is searchable', async () => {
+      // Act
+      const result = await service.search({ q: '!!' });
+
+      // Assert
+      expect(prismaService.$queryRaw).not.toHaveBeenCalled();
+      expect(result).toEqual({ data: [], pagination: { limit: 20, hasMore: false, nextCursor: null } });
+    });
+  });
+
+  describe('findWithin', () => {
+    const nearbyRow = { ...mockSmoke, score: BigInt(2), sort_value: 0.012 };
+
+    it('should return the smokes thrown within the radius, closest first', async () => {
       // Arrange
-      const smokeId = 1;
-      const userId = 2; // Different user
-      const otherUserSmoke = {
-        id: smokeId,
-        authorId: 1, // Owned by user 1
-      };
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([nearbyRow]);
+      prismaService.user.findMany.mockResolvedValue([mockUser]);
 
-      prismaService.smoke.findUnique.mockResolvedValue(otherUserSmoke);
+      // Act
+      const result = await service.findWithin(1, { x: 0.4, y: 0.6, radius: 0.05 });
+
+      // Assert
+      const query = lastQuery();
+      expect(query.sql).toContain('s."throwPoint" <@ circle(point(?::double precision, ?::double precision), ?::double precision)');
+      expect(query.sql).toContain('ORDER BY s."throwPoint" <-> point(');
+      expect(query.values).toEqual([0.4, 0.6, 1, 0.4, 0.6, 0.05, 0.4, 0.6, 20]);
+      expect(result).toEqual([
+        expect.objectContaining({ id: 1, score: 2, distance: 0.012, author: expect.objectContaining({ id: 1 }) }),
+      ]);
+    });
+
+    it('should match landing points inside a bounding box on a layer, ordered from its center', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([]);
 
+      // Act
+      await service.findWithin(1, { point: SpatialTarget.LANDING, minX: 0.2, minY: 0.2, maxX: 0.4, maxY: 0.6, layerId: 3 });
+
+      // Assert
+      const query = lastQuery();
+      expect(query.sql).toContain('s."landingPoint" <@ box(');
+      expect(query.sql).toContain('s."landingLayerId" = ?');
+      expect(query.values[0]).toBeCloseTo(0.3);
+      expect(query.values[1]).toBeCloseTo(0.4);
+    });
+
+    it('should match points inside a polygon', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([]);
+
+      // Act
+      await service.findWithin(1, {
+        polygon: [
+          { x: 0.1, y: 0.1 },
+          { x: 0.3, y: 0.1 },
+          { x: 0.2, y: 0.4 },
+        ],
+      });
+
+      // Assert
+      const query = lastQuery();
+      expect(query.sql).toContain('?::polygon');
+      expect(query.values).toContain('((0.1,0.1),(0.3,0.1),(0.2,0.4))');
+    });
+
+    it('should reject queries without exactly one region', async () => {
       // Act & Assert
-      await expect(service.delete(smokeId, userId)).rejects.toThrow(
-        new ForbiddenException('You can only delete your own smokes'),
+      await expect(service.findWithin(1, { x: 0.4, y: 0.6 })).rejects.toThrow(
+        new BadRequestException('Provide exactly one of radius, a bounding box or polygon'),
+      );
+      await expect(service.findWithin(1, { x: 0.4, y: 0.6, radius: 0.1, minX: 0 })).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(service.findWithin(1, { radius: 0.1 })).rejects.toThrow(
+        new BadRequestException('Radius requires x and y'),
+      );
+      await expect(service.findWithin(1, { minX: 0.5, minY: 0, maxX: 0.2, maxY: 1 })).rejects.toThrow(
+        new BadRequestException('Bounding box minimum must not exceed its maximum'),
       );
+      expect(prismaService.$queryRaw).not.toHaveBeenCalled();
     });
 
-    it('should not call delete when ownership validation fails', async () => {
+    it('should throw NotFoundException for invalid map', async () => {
       // Arrange
-      const smokeId = 1;
-      const userId = 2;
-      const otherUserSmoke = {
-        id: smokeId,
-        authorId: 1,
+      prismaService.map.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.findWithin(999, { x: 0.4, y: 0.6, radius: 0.05 })).rejects.toThrow(
+        new NotFoundException('Map with ID 999 not found'),
+      );
+    });
+  });
+
+  describe('findById', () => {
+    const smokeWithDetails = {
+      ...mockSmoke,
+      deletedAt: null,
+      hiddenAt: null,
+      author: mockUser,
+      map: mockMap,
+    };
+
+    it('should hide smokes hidden by a moderator from everyone but the author', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue({ ...smokeWithDetails, hiddenAt: new Date() });
+
+      // Act & Assert
+      await expect(service.findById(1)).rejects.toThrow(new NotFoundException('Smoke with ID 1 not found'));
+      await expect(service.findById(1, 2)).rejects.toThrow(NotFoundException);
+      await expect(service.findById(1, mockSmoke.authorId)).resolves.toMatchObject({ id: 1, hidden: true });
+    });
+
+    beforeEach(() => {
+      prismaService.rating.groupBy.mockResolvedValue([
+        { value: 1, _count: { _all: 7 } },
+        { value: -1, _count: { _all: 2 } },
+      ]);
+    });
+
+    it('should return the smoke with score and vote breakdown for anonymous requests', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue(smokeWithDetails);
+
+      // Act
+      const result = await service.findById(1);
+
+      // Assert
+      expect(prismaService.rating.groupBy).toHaveBeenCalledWith({
+        by: ['value'],
+        where: { smokeId: 1 },
+        _count: { _all: true },
+      });
+      expect(result).toMatchObject({
+        id: 1,
+        score: 5,
+        upvotes: 7,
+        downvotes: 2,
+        author: { id: mockUser.id, displayName: mockUser.username },
+        map: mockMap,
+      });
+      expect(result).not.toHaveProperty('userVote');
+      expect(result).not.toHaveProperty('hasReported');
+      expect(prismaService.rating.findUnique).not.toHaveBeenCalled();
+      expect(prismaService.report.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should include the caller vote and report status when authenticated', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue(smokeWithDetails);
+      prismaService.rating.findUnique.mockResolvedValue({ value: -1 });
+      prismaService.report.findUnique.mockResolvedValue({ id: 3 });
+
+      // Act
+      const result = await service.findById(1, 2);
+
+      // Assert
+      expect(prismaService.rating.findUnique).toHaveBeenCalledWith({
+        where: { userId_smokeId: { userId: 2, smokeId: 1 } },
+        select: { value: true },
+      });
+      expect(result.userVote).toBe(-1);
+      expect(result.hasReported).toBe(true);
+    });
+
+    it('should report no vote when the caller has not rated the smoke', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue(smokeWithDetails);
+      prismaService.rating.groupBy.mockResolvedValue([]);
+      prismaService.rating.findUnique.mockResolvedValue(null);
+      prismaService.report.findUnique.mockResolvedValue(null);
+
+      // Act
+      const result = await service.findById(1, 2);
+
+      // Assert
+      expect(result).toMatchObject({ score: 0, upvotes: 0, downvotes: 0, userVote: null, hasReported: false });
+    });
+
+    it('should throw NotFoundException for soft-deleted smoke', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue({ ...smokeWithDetails, deletedAt: new Date() });
+
+      // Act & Assert
+      await expect(service.findById(1)).rejects.toThrow(new NotFoundException('Smoke with ID 1 not found'));
+    });
+
+    it('should throw NotFoundException for non-existent smoke', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.findById(999)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('create', () => {
+    it('should index the title, callout and map name of the new smoke for search', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.smoke.create.mockResolvedValue({
+        ...mockSmoke,
+        title: 'Fumaça Xbox',
+        description: 'Mira na antena',
+        author: mockUser,
+        map: mockMap,
+      });
+
+      // Act
+      await service.create(mockCreateSmokeDto, 1);
+
+      // Assert
+      const [strings, ...values] = prismaService.$executeRaw.mock.calls[0];
+      const statement = Prisma.sql(strings, ...values);
+      expect(statement.sql).toContain('UPDATE smokes SET "searchVector"');
+      expect(statement.values).toEqual(['fumaca xbox', 'xbox', 'dust2', 'mira na antena', 1]);
+    });
+
+    it('should store the landing and throw points for spatial queries', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.smoke.create.mockResolvedValue({ ...mockSmoke, author: mockUser, map: mockMap });
+
+      // Act
+      await service.create(mockCreateSmokeDto, 1);
+
+      // Assert
+      const [strings, ...values] = prismaService.$executeRaw.mock.calls[1];
+      const statement = Prisma.sql(strings, ...values);
+      expect(statement.sql).toContain('"landingPoint" = point(x_coord, y_coord)');
+      expect(statement.values).toEqual([mockSmoke.id]);
+    });
+
+    it('should record the new smoke in the audit log within the transaction', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.smoke.create.mockResolvedValue({ ...mockSmoke, author: mockUser, map: mockMap });
+
+      // Act
+      await service.create(mockCreateSmokeDto, 1);
+
+      // Assert
+      expect(auditService.record).toHaveBeenCalledWith(
+        {
+          actorId: 1,
+          action: AuditAction.CREATE,
+          entityType: AuditEntityType.SMOKE,
+          entityId: mockSmoke.id,
+          after: expect.objectContaining({ title: mockSmoke.title, mapId: mockSmoke.mapId }),
+        },
+        prismaService,
+      );
+    });
+
+    it('should create smoke successfully with valid data', async () => {
+      // Arrange
+      const authorId = 1;
+      const createdSmoke = {
+        ...mockSmoke,
+        author: mockUser,
+        map: mockMap,
       };
 
-      prismaService.smoke.findUnique.mockResolvedValue(otherUserSmoke);
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.smoke.create.mockResolvedValue(createdSmoke);
+
+      // Act
+      const result = await service.create(mockCreateSmokeDto, authorId);
+
+      // Assert
+      expect(prismaService.map.findUnique).toHaveBeenCalledWith({
+        where: { id: mockCreateSmokeDto.mapId },
+      });
+      expect(prismaService.smoke.create).toHaveBeenCalledWith({
+        data: {
+          title: mockCreateSmokeDto.title,
+          grenadeType: undefined,
+          side: undefined,
+          callout: undefined,
+          videoUrl: mockCreateSmokeDto.videoUrl,
+          videoProvider: VideoProvider.YOUTUBE,
+          videoId: 'dQw4w9WgXcQ',
+          timestamp: mockCreateSmokeDto.timestamp,
+          x_coord: mockCreateSmokeDto.x_coord,
+          y_coord: mockCreateSmokeDto.y_coord,
+          throw_x_coord: undefined,
+          throw_y_coord: undefined,
+          throwStance: undefined,
+          throwMovement: undefined,
+          mouseButton: undefined,
+          requiresJumpThrowBind: undefined,
+          tickrateSensitive: undefined,
+          landingLayerId: null,
+          throwLayerId: null,
+          landingZoneId: null,
+          throwZoneId: null,
+          authorId,
+          mapId: mockCreateSmokeDto.mapId,
+        },
+        include: {
+          author: {
+            select: {
+              id: true,
+              steamId: true,
+              username: true,
+              avatarUrl: true,
+              createdAt: true,
+              updatedAt: true,
+            },
+          },
+          map: {
+            select: {
+              id: true,
+              name: true,
+              thumbnail: true,
+            },
+          },
+        },
+      });
+      expect(result.score).toBe(0); // New smoke should have score 0
+      expect(result.author.displayName).toBe(mockUser.username);
+    });
+
+    it('should throw NotFoundException for invalid map', async () => {
+      // Arrange
+      const authorId = 1;
+      prismaService.map.findUnique.mockResolvedValue(null);
 
       // Act & Assert
-      await expect(service.delete(smokeId, userId)).rejects.toThrow(ForbiddenException);
-      expect(prismaService.smoke.delete).not.toHaveBeenCalled();
+      await expect(service.create(mockCreateSmokeDto, authorId)).rejects.toThrow(
+        new NotFoundException(`Map with ID ${mockCreateSmokeDto.mapId} not found`),
+      );
+    });
+
+    it('should reject smokes on archived maps', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue({ ...mockMap, archivedAt: new Date() });
+
+      // Act & Assert
+      await expect(service.create(mockCreateSmokeDto, 1)).rejects.toThrow(
+        new BadRequestException(`Map with ID ${mockCreateSmokeDto.mapId} is archived`),
+      );
+      expect(prismaService.smoke.create).not.toHaveBeenCalled();
+    });
+
+    it('should store the throw point alongside the landing point', async () => {
+      // Arrange
+      const dto = { ...mockCreateSmokeDto, throw_x_coord: 0.6, throw_y_coord: 0.7 };
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.smoke.create.mockResolvedValue({
+        ...mockSmoke,
+        throw_x_coord: 0.6,
+        throw_y_coord: 0.7,
+        author: mockUser,
+        map: mockMap,
+      });
+
+      // Act
+      const result = await service.create(dto, 1);
+
+      // Assert
+      expect(prismaService.smoke.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ x_coord: 0.25, y_coord: 0.5, throw_x_coord: 0.6, throw_y_coord: 0.7 }),
+        }),
+      );
+      expect(result.throw_x_coord).toBe(0.6);
+      expect(result.throw_y_coord).toBe(0.7);
+    });
+
+    it('should place smokes on the first layer of multi-level maps by default', async () => {
+      // Arrange
+      const dto = { ...mockCreateSmokeDto, throw_x_coord: 0.6, throw_y_coord: 0.7 };
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.radarLayer.findMany.mockResolvedValue([{ id: 3 }, { id: 4 }]);
+      prismaService.smoke.create.mockResolvedValue({ ...mockSmoke, author: mockUser, map: mockMap });
+
+      // Act
+      await service.create(dto, 1);
+
+      // Assert
+      expect(prismaService.radarLayer.findMany).toHaveBeenCalledWith({
+        where: { mapId: mockCreateSmokeDto.mapId },
+        select: { id: true },
+        orderBy: [{ displayOrder: 'asc' }, { id: 'asc' }],
+      });
+      expect(prismaService.smoke.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ landingLayerId: 3, throwLayerId: 3 }) }),
+      );
+    });
+
+    it('should store the layers of the throw and landing points', async () => {
+      // Arrange
+      const dto = { ...mockCreateSmokeDto, landingLayerId: 3, throwLayerId: 4 };
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.radarLayer.findMany.mockResolvedValue([{ id: 3 }, { id: 4 }]);
+      prismaService.smoke.create.mockResolvedValue({ ...mockSmoke, author: mockUser, map: mockMap });
+
+      // Act
+      await service.create(dto, 1);
+
+      // Assert
+      expect(prismaService.smoke.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ landingLayerId: 3, throwLayerId: 4 }) }),
+      );
+    });
+
+    it('should reject layers of another map', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.radarLayer.findMany.mockResolvedValue([{ id: 3 }]);
+
+      // Act & Assert
+      await expect(service.create({ ...mockCreateSmokeDto, throwLayerId: 9 }, 1)).rejects.toThrow(
+        new BadRequestException(`Radar layer with ID 9 does not belong to map ${mockCreateSmokeDto.mapId}`),
+      );
+      expect(prismaService.smoke.create).not.toHaveBeenCalled();
+    });
+
+    it('should tag the callout zones of the landing and throw points', async () => {
+      // Arrange
+      const dto = { ...mockCreateSmokeDto, throw_x_coord: 0.9, throw_y_coord: 0.9 };
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.calloutZone.findMany.mockResolvedValue([
+        { id: 4, layerId: null, points: [{ x: 0, y: 0 }, { x: 0.5, y: 0 }, { x: 0.5, y: 1 }, { x: 0, y: 1 }] },
+      ]);
+      prismaService.smoke.create.mockResolvedValue({ ...mockSmoke, author: mockUser, map: mockMap });
+
+      // Act
+      await service.create(dto, 1);
+
+      // Assert
+      expect(prismaService.calloutZone.findMany).toHaveBeenCalledWith({
+        where: { mapId: mockCreateSmokeDto.mapId },
+        select: { id: true, layerId: true, points: true },
+      });
+      expect(prismaService.smoke.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ landingZoneId: 4, throwZoneId: null }) }),
+      );
+    });
+
+    it('should store the throw technique in flat columns', async () => {
+      // Arrange
+      const dto = {
+        ...mockCreateSmokeDto,
+        technique: { stance: ThrowStance.JUMPING, mouseButton: MouseButton.LEFT, requiresJumpThrowBind: true },
+      };
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.smoke.create.mockResolvedValue({
+        ...mockSmoke,
+        throwStance: ThrowStance.JUMPING,
+        mouseButton: MouseButton.LEFT,
+        requiresJumpThrowBind: true,
+        author: mockUser,
+        map: mockMap,
+      });
+
+      // Act
+      const result = await service.create(dto, 1);
+
+      // Assert
+      expect(prismaService.smoke.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            throwStance: ThrowStance.JUMPING,
+            mouseButton: MouseButton.LEFT,
+            requiresJumpThrowBind: true,
+          }),
+        }),
+      );
+      expect(result.technique).toEqual({
+        stance: ThrowStance.JUMPING,
+        movement: null,
+        mouseButton: MouseButton.LEFT,
+        requiresJumpThrowBind: true,
+        tickrateSensitive: false,
+      });
+    });
+
+    it('should store the canonical video link and take the timestamp from its start time', async () => {
+      // Arrange
+      const dto = { ...mockCreateSmokeDto, videoUrl: 'https://youtu.be/dQw4w9WgXcQ?t=1m5s', timestamp: undefined };
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.smoke.create.mockResolvedValue({ ...mockSmoke, timestamp: 65, author: mockUser, map: mockMap });
+
+      // Act
+      const result = await service.create(dto, 1);
+
+      // Assert
+      expect(prismaService.smoke.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            videoUrl: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+            videoProvider: VideoProvider.YOUTUBE,
+            videoId: 'dQw4w9WgXcQ',
+            timestamp: 65,
+          }),
+        }),
+      );
+      expect(result.video).toEqual({
+        provider: VideoProvider.YOUTUBE,
+        videoId: 'dQw4w9WgXcQ',
+        startTime: 65,
+        watchUrl: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=65s',
+        embedUrl: 'https://www.youtube.com/embed/dQw4w9WgXcQ?start=65',
+      });
+    });
+
+    it('should prefer an explicit timestamp over the start time in the link', async () => {
+      // Arrange
+      const dto = { ...mockCreateSmokeDto, videoUrl: 'https://streamable.com/abc123?t=12', timestamp: 30 };
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.smoke.create.mockResolvedValue({ ...mockSmoke, author: mockUser, map: mockMap });
+
+      // Act
+      await service.create(dto, 1);
+
+      // Assert
+      expect(prismaService.smoke.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            videoUrl: 'https://streamable.com/abc123',
+            videoProvider: VideoProvider.STREAMABLE,
+            timestamp: 30,
+          }),
+        }),
+      );
+    });
+
+    it('should require a timestamp when the video link has no start time', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+
+      // Act & Assert
+      await expect(service.create({ ...mockCreateSmokeDto, timestamp: undefined }, 1)).rejects.toThrow(
+        new BadRequestException('Timestamp is required when the video URL has no start time'),
+      );
+      expect(prismaService.smoke.create).not.toHaveBeenCalled();
+    });
+
+    it('should convert world coordinates with the map calibration', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.smoke.create.mockResolvedValue({ ...mockSmoke, author: mockUser, map: mockMap });
+      const dto = {
+        ...mockCreateSmokeDto,
+        coordinateSpace: CoordinateSpace.WORLD,
+        // Center of the radar and a quarter of the way in from its top-left corner
+        x_coord: -2476 + 512 * 4.4,
+        y_coord: 3239 - 512 * 4.4,
+        throw_x_coord: -2476 + 256 * 4.4,
+        throw_y_coord: 3239 - 256 * 4.4,
+      };
+
+      // Act
+      await service.create(dto, 1);
+
+      // Assert
+      const { data } = prismaService.smoke.create.mock.calls[0][0];
+      expect(data.x_coord).toBeCloseTo(0.5);
+      expect(data.y_coord).toBeCloseTo(0.5);
+      expect(data.throw_x_coord).toBeCloseTo(0.25);
+      expect(data.throw_y_coord).toBeCloseTo(0.25);
+      expect(data).not.toHaveProperty('coordinateSpace');
+    });
+
+    it('should reject world coordinates on maps without a radar calibration', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue({ ...mockMap, radarPosX: null, radarPosY: null, radarScale: null });
+
+      // Act & Assert
+      await expect(
+        service.create({ ...mockCreateSmokeDto, coordinateSpace: CoordinateSpace.WORLD }, 1),
+      ).rejects.toThrow(
+        new BadRequestException('Map with ID 1 has no radar calibration, submit radar coordinates instead'),
+      );
+    });
+
+    it('should reject a landing point outside the map radar', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+
+      // Act & Assert
+      await expect(service.create({ ...mockCreateSmokeDto, x_coord: 1.5 }, 1)).rejects.toThrow(
+        new BadRequestException('Landing point must be within the map radar bounds (0-1 x 0-1)'),
+      );
+      expect(prismaService.smoke.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a throw point outside the map radar', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+
+      // Act & Assert
+      await expect(
+        service.create({ ...mockCreateSmokeDto, throw_x_coord: 0.5, throw_y_coord: -0.1 }, 1),
+      ).rejects.toThrow(
+        new BadRequestException('Throw point must be within the map radar bounds (0-1 x 0-1)'),
+      );
+    });
+
+    it('should return nearby smokes of the map as possible duplicates', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.smoke.create.mockResolvedValue({ ...mockSmoke, author: mockUser, map: mockMap });
+      prismaService.$queryRaw.mockResolvedValue([
+        { id: 7, title: 'Xbox from T spawn', same_video: false, landing_distance: 0.004, throw_distance: 0.01 },
+      ]);
+
+      // Act
+      const result = await service.create({ ...mockCreateSmokeDto, throw_x_coord: 0.4, throw_y_coord: 0.9 }, 1);
+
+      // Assert
+      expect(result.possibleDuplicates).toEqual([
+        { id: 7, title: 'Xbox from T spawn', match: DuplicateMatch.NEARBY, landingDistance: 0.004, throwDistance: 0.01 },
+      ]);
+      const query = lastQuery();
+      expect(query.sql).toContain('s."landingPoint" <@ circle(point(');
+      expect(query.sql).toContain('s."throwPoint" IS NULL OR s."throwPoint" <@ circle(point(');
+      expect(query.sql).toContain('s."deletedAt" IS NULL AND s."hiddenAt" IS NULL');
+      expect(query.values).toEqual(expect.arrayContaining([mockCreateSmokeDto.mapId, 'dQw4w9WgXcQ', 30, 0.02]));
+    });
+
+    it('should reject the same video and timestamp with the ids of the existing smokes', async () => {
+      // Arrange
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.$queryRaw.mockResolvedValue([
+        { id: 4, title: 'Xbox', same_video: true, landing_distance: 0, throw_distance: null },
+        { id: 7, title: 'Xbox from T spawn', same_video: false, landing_distance: 0.004, throw_distance: null },
+      ]);
+
+      // Act & Assert
+      await expect(service.create(mockCreateSmokeDto, 1)).rejects.toThrow(
+        new ConflictException('Smoke with the same video and timestamp already exists: 4'),
+      );
+      await expect(service.create(mockCreateSmokeDto, 1)).rejects.toMatchObject({
+        response: { details: { duplicateIds: [4] } },
+      });
+      expect(prismaService.smoke.create).not.toHaveBeenCalled();
+    });
+
+    it('should only warn about the same video when blocking exact duplicates is disabled', async () => {
+      // Arrange
+      const configService = {
+        get: jest.fn((key: string, defaultValue?: unknown) =>
+          key === 'SMOKE_BLOCK_EXACT_DUPLICATES' ? 'false' : defaultValue,
+        ),
+      };
+      const lenientService = new SmokesService(
+        prismaService as unknown as PrismaService,
+        auditService as unknown as AuditService,
+        configService as unknown as ConfigService,
+      );
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.smoke.create.mockResolvedValue({ ...mockSmoke, author: mockUser, map: mockMap });
+      prismaService.$queryRaw.mockResolvedValue([
+        { id: 4, title: 'Xbox', same_video: true, landing_distance: 0, throw_distance: null },
+      ]);
+
+      // Act
+      const result = await lenientService.create(mockCreateSmokeDto, 1);
+
+      // Assert
+      expect(result.possibleDuplicates).toEqual([
+        { id: 4, title: 'Xbox', match: DuplicateMatch.SAME_VIDEO, landingDistance: 0, throwDistance: null },
+      ]);
+      expect(prismaService.smoke.create).toHaveBeenCalled();
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete smoke successfully when user owns it', async () => {
+      // Arrange
+      const smokeId = 1;
+      const userId = 1;
+      const ownedSmoke = {
+        id: smokeId,
+        authorId: userId,
+      };
+
+      prismaService.smoke.findUnique.mockResolvedValue(ownedSmoke);
+      prismaService.smoke.update.mockResolvedValue(mockSmoke);
+
+      // Act
+      await service.delete(smokeId, userId);
+
+      // Assert
+      expect(prismaService.smoke.findUnique).toHaveBeenCalledWith({
+        where: { id: smokeId },
+        select: {
+          id: true,
+          authorId: true,
+          deletedAt: true,
+        },
+      });
+      expect(prismaService.smoke.update).toHaveBeenCalledWith({
+        where: { id: smokeId },
+        data: { deletedAt: expect.any(Date), deletedById: userId },
+      });
+      // Recorded within the transaction of the deletion
+      expect(auditService.record).toHaveBeenCalledWith(
+        {
+          actorId: userId,
+          action: AuditAction.DELETE,
+          entityType: AuditEntityType.SMOKE,
+          entityId: smokeId,
+          before: { deletedAt: null },
+          after: { deletedAt: expect.any(Date) },
+        },
+        prismaService,
+      );
+    });
+
+    it('should throw NotFoundException for non-existent smoke', async () => {
+      // Arrange
+      const smokeId = 999;
+      const userId = 1;
+      prismaService.smoke.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.delete(smokeId, userId)).rejects.toThrow(
+        new NotFoundException(`Smoke with ID ${smokeId} not found`),
+      );
+    });
+
+    it('should throw ForbiddenException when user does not own smoke', async () => {
+      // Arrange
+      const smokeId = 1;
+      const userId = 2; // Different user
+      const otherUserSmoke = {
+        id: smokeId,
+        authorId: 1, // Owned by user 1
+      };
+
+      prismaService.smoke.findUnique.mockResolvedValue(otherUserSmoke);
+
+      // Act & Assert
+      await expect(service.delete(smokeId, userId)).rejects.toThrow(
+        new ForbiddenException('You can only delete your own smokes'),
+      );
+    });
+
+    it.each([Role.MODERATOR, Role.ADMIN])('should let a %s delete another user\'s smoke', async (role) => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue({ id: 1, authorId: 1, deletedAt: null });
+      prismaService.smoke.update.mockResolvedValue(mockSmoke);
+
+      // Act
+      await service.delete(1, 2, role);
+
+      // Assert
+      expect(prismaService.smoke.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { deletedAt: expect.any(Date), deletedById: 2 },
+      });
+    });
+
+    it('should still reject regular users deleting another user\'s smoke', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue({ id: 1, authorId: 1, deletedAt: null });
+
+      // Act & Assert
+      await expect(service.delete(1, 2, Role.USER)).rejects.toThrow(
+        new ForbiddenException('You can only delete your own smokes'),
+      );
+    });
+
+    it('should not call delete when ownership validation fails', async () => {
+      // Arrange
+      const smokeId = 1;
+      const userId = 2;
+      const otherUserSmoke = {
+        id: smokeId,
+        authorId: 1,
+      };
+
+      prismaService.smoke.findUnique.mockResolvedValue(otherUserSmoke);
+
+      // Act & Assert
+      await expect(service.delete(smokeId, userId)).rejects.toThrow(ForbiddenException);
+      expect(prismaService.smoke.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findDeleted', () => {
+    it('should list the author\'s deleted smokes with their restore deadline', async () => {
+      // Arrange
+      const deletedAt = new Date('2026-01-01T00:00:00Z');
+      prismaService.smoke.findMany.mockResolvedValue([
+        { ...mockSmoke, author: mockUser, map: mockMap, deletedAt, deletedById: 1 },
+        { ...mockSmoke, id: 2, author: mockUser, map: mockMap, deletedAt, deletedById: 5 },
+      ]);
+      prismaService.rating.groupBy.mockResolvedValue([{ smokeId: 1, _sum: { value: 4 } }]);
+
+      // Act
+      const result = await service.findDeleted(1);
+
+      // Assert
+      expect(prismaService.smoke.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { authorId: 1, deletedAt: { not: null } } }),
+      );
+      expect(result[0]).toMatchObject({
+        id: 1,
+        score: 4,
+        deletedAt,
+        restorableUntil: new Date('2026-01-31T00:00:00Z'),
+      });
+      // Removed by a moderator, so only an admin can bring it back
+      expect(result[1]).toMatchObject({ id: 2, score: 0, restorableUntil: null });
+    });
+
+    it('should not query ratings when nothing is deleted', async () => {
+      // Arrange
+      prismaService.smoke.findMany.mockResolvedValue([]);
+
+      // Act
+      const result = await service.findDeleted(1);
+
+      // Assert
+      expect(result).toEqual([]);
+      expect(prismaService.rating.groupBy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restore', () => {
+    const deletedSmoke = (daysAgo: number, deletedById = 1) => ({
+      id: 1,
+      authorId: 1,
+      deletedAt: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000),
+      deletedById,
+    });
+
+    const arrangeRestore = (smoke: ReturnType<typeof deletedSmoke>) => {
+      prismaService.smoke.findUnique
+        .mockResolvedValueOnce(smoke)
+        .mockResolvedValueOnce({ ...mockSmoke, author: mockUser, map: mockMap });
+      prismaService.rating.aggregate.mockResolvedValue({ _sum: { value: 0 } });
+    };
+
+    it('should let the author restore a smoke within the grace period', async () => {
+      // Arrange
+      const smoke = deletedSmoke(3);
+      arrangeRestore(smoke);
+
+      // Act
+      const result = await service.restore(1, 1);
+
+      // Assert
+      expect(prismaService.smoke.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { deletedAt: null, deletedById: null },
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        {
+          actorId: 1,
+          action: AuditAction.RESTORE,
+          entityType: AuditEntityType.SMOKE,
+          entityId: 1,
+          before: { deletedAt: smoke.deletedAt, deletedById: 1 },
+          after: { deletedAt: null, deletedById: null },
+        },
+        prismaService,
+      );
+      expect(result.id).toBe(1);
+    });
+
+    it('should reject authors after the grace period', async () => {
+      // Arrange
+      arrangeRestore(deletedSmoke(31));
+
+      // Act & Assert
+      await expect(service.restore(1, 1)).rejects.toThrow(
+        new BadRequestException('Smokes can only be restored within 30 days of being deleted'),
+      );
+      expect(prismaService.smoke.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject authors restoring a smoke removed by a moderator', async () => {
+      // Arrange
+      arrangeRestore(deletedSmoke(1, 5));
+
+      // Act & Assert
+      await expect(service.restore(1, 1)).rejects.toThrow(
+        new ForbiddenException('Smokes removed by a moderator can only be restored by an admin'),
+      );
+    });
+
+    it('should reject users restoring another user\'s smoke', async () => {
+      // Arrange
+      arrangeRestore(deletedSmoke(1));
+
+      // Act & Assert
+      await expect(service.restore(1, 2, Role.MODERATOR)).rejects.toThrow(
+        new ForbiddenException('You can only restore your own smokes'),
+      );
+    });
+
+    it('should let admins restore any smoke at any time', async () => {
+      // Arrange
+      arrangeRestore(deletedSmoke(60, 5));
+
+      // Act
+      await service.restore(1, 2, Role.ADMIN);
+
+      // Assert
+      expect(prismaService.smoke.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { deletedAt: null, deletedById: null },
+      });
+    });
+
+    it('should throw NotFoundException for smokes that are not deleted', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue({ id: 1, authorId: 1, deletedAt: null, deletedById: null });
+
+      // Act & Assert
+      await expect(service.restore(1, 1)).rejects.toThrow(new NotFoundException('Deleted smoke with ID 1 not found'));
+    });
+  });
+
+  describe('purgeDeleted', () => {
+    it('should hard-delete smokes past the retention window with their ratings and reports', async () => {
+      // Arrange
+      const deletedAt = new Date('2026-01-10T08:00:00Z');
+      prismaService.smoke.findMany.mockResolvedValue([
+        { id: 3, title: 'Old smoke', authorId: 1, mapId: 1, deletedAt, deletedById: 1 },
+        { id: 4, title: 'Removed smoke', authorId: 2, mapId: 1, deletedAt, deletedById: 5 },
+      ]);
+      prismaService.rating.deleteMany.mockResolvedValue({ count: 5 });
+      prismaService.report.deleteMany.mockResolvedValue({ count: 1 });
+      prismaService.smoke.deleteMany.mockResolvedValue({ count: 2 });
+
+      // Act
+      const result = await service.purgeDeleted();
+
+      // Assert
+      const [{ where }] = prismaService.smoke.findMany.mock.calls[0];
+      const retentionDays = (Date.now() - where.deletedAt.lt.getTime()) / (24 * 60 * 60 * 1000);
+      expect(Math.round(retentionDays)).toBe(90);
+      expect(prismaService.rating.deleteMany).toHaveBeenCalledWith({ where: { smokeId: { in: [3, 4] } } });
+      expect(prismaService.report.deleteMany).toHaveBeenCalledWith({ where: { smokeId: { in: [3, 4] } } });
+      expect(prismaService.smoke.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [3, 4] } } });
+      expect(prismaService.auditLog.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            actorId: null,
+            action: AuditAction.DELETE,
+            entityType: AuditEntityType.SMOKE,
+            entityId: 3,
+            before: { title: 'Old smoke', authorId: 1, mapId: 1, deletedAt: deletedAt.toISOString(), deletedById: 1 },
+          }),
+          expect.objectContaining({ entityId: 4, before: expect.objectContaining({ deletedById: 5 }) }),
+        ],
+      });
+      expect(result).toEqual({ smokes: 2, ratings: 5, reports: 1 });
+    });
+
+    it('should do nothing when no smoke is old enough', async () => {
+      // Arrange
+      prismaService.smoke.findMany.mockResolvedValue([]);
+
+      // Act
+      const result = await service.purgeDeleted();
+
+      // Assert
+      expect(result).toEqual({ smokes: 0, ratings: 0, reports: 0 });
+      expect(prismaService.smoke.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    const smokeWithDetails = {
+      ...mockSmoke,
+      author: mockUser,
+      map: mockMap,
+    };
+
+    it('should store a revision and apply only the changed fields', async () => {
+      // Arrange
+      prismaService.smoke.findUnique
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        // Row read again once locked inside the transaction
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce({ ...smokeWithDetails, title: 'Fixed title' });
+      prismaService.smokeRevision.aggregate.mockResolvedValue({ _max: { revision: 2 } });
+      prismaService.smoke.update.mockResolvedValue({ ...mockSmoke, title: 'Fixed title', map: mockMap });
+      prismaService.rating.aggregate.mockResolvedValue({ _sum: { value: 3 } });
+
+      // Act
+      const result = await service.update(1, { title: 'Fixed title', timestamp: 30 }, 1);
+
+      // Assert
+      expect(prismaService.smokeRevision.create).toHaveBeenCalledWith({
+        data: {
+          title: mockSmoke.title,
+          description: null,
+          grenadeType: mockSmoke.grenadeType,
+          side: mockSmoke.side,
+          callout: mockSmoke.callout,
+          videoUrl: mockSmoke.videoUrl,
+          timestamp: mockSmoke.timestamp,
+          x_coord: mockSmoke.x_coord,
+          y_coord: mockSmoke.y_coord,
+          throw_x_coord: null,
+          throw_y_coord: null,
+          throwStance: null,
+          throwMovement: null,
+          mouseButton: null,
+          requiresJumpThrowBind: false,
+          tickrateSensitive: false,
+          revision: 3,
+          smokeId: 1,
+          editorId: 1,
+        },
+      });
+      expect(prismaService.smoke.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 1 },
+          data: { title: 'Fixed title' },
+        }),
+      );
+      expect(prismaService.$executeRaw).toHaveBeenCalledTimes(1);
+      // The smoke is locked before the next revision number is read
+      expect(lastQuery().sql).toContain('FROM smokes WHERE id = ? FOR UPDATE');
+      expect(prismaService.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        prismaService.smokeRevision.aggregate.mock.invocationCallOrder[0],
+      );
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.UPDATE,
+          entityId: 1,
+          before: expect.objectContaining({ title: mockSmoke.title, timestamp: mockSmoke.timestamp }),
+          after: expect.objectContaining({ title: 'Fixed title', timestamp: mockSmoke.timestamp }),
+        }),
+        prismaService,
+      );
+      expect(result.title).toBe('Fixed title');
+      expect(result.score).toBe(3);
+    });
+
+    it('should apply partial technique changes', async () => {
+      // Arrange
+      prismaService.smoke.findUnique
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce({ ...smokeWithDetails, throwStance: ThrowStance.CROUCHING });
+      prismaService.smokeRevision.aggregate.mockResolvedValue({ _max: { revision: null } });
+      prismaService.smoke.update.mockResolvedValue({ ...mockSmoke, map: mockMap });
+      prismaService.rating.aggregate.mockResolvedValue({ _sum: { value: 0 } });
+
+      // Act
+      await service.update(1, { technique: { stance: ThrowStance.CROUCHING } }, 1);
+
+      // Assert
+      expect(prismaService.smoke.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 1 },
+          data: { throwStance: ThrowStance.CROUCHING },
+        }),
+      );
+    });
+
+    it('should not treat an equivalent video link as a change', async () => {
+      // Arrange
+      prismaService.smoke.findUnique
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce(smokeWithDetails);
+      prismaService.rating.aggregate.mockResolvedValue({ _sum: { value: null } });
+
+      // Act
+      await service.update(1, { videoUrl: 'https://youtu.be/dQw4w9WgXcQ?t=30' }, 1);
+
+      // Assert
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should update the provider columns when the video link changes', async () => {
+      // Arrange
+      prismaService.smoke.findUnique
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce(smokeWithDetails);
+      prismaService.smokeRevision.aggregate.mockResolvedValue({ _max: { revision: null } });
+      prismaService.smoke.update.mockResolvedValue({ ...mockSmoke, map: mockMap });
+      prismaService.rating.aggregate.mockResolvedValue({ _sum: { value: 0 } });
+
+      // Act
+      await service.update(1, { videoUrl: 'https://medal.tv/games/cs2/clips/jf8Kd0a/smoke-xbox' }, 1);
+
+      // Assert
+      expect(prismaService.smoke.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            videoUrl: 'https://medal.tv/clips/jf8Kd0a',
+            videoProvider: VideoProvider.MEDAL,
+            videoId: 'jf8Kd0a',
+          },
+        }),
+      );
+    });
+
+    it('should not create a revision when nothing changed', async () => {
+      // Arrange
+      prismaService.smoke.findUnique
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce(smokeWithDetails);
+      prismaService.rating.aggregate.mockResolvedValue({ _sum: { value: null } });
+
+      // Act
+      const result = await service.update(1, { title: mockSmoke.title }, 1);
+
+      // Assert
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+      expect(prismaService.smokeRevision.create).not.toHaveBeenCalled();
+      expect(result.score).toBe(0);
+    });
+
+    it('should snapshot and diff against an edit applied while the smoke was being read', async () => {
+      // Arrange
+      const editedMeanwhile = { ...mockSmoke, title: 'Edited meanwhile', callout: 'Long', deletedAt: null };
+      prismaService.smoke.findUnique
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce(editedMeanwhile)
+        .mockResolvedValueOnce({ ...smokeWithDetails, title: 'Fixed title', callout: 'Long' });
+      prismaService.smokeRevision.aggregate.mockResolvedValue({ _max: { revision: 3 } });
+      prismaService.smoke.update.mockResolvedValue({ ...mockSmoke, title: 'Fixed title', map: mockMap });
+      prismaService.rating.aggregate.mockResolvedValue({ _sum: { value: 0 } });
+
+      // Act
+      await service.update(1, { title: 'Fixed title', callout: 'Long' }, 1);
+
+      // Assert
+      expect(prismaService.$queryRaw.mock.calls[0][0].join('')).toContain('FOR UPDATE');
+      expect(prismaService.smokeRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ title: 'Edited meanwhile', callout: 'Long', revision: 4 }),
+      });
+      expect(prismaService.smoke.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 1 }, data: { title: 'Fixed title' } }),
+      );
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          before: expect.objectContaining({ title: 'Edited meanwhile' }),
+          after: expect.objectContaining({ title: 'Fixed title', callout: 'Long' }),
+        }),
+        prismaService,
+      );
+    });
+
+    it('should validate moved coordinates against the map radar', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue({ ...mockSmoke, deletedAt: null });
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+
+      // Act & Assert
+      await expect(service.update(1, { throw_x_coord: 0.3 }, 1)).rejects.toThrow(
+        new BadRequestException('Throw point requires both X and Y coordinates'),
+      );
+      await expect(service.update(1, { y_coord: 2 }, 1)).rejects.toThrow(BadRequestException);
+      // Radar coordinates do not depend on the map calibration
+      expect(prismaService.map.findUnique).not.toHaveBeenCalled();
+      expect(prismaService.smoke.update).not.toHaveBeenCalled();
+    });
+
+    it('should convert moved world coordinates with the map calibration', async () => {
+      // Arrange
+      prismaService.smoke.findUnique
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce({ ...mockSmoke, author: mockUser, map: mockMap });
+      prismaService.map.findUnique.mockResolvedValue(mockMap);
+      prismaService.smokeRevision.aggregate.mockResolvedValue({ _max: { revision: 1 } });
+      prismaService.smoke.update.mockResolvedValue({ ...mockSmoke, map: mockMap });
+      prismaService.rating.aggregate.mockResolvedValue({ _sum: { value: 0 } });
+
+      // Act
+      await service.update(1, { coordinateSpace: CoordinateSpace.WORLD, x_coord: -2476 + 768 * 4.4 }, 1);
+
+      // Assert
+      expect(prismaService.map.findUnique).toHaveBeenCalledWith({ where: { id: mockSmoke.mapId } });
+      const { data } = prismaService.smoke.update.mock.calls[0][0];
+      expect(data.x_coord).toBeCloseTo(0.75);
+      expect(data).not.toHaveProperty('y_coord');
+    });
+
+    it('should remove the throw point and its layer when both coordinates are null', async () => {
+      // Arrange
+      const thrownSmoke = { ...mockSmoke, throw_x_coord: 0.6, throw_y_coord: 0.7, throwLayerId: 3, deletedAt: null };
+      prismaService.smoke.findUnique
+        .mockResolvedValueOnce(thrownSmoke)
+        .mockResolvedValueOnce(thrownSmoke)
+        .mockResolvedValueOnce({ ...mockSmoke, author: mockUser, map: mockMap });
+      prismaService.smokeRevision.aggregate.mockResolvedValue({ _max: { revision: 1 } });
+      prismaService.smoke.update.mockResolvedValue({ ...mockSmoke, landingLayerId: null, throwLayerId: null, map: mockMap });
+      prismaService.rating.aggregate.mockResolvedValue({ _sum: { value: 0 } });
+
+      // Act
+      await service.update(1, { throw_x_coord: null, throw_y_coord: null }, 1);
+
+      // Assert
+      expect(prismaService.smoke.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 1 },
+          data: { throw_x_coord: null, throw_y_coord: null, throwLayerId: null },
+        }),
+      );
+      expect(prismaService.smokeRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ throw_x_coord: 0.6, throw_y_coord: 0.7, throwLayerId: 3 }),
+      });
+    });
+
+    it('should validate moved layers against the smoke map', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue({ ...mockSmoke, landingLayerId: 3, deletedAt: null });
+      prismaService.radarLayer.findMany.mockResolvedValue([{ id: 3 }, { id: 4 }]);
+
+      // Act & Assert
+      await expect(service.update(1, { landingLayerId: 7 }, 1)).rejects.toThrow(
+        new BadRequestException(`Radar layer with ID 7 does not belong to map ${mockSmoke.mapId}`),
+      );
+      expect(prismaService.smoke.update).not.toHaveBeenCalled();
+    });
+
+    it('should re-tag the callout zones of moved smokes', async () => {
+      // Arrange
+      prismaService.smoke.findUnique
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce({ ...mockSmoke, author: mockUser, map: mockMap });
+      prismaService.smokeRevision.aggregate.mockResolvedValue({ _max: { revision: 1 } });
+      prismaService.smoke.update.mockResolvedValue({
+        ...mockSmoke,
+        x_coord: 0.1,
+        throw_x_coord: null,
+        throw_y_coord: null,
+        landingLayerId: null,
+        throwLayerId: null,
+        map: mockMap,
+      });
+      prismaService.calloutZone.findMany.mockResolvedValue([
+        { id: 4, layerId: null, points: [{ x: 0, y: 0 }, { x: 0.2, y: 0 }, { x: 0.2, y: 1 }, { x: 0, y: 1 }] },
+      ]);
+      prismaService.rating.aggregate.mockResolvedValue({ _sum: { value: 0 } });
+
+      // Act
+      await service.update(1, { x_coord: 0.1 }, 1);
+
+      // Assert
+      expect(prismaService.smoke.update).toHaveBeenLastCalledWith({
+        where: { id: 1 },
+        data: { landingZoneId: 4, throwZoneId: null },
+      });
+    });
+
+    it('should not re-tag callout zones when the position is unchanged', async () => {
+      // Arrange
+      prismaService.smoke.findUnique
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce({ ...mockSmoke, author: mockUser, map: mockMap });
+      prismaService.smokeRevision.aggregate.mockResolvedValue({ _max: { revision: 1 } });
+      prismaService.smoke.update.mockResolvedValue({ ...mockSmoke, title: 'Fixed title', map: mockMap });
+      prismaService.rating.aggregate.mockResolvedValue({ _sum: { value: 0 } });
+
+      // Act
+      await service.update(1, { title: 'Fixed title' }, 1);
+
+      // Assert
+      expect(prismaService.calloutZone.findMany).not.toHaveBeenCalled();
+      expect(prismaService.smoke.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw NotFoundException for deleted smoke', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue({ ...mockSmoke, deletedAt: new Date() });
+
+      // Act & Assert
+      await expect(service.update(1, { title: 'New title' }, 1)).rejects.toThrow(
+        new NotFoundException('Smoke with ID 1 not found'),
+      );
+    });
+
+    it('should throw ForbiddenException when user does not own smoke', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue({ ...mockSmoke, deletedAt: null });
+
+      // Act & Assert
+      await expect(service.update(1, { title: 'New title' }, 2)).rejects.toThrow(
+        new ForbiddenException('You can only edit your own smokes'),
+      );
+      expect(prismaService.smoke.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findRevisions', () => {
+    it('should return revisions newest first with the changes of each edit', async () => {
+      // Arrange
+      const firstRevision = { ...mockSmoke, id: 10, revision: 1, smokeId: 1, editorId: 1, title: 'Xbx Smoke' };
+      const secondRevision = { ...mockSmoke, id: 11, revision: 2, smokeId: 1, editorId: 1, timestamp: 25 };
+
+      prismaService.smoke.findUnique.mockResolvedValue({ ...mockSmoke, deletedAt: null });
+      prismaService.smokeRevision.findMany.mockResolvedValue([firstRevision, secondRevision]);
+
+      // Act
+      const result = await service.findRevisions(1, 1);
+
+      // Assert
+      expect(prismaService.smokeRevision.findMany).toHaveBeenCalledWith({
+        where: { smokeId: 1 },
+        orderBy: { revision: 'asc' },
+      });
+      expect(result.map((revision) => revision.revision)).toEqual([2, 1]);
+      expect(result[0].changes).toEqual({ timestamp: { from: 25, to: 30 } });
+      expect(result[1].changes).toEqual({
+        title: { from: 'Xbx Smoke', to: 'Xbox Smoke' },
+        timestamp: { from: 30, to: 25 },
+      });
+    });
+
+    it('should throw ForbiddenException when user does not own smoke', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue({ ...mockSmoke, deletedAt: null });
+
+      // Act & Assert
+      await expect(service.findRevisions(1, 2)).rejects.toThrow(
+        new ForbiddenException('You can only view the history of your own smokes'),
+      );
+    });
+
+    it('should let moderators view the history of any smoke', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue({ ...mockSmoke, deletedAt: null });
+      prismaService.smokeRevision.findMany.mockResolvedValue([]);
+
+      // Act
+      const result = await service.findRevisions(1, 2, Role.MODERATOR);
+
+      // Assert
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('rollback', () => {
+    const revision = {
+      ...mockSmoke,
+      id: 10,
+      revision: 1,
+      smokeId: 1,
+      editorId: 1,
+      title: 'Original title',
+    };
+
+    it('should snapshot the current version and restore the revision', async () => {
+      // Arrange
+      prismaService.smoke.findUnique
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce({ ...mockSmoke, title: 'Original title', author: mockUser, map: mockMap });
+      prismaService.smokeRevision.findUnique.mockResolvedValue(revision);
+      prismaService.smokeRevision.aggregate.mockResolvedValue({ _max: { revision: 1 } });
+      prismaService.smoke.update.mockResolvedValue({ ...mockSmoke, title: 'Original title', map: mockMap });
+      prismaService.rating.aggregate.mockResolvedValue({ _sum: { value: 0 } });
+
+      // Act
+      const result = await service.rollback(1, 10, 1);
+
+      // Assert
+      expect(prismaService.smokeRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ title: mockSmoke.title, revision: 2, smokeId: 1 }),
+      });
+      expect(prismaService.smoke.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          title: 'Original title',
+          description: null,
+          grenadeType: mockSmoke.grenadeType,
+          side: mockSmoke.side,
+          callout: mockSmoke.callout,
+          videoUrl: mockSmoke.videoUrl,
+          videoProvider: VideoProvider.YOUTUBE,
+          videoId: 'dQw4w9WgXcQ',
+          timestamp: mockSmoke.timestamp,
+          x_coord: mockSmoke.x_coord,
+          y_coord: mockSmoke.y_coord,
+          throw_x_coord: null,
+          throw_y_coord: null,
+          throwStance: null,
+          throwMovement: null,
+          mouseButton: null,
+          requiresJumpThrowBind: false,
+          tickrateSensitive: false,
+        },
+        select: expect.any(Object),
+      });
+      // Search document and indexed points of the restored position
+      expect(prismaService.$executeRaw).toHaveBeenCalledTimes(2);
+      expect(result.title).toBe('Original title');
+    });
+
+    it('should throw NotFoundException for a revision of another smoke', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue({ ...mockSmoke, deletedAt: null });
+      prismaService.smokeRevision.findUnique.mockResolvedValue({ ...revision, smokeId: 2 });
+
+      // Act & Assert
+      await expect(service.rollback(1, 10, 1)).rejects.toThrow(
+        new NotFoundException('Revision with ID 10 not found for smoke 1'),
+      );
+      expect(prismaService.smoke.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenException when a regular user does not own the smoke', async () => {
+      // Arrange
+      prismaService.smoke.findUnique.mockResolvedValue({ ...mockSmoke, deletedAt: null });
+
+      // Act & Assert
+      await expect(service.rollback(1, 10, 2)).rejects.toThrow(
+        new ForbiddenException('You can only roll back your own smokes'),
+      );
+      expect(prismaService.smokeRevision.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should let moderators roll back any smoke and record them as the editor', async () => {
+      // Arrange
+      prismaService.smoke.findUnique
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce({ ...mockSmoke, deletedAt: null })
+        .mockResolvedValueOnce({ ...mockSmoke, title: 'Original title', author: mockUser, map: mockMap });
+      prismaService.smokeRevision.findUnique.mockResolvedValue(revision);
+      prismaService.smokeRevision.aggregate.mockResolvedValue({ _max: { revision: 1 } });
+      prismaService.smoke.update.mockResolvedValue({ ...mockSmoke, title: 'Original title', map: mockMap });
+      prismaService.rating.aggregate.mockResolvedValue({ _sum: { value: 0 } });
+
+      // Act
+      await service.rollback(1, 10, 2, Role.MODERATOR);
+
+      // Assert
+      expect(prismaService.smokeRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ smokeId: 1, editorId: 2 }),
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: 2, action: AuditAction.ROLLBACK }),
+        prismaService,
+      );
     });
   });
 });
\ No newline at end of file
@@ -1,116 +1,479 @@
-import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AuditAction,
+  AuditEntityType,
+  GrenadeType,
+  MouseButton,
+  Prisma,
+  Role,
+  SmokeRevision,
+  TeamSide,
+  ThrowMovement,
+  ThrowStance,
+  VideoProvider,
+} from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
-import { CreateSmokeDto } from '../common/dto/create-smoke.dto';
-import { SmokeResponseDto } from '../common/dto/smoke-response.dto';
+import { AuditService } from '../audit/audit.service';
+import { hasRole } from '../auth/roles';
+import { CoordinateSpace, CreateSmokeDto } from '../common/dto/create-smoke.dto';
+import { UpdateSmokeDto } from '../common/dto/update-smoke.dto';
+import { SmokeQueryDto, SmokeSort } from '../common/dto/smoke-query.dto';
+import { SmokeSearchQueryDto } from '../common/dto/smoke-search-query.dto';
+import { SmokeSpatialQueryDto, SpatialTarget } from '../common/dto/smoke-spatial-query.dto';
+import { PaginatedResponseDto } from '../common/dto/paginated-response.dto';
+import { ThrowTechniqueDto } from '../common/dto/throw-technique.dto';
+import { SmokeResponseDto, ThrowTechniqueResponseDto, VideoEmbedResponseDto } from '../common/dto/smoke-response.dto';
+import { SmokeDetailResponseDto } from '../common/dto/smoke-detail-response.dto';
+import { SmokeRevisionResponseDto } from '../common/dto/smoke-revision-response.dto';
+import { SmokeSearchResultDto } from '../common/dto/smoke-search-result.dto';
+import { SmokeSpatialResultDto } from '../common/dto/smoke-spatial-result.dto';
+import { DeletedSmokeResponseDto, PurgeResultResponseDto } from '../common/dto/deleted-smoke-response.dto';
+import {
+  CreatedSmokeResponseDto,
+  DuplicateCandidateDto,
+  DuplicateMatch,
+} from '../common/dto/created-smoke-response.dto';
+import { parseVideoUrl, toVideoEmbed } from '../common/video/video-url';
+import { RadarCalibration, isCalibrated, isWithinRadar, worldXToRadar, worldYToRadar } from '../maps/radar-coordinates';
+import { findZoneShapes, tagZones, ZonedPosition } from '../maps/callout-zones';
+import { SearchDocument, searchVectorSql, toSearchQuery } from './search-document';
+import { SMOKE_POINTS_SET, SpatialRegion, pointSql, regionCenter, regionSql } from './spatial-query';
+import { DEFAULT_DUPLICATE_RULES, DuplicateRules } from './duplicate-detection';
+import { DEFAULT_SMOKE_RETENTION, SmokeRetentionRules, purgeDeletedSmokes, restoreDeadline } from './smoke-retention';
+
+/**
+ * Fields of a smoke that can be edited and are tracked in its revision history
+ */
+const REVISION_FIELDS = [
+  'title',
+  'description',
+  'grenadeType',
+  'side',
+  'callout',
+  'videoUrl',
+  'timestamp',
+  'x_coord',
+  'y_coord',
+  'throw_x_coord',
+  'throw_y_coord',
+  'landingLayerId',
+  'throwLayerId',
+  'throwStance',
+  'throwMovement',
+  'mouseButton',
+  'requiresJumpThrowBind',
+  'tickrateSensitive',
+] as const;
+
+type RevisionSnapshot = Pick<SmokeRevision, (typeof REVISION_FIELDS)[number]>;
+
+type TechniqueColumns = Pick<
+  RevisionSnapshot,
+  'throwStance' | 'throwMovement' | 'mouseButton' | 'requiresJumpThrowBind' | 'tickrateSensitive'
+>;
+
+type SmokePosition = Pick<RevisionSnapshot, 'x_coord' | 'y_coord' | 'throw_x_coord' | 'throw_y_coord'>;
+
+const POSITION_FIELDS = ['x_coord', 'y_coord', 'throw_x_coord', 'throw_y_coord'];
+
+// Changing any of these can move a smoke into another callout zone
+const ZONED_FIELDS = [...POSITION_FIELDS, 'landingLayerId', 'throwLayerId'];
+
+const DEFAULT_PAGE_SIZE = 20;
+
+const DEFAULT_SPATIAL_LIMIT = 20;
+
+const MAX_DUPLICATE_CANDIDATES = 10;
+
+// Search results are paginated by relevance, which is not one of the listing sort orders
+const SEARCH_CURSOR_SORT = 'relevance';
+
+/**
+ * Position of the last smoke of a page in the selected sort order
+ */
+interface SmokeListCursor {
+  sort: SmokeSort | typeof SEARCH_CURSOR_SORT;
+  value: number;
+  id: number;
+  asOf?: string;
+}
+
+/**
+ * Smoke row returned by the raw listing and search queries
+ */
+interface SmokeListRow {
+  id: number;
+  title: string;
+  description: string | null;
+  grenadeType: GrenadeType;
+  side: TeamSide;
+  callout: string | null;
+  videoUrl: string;
+  videoProvider: VideoProvider | null;
+  videoId: string | null;
+  timestamp: number;
+  x_coord: number;
+  y_coord: number;
+  throw_x_coord: number | null;
+  throw_y_coord: number | null;
+  landingLayerId: number | null;
+  throwLayerId: number | null;
+  landingZoneId: number | null;
+  throwZoneId: number | null;
+  throwStance: ThrowStance | null;
+  throwMovement: ThrowMovement | null;
+  mouseButton: MouseButton | null;
+  requiresJumpThrowBind: boolean;
+  tickrateSensitive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  authorId: number;
+  mapId: number;
+  score: bigint;
+  // Value of the selected sort order, used for cursor pagination
+  sort_value: number;
+}
+
+interface DuplicateCandidateRow {
+  id: number;
+  title: string;
+  same_video: boolean;
+  landing_distance: number | null;
+  throw_distance: number | null;
+}
+
+const SMOKE_LIST_COLUMNS = Prisma.sql`
+  s.id,
+  s.title,
+  s.description,
+  s."grenadeType",
+  s.side,
+  s.callout,
+  s."videoUrl",
+  s."videoProvider",
+  s."videoId",
+  s.timestamp,
+  s.x_coord,
+  s.y_coord,
+  s.throw_x_coord,
+  s.throw_y_coord,
+  s."landingLayerId",
+  s."throwLayerId",
+  s."landingZoneId",
+  s."throwZoneId",
+  s."throwStance",
+  s."throwMovement",
+  s."mouseButton",
+  s."requiresJumpThrowBind",
+  s."tickrateSensitive",
+  s."createdAt",
+  s."updatedAt",
+  s."authorId",
+  s."mapId"
+`;
+
+const SMOKE_DETAILS_INCLUDE = {
+  author: {
+    select: {
+      id: true,
+      steamId: true,
+      username: true,
+      avatarUrl: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  },
+  map: {
+    select: {
+      id: true,
+      name: true,
+      thumbnail: true,
+    },
+  },
+} satisfies Prisma.SmokeInclude;
+
+type SmokeWithDetails = Prisma.SmokeGetPayload<{ include: typeof SMOKE_DETAILS_INCLUDE }>;
 
 @Injectable()
 export class SmokesService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly retention: SmokeRetentionRules;
+  private readonly duplicates: DuplicateRules;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    configService: ConfigService,
+  ) {
+    this.retention = {
+      restoreGraceDays: configService.get<number>('SMOKE_RESTORE_GRACE_DAYS', DEFAULT_SMOKE_RETENTION.restoreGraceDays),
+      purgeAfterDays: configService.get<number>('SMOKE_PURGE_AFTER_DAYS', DEFAULT_SMOKE_RETENTION.purgeAfterDays),
+    };
+    this.duplicates = {
+      maxDistance: configService.get<number>('SMOKE_DUPLICATE_DISTANCE', DEFAULT_DUPLICATE_RULES.maxDistance),
+      blockExact:
+        configService.get<string>('SMOKE_BLOCK_EXACT_DUPLICATES', String(DEFAULT_DUPLICATE_RULES.blockExact)) !== 'false',
+    };
+  }
 
   /**
-   * Find all smokes for a specific map with calculated rating scores
-   * Includes author and map data with proper joins
+   * Find smokes for a specific map with calculated rating scores, one page at a time
+   * Includes author and map data using a constant number of queries regardless of page size
+   * Supports grenade type, side, callout, throw technique, author, date range and minimum score filters,
+   * several sort orders and cursor-based pagination
    */
-  async findByMapId(mapId: number): Promise<SmokeResponseDto[]> {
-    // First verify the map exists
-    const mapExists = await this.prisma.map.findUnique({
+  async findByMapId(mapId: number, query: SmokeQueryDto = {}): Promise<PaginatedResponseDto<SmokeResponseDto>> {
+    // First verify the map exists, its data is shared by every smoke in the response
+    const map = await this.prisma.map.findUnique({
       where: { id: mapId },
+      select: SMOKE_DETAILS_INCLUDE.map.select,
     });
 
-    if (!mapExists) {
+    if (!map) {
       throw new NotFoundException(`Map with ID ${mapId} not found`);
     }
 
+    const sort = query.sort ?? SmokeSort.TOP;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const cursor = query.cursor ? this.decodeCursor(query.cursor, sort) : undefined;
+    // Trending depends on the current time, so later pages keep ranking against the time of the first page
+    const asOf = cursor?.asOf ? new Date(cursor.asOf) : new Date();
+
+    const filters = this.buildListFilters(query);
+    const minScoreFilter = query.minScore !== undefined ? Prisma.sql`AND score >= ${query.minScore}` : Prisma.empty;
+    const cursorFilter = cursor
+      ? Prisma.sql`AND (sort_value, id) < (${cursor.value}::double precision, ${cursor.id})`
+      : Prisma.empty;
+
     // Get smokes with calculated scores using raw query for better performance
-    const smokesWithScores = await this.prisma.$queryRaw<
-      Array<{
-        id: number;
-        title: string;
-        videoUrl: string;
-        timestamp: number;
-        x_coord: number;
-        y_coord: number;
-        createdAt: Date;
-        updatedAt: Date;
-        authorId: number;
-        mapId: number;
-        score: bigint;
-      }>
-    >`
-      SELECT 
-        s.id,
-        s.title,
-        s."videoUrl",
-        s.timestamp,
-        s.x_coord,
-        s.y_coord,
-        s."createdAt",
-        s."updatedAt",
-        s."authorId",
-        s."mapId",
-        COALESCE(SUM(r.value), 0) as score
+    // One extra row is fetched to know whether another page exists
+    const smokesWithScores = await this.prisma.$queryRaw<SmokeListRow[]>`
+      WITH scored AS (
+        SELECT
+          ${SMOKE_LIST_COLUMNS},
+          COALESCE(SUM(r.value), 0) as score,
+          COUNT(r.id) FILTER (WHERE r.value > 0) as upvotes,
+          COUNT(r.id) FILTER (WHERE r.value < 0) as downvotes
+        FROM smokes s
+        LEFT JOIN ratings r ON s.id = r."smokeId"
+        WHERE s."mapId" = ${mapId} AND s."deletedAt" IS NULL AND s."hiddenAt" IS NULL
+        ${filters}
+        GROUP BY s.id
+      ),
+      ranked AS (
+        SELECT scored.*, (${this.sortExpression(sort, asOf)})::double precision as sort_value
+        FROM scored
+      )
+      SELECT * FROM ranked
+      WHERE TRUE
+      ${minScoreFilter}
+      ${cursorFilter}
+      ORDER BY sort_value DESC, id DESC
+      LIMIT ${limit + 1}
+    `;
+
+    const hasMore = smokesWithScores.length > limit;
+    const page = smokesWithScores.slice(0, limit);
+    const last = page[page.length - 1];
+
+    const authorsById = await this.loadAuthors(page);
+    // Every smoke in the list belongs to the map loaded above
+    const smokesWithDetails = page.map((smoke) => this.toListResponseDto(smoke, authorsById.get(smoke.authorId), map));
+
+    return {
+      data: smokesWithDetails,
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore
+          ? this.encodeCursor({
+            sort,
+            value: Number(last.sort_value),
+            id: last.id,
+            asOf: sort === SmokeSort.TRENDING ? asOf.toISOString() : undefined,
+          })
+          : null,
+      },
+    };
+  }
+
+  /**
+   * Full-text search across smoke titles, descriptions, callouts and map names, ignoring accents
+   * Results are ranked by text relevance, nudged up or down by the rating score, and paginated by cursor
+   */
+  async search(query: SmokeSearchQueryDto): Promise<PaginatedResponseDto<SmokeSearchResultDto>> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const cursor = query.cursor ? this.decodeCursor(query.cursor, SEARCH_CURSOR_SORT) : undefined;
+    const tsQuery = toSearchQuery(query.q);
+
+    if (!tsQuery) {
+      return { data: [], pagination: { limit, hasMore: false, nextCursor: null } };
+    }
+
+    const mapFilter = query.mapId ? Prisma.sql`AND s."mapId" = ${query.mapId}` : Prisma.empty;
+    const cursorFilter = cursor
+      ? Prisma.sql`AND (sort_value, id) < (${cursor.value}::double precision, ${cursor.id})`
+      : Prisma.empty;
+
+    // The score weight ranges from 0.75 for heavily downvoted to 1.25 for heavily upvoted smokes,
+    // so ratings break ties between similar matches without burying better text matches
+    const results = await this.prisma.$queryRaw<SmokeListRow[]>`
+      WITH matched AS (
+        SELECT
+          ${SMOKE_LIST_COLUMNS},
+          ts_rank(s."searchVector", query) as text_rank,
+          (SELECT COALESCE(SUM(r.value), 0) FROM ratings r WHERE r."smokeId" = s.id) as score
+        FROM smokes s, to_tsquery('simple', ${tsQuery}) query
+        WHERE s."searchVector" @@ query AND s."deletedAt" IS NULL AND s."hiddenAt" IS NULL
+        ${mapFilter}
+      ),
+      ranked AS (
+        SELECT matched.*, (text_rank * (1 + 0.25 * score / (ABS(score) + 10.0)))::double precision as sort_value
+        FROM matched
+      )
+      SELECT * FROM ranked
+      WHERE TRUE
+      ${cursorFilter}
+      ORDER BY sort_value DESC, id DESC
+      LIMIT ${limit + 1}
+    `;
+
+    const hasMore = results.length > limit;
+    const page = results.slice(0, limit);
+    const last = page[page.length - 1];
+
+    const mapIds = [...new Set(page.map((smoke) => smoke.mapId))];
+    const [authorsById, maps] = await Promise.all([
+      this.loadAuthors(page),
+      mapIds.length
+        ? this.prisma.map.findMany({
+          where: { id: { in: mapIds } },
+          select: SMOKE_DETAILS_INCLUDE.map.select,
+        })
+        : [],
+    ]);
+    const mapsById = new Map(maps.map((map) => [map.id, map] as const));
+
+    return {
+      data: page.map((smoke) => ({
+        ...this.toListResponseDto(smoke, authorsById.get(smoke.authorId), mapsById.get(smoke.mapId)),
+        relevance: Number(smoke.sort_value),
+      })),
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore
+          ? this.encodeCursor({ sort: SEARCH_CURSOR_SORT, value: Number(last.sort_value), id: last.id })
+          : null,
+      },
+    };
+  }
+
+  /**
+   * Find the smokes of a map whose throw (default) or landing point lies within a radius of a point,
+   * a bounding box or a polygon, closest first
+   * Distances are measured from x/y when given, otherwise from the center of the region
+   */
+  async findWithin(mapId: number, query: SmokeSpatialQueryDto): Promise<SmokeSpatialResultDto[]> {
+    const region = this.toSpatialRegion(query);
+    const reference =
+      query.x !== undefined && query.y !== undefined ? { x: query.x, y: query.y } : regionCenter(region);
+
+    const map = await this.prisma.map.findUnique({
+      where: { id: mapId },
+      select: SMOKE_DETAILS_INCLUDE.map.select,
+    });
+
+    if (!map) {
+      throw new NotFoundException(`Map with ID ${mapId} not found`);
+    }
+
+    const landing = query.point === SpatialTarget.LANDING;
+    const column = landing ? Prisma.sql`s."landingPoint"` : Prisma.sql`s."throwPoint"`;
+    const layerFilter = !query.layerId
+      ? Prisma.empty
+      : landing
+        ? Prisma.sql`AND s."landingLayerId" = ${query.layerId}`
+        : Prisma.sql`AND s."throwLayerId" = ${query.layerId}`;
+
+    // Both the containment test and the distance ordering are served by the GiST index on the point column
+    const results = await this.prisma.$queryRaw<SmokeListRow[]>`
+      SELECT
+        ${SMOKE_LIST_COLUMNS},
+        (SELECT COALESCE(SUM(r.value), 0) FROM ratings r WHERE r."smokeId" = s.id) as score,
+        (${column} <-> ${pointSql(reference)})::double precision as sort_value
       FROM smokes s
-      LEFT JOIN ratings r ON s.id = r."smokeId"
-      WHERE s."mapId" = ${mapId} AND s."deletedAt" IS NULL
-      GROUP BY s.id
-      ORDER BY score DESC, s."createdAt" DESC
+      WHERE s."mapId" = ${mapId} AND s."deletedAt" IS NULL AND s."hiddenAt" IS NULL
+        AND ${column} <@ ${regionSql(region)}
+        ${layerFilter}
+      ORDER BY ${column} <-> ${pointSql(reference)}, s.id
+      LIMIT ${query.limit ?? DEFAULT_SPATIAL_LIMIT}
     `;
 
-    // Get author and map data for each smoke
-    const smokesWithDetails = await Promise.all(
-      smokesWithScores.map(async (smoke) => {
-        const [author, map] = await Promise.all([
-          this.prisma.user.findUnique({
-            where: { id: smoke.authorId },
-            select: {
-              id: true,
-              steamId: true,
-              username: true,
-              avatarUrl: true,
-              createdAt: true,
-              updatedAt: true,
-            },
-          }),
-          this.prisma.map.findUnique({
-            where: { id: smoke.mapId },
-            select: {
-              id: true,
-              name: true,
-              thumbnail: true,
-            },
-          }),
-        ]);
+    const authorsById = await this.loadAuthors(results);
 
-        return {
-          id: smoke.id,
-          title: smoke.title,
-          videoUrl: smoke.videoUrl,
-          timestamp: smoke.timestamp,
-          x_coord: smoke.x_coord,
-          y_coord: smoke.y_coord,
-          score: Number(smoke.score), // Convert BigInt to number
-          createdAt: smoke.createdAt,
-          updatedAt: smoke.updatedAt,
-          author: {
-            id: author.id,
-            steamId: author.steamId,
-            displayName: author.username, // Map username to displayName
-            avatarUrl: author.avatarUrl,
-            createdAt: author.createdAt,
-            updatedAt: author.updatedAt,
-          },
-          map,
-        } as SmokeResponseDto;
+    return results.map((smoke) => ({
+      ...this.toListResponseDto(smoke, authorsById.get(smoke.authorId), map),
+      distance: Number(smoke.sort_value),
+    }));
+  }
+
+  /**
+   * Find a single non-deleted smoke with its score and vote breakdown
+   * Smokes hidden by a moderator are only visible to their author
+   * When a viewer is given, also returns their own vote and whether they reported the smoke
+   */
+  async findById(id: number, viewerId?: number): Promise<SmokeDetailResponseDto> {
+    const smoke = await this.prisma.smoke.findUnique({
+      where: { id },
+      include: SMOKE_DETAILS_INCLUDE,
+    });
+
+    if (!smoke || smoke.deletedAt || (smoke.hiddenAt && smoke.authorId !== viewerId)) {
+      throw new NotFoundException(`Smoke with ID ${id} not found`);
+    }
+
+    const [votes, viewerRating, viewerReport] = await Promise.all([
+      this.prisma.rating.groupBy({
+        by: ['value'],
+        where: { smokeId: id },
+        _count: { _all: true },
       }),
-    );
+      viewerId
+        ? this.prisma.rating.findUnique({
+          where: { userId_smokeId: { userId: viewerId, smokeId: id } },
+          select: { value: true },
+        })
+        : null,
+      viewerId
+        ? this.prisma.report.findUnique({
+          where: { reporterId_smokeId: { reporterId: viewerId, smokeId: id } },
+          select: { id: true },
+        })
+        : null,
+    ]);
 
-    return smokesWithDetails;
+    const upvotes = votes.find((vote) => vote.value > 0)?._count._all ?? 0;
+    const downvotes = votes.find((vote) => vote.value < 0)?._count._all ?? 0;
+
+    return {
+      ...this.toResponseDto(smoke, upvotes - downvotes),
+      upvotes,
+      downvotes,
+      hidden: !!smoke.hiddenAt,
+      ...(viewerId && {
+        userVote: viewerRating?.value ?? null,
+        hasReported: !!viewerReport,
+      }),
+    };
   }
 
   /**
    * Create a new smoke with authorId assignment from JWT payload
+   * Returns existing smokes that look like the same lineup, reposts of the same video and timestamp are rejected
+   * unless SMOKE_BLOCK_EXACT_DUPLICATES is false
    */
-  async create(createSmokeDto: CreateSmokeDto, authorId: number): Promise<SmokeResponseDto> {
+  async create(createSmokeDto: CreateSmokeDto, authorId: number): Promise<CreatedSmokeResponseDto> {
     // Verify the map exists
     const mapExists = await this.prisma.map.findUnique({
       where: { id: createSmokeDto.mapId },
@@ -120,50 +483,862 @@ export class SmokesService {
       throw new NotFoundException(`Map with ID ${createSmokeDto.mapId} not found`);
     }
 
-    // Create the smoke
-    const smoke = await this.prisma.smoke.create({
-      data: {
-        title: createSmokeDto.title,
-        videoUrl: createSmokeDto.videoUrl,
-        timestamp: createSmokeDto.timestamp,
-        x_coord: createSmokeDto.x_coord,
-        y_coord: createSmokeDto.y_coord,
-        authorId,
-        mapId: createSmokeDto.mapId,
+    if (mapExists.archivedAt) {
+      throw new BadRequestException(`Map with ID ${createSmokeDto.mapId} is archived`);
+    }
+
+    const position = this.toRadarPosition(mapExists, createSmokeDto);
+
+    this.assertWithinRadar({
+      x_coord: position.x_coord,
+      y_coord: position.y_coord,
+      throw_x_coord: position.throw_x_coord ?? null,
+      throw_y_coord: position.throw_y_coord ?? null,
+    });
+
+    const video = this.resolveVideo(createSmokeDto.videoUrl, createSmokeDto.timestamp);
+
+    if (video.timestamp === undefined) {
+      throw new BadRequestException('Timestamp is required when the video URL has no start time');
+    }
+
+    const layers = await this.resolveLayers(createSmokeDto.mapId, createSmokeDto, true);
+    const placement: ZonedPosition = {
+      x_coord: position.x_coord,
+      y_coord: position.y_coord,
+      throw_x_coord: position.throw_x_coord ?? null,
+      throw_y_coord: position.throw_y_coord ?? null,
+      landingLayerId: layers.landingLayerId,
+      throwLayerId: layers.throwLayerId,
+    };
+    const zones = tagZones(await findZoneShapes(this.prisma, createSmokeDto.mapId), placement);
+    const videoColumns = this.toVideoColumns(video.videoUrl);
+
+    const possibleDuplicates = await this.findDuplicateCandidates({
+      ...placement,
+      ...videoColumns,
+      mapId: createSmokeDto.mapId,
+      timestamp: video.timestamp,
+    });
+    const exactIds = possibleDuplicates
+      .filter((candidate) => candidate.match === DuplicateMatch.SAME_VIDEO)
+      .map((candidate) => candidate.id);
+
+    if (this.duplicates.blockExact && exactIds.length) {
+      throw new ConflictException({
+        message: `Smoke with the same video and timestamp already exists: ${exactIds.join(', ')}`,
+        error: 'DuplicateSmoke',
+        details: { duplicateIds: exactIds },
+      });
+    }
+
+    // Create the smoke together with its search document
+    const smoke = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.smoke.create({
+        data: {
+          title: createSmokeDto.title,
+          description: createSmokeDto.description,
+          grenadeType: createSmokeDto.grenadeType,
+          side: createSmokeDto.side,
+          callout: createSmokeDto.callout,
+          videoUrl: video.videoUrl,
+          ...videoColumns,
+          timestamp: video.timestamp,
+          ...position,
+          ...layers,
+          ...zones,
+          ...this.toTechniqueColumns(createSmokeDto.technique),
+          authorId,
+          mapId: createSmokeDto.mapId,
+        },
+        include: SMOKE_DETAILS_INCLUDE,
+      });
+
+      await this.refreshSearchVector(tx, created.id, { ...created, mapName: created.map.name });
+      await this.refreshPoints(tx, created.id);
+      await this.auditService.record(
+        {
+          actorId: authorId,
+          action: AuditAction.CREATE,
+          entityType: AuditEntityType.SMOKE,
+          entityId: created.id,
+          after: { ...this.toSnapshot(created), mapId: created.mapId },
+        },
+        tx,
+      );
+
+      return created;
+    });
+
+    return { ...this.toResponseDto(smoke, 0), possibleDuplicates }; // New smoke has no ratings yet
+  }
+
+  /**
+   * Update a smoke with ownership validation
+   * The previous version is stored as a revision before the changes are applied
+   */
+  async update(id: number, updateSmokeDto: UpdateSmokeDto, userId: number): Promise<SmokeResponseDto> {
+    const smoke = await this.findOwnedSmoke(id, userId, 'edit');
+
+    // World coordinates depend on the map calibration, radar coordinates are stored as submitted
+    const position =
+      updateSmokeDto.coordinateSpace === CoordinateSpace.WORLD
+        ? this.toRadarPosition(await this.prisma.map.findUnique({ where: { id: smoke.mapId } }), updateSmokeDto)
+        : {};
+
+    const fields = {
+      ...updateSmokeDto,
+      ...position,
+      ...(updateSmokeDto.videoUrl && this.resolveVideo(updateSmokeDto.videoUrl, updateSmokeDto.timestamp)),
+      ...this.toTechniqueColumns(updateSmokeDto.technique),
+      // Removing the throw point also removes its layer
+      ...(updateSmokeDto.throw_x_coord === null && { throwLayerId: null }),
+    };
+
+    if (Object.keys(this.pickChangedFields(smoke, fields)).length === 0) {
+      return this.findDetails(id);
+    }
+
+    if (fields.landingLayerId !== undefined || fields.throwLayerId !== undefined) {
+      await this.resolveLayers(smoke.mapId, fields, false);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      // Another edit may have been applied since the smoke was read, changes are taken against the locked row
+      const current = await this.lockSmoke(tx, id);
+      const changes = this.pickChangedFields(current, fields);
+
+      if (Object.keys(changes).length === 0) {
+        return;
+      }
+
+      if (POSITION_FIELDS.some((field) => field in changes)) {
+        this.assertWithinRadar({ ...current, ...changes });
+      }
+
+      await this.createRevision(tx, current, userId);
+      await this.applyChanges(tx, id, changes);
+      await this.auditService.record(
+        {
+          actorId: userId,
+          action: AuditAction.UPDATE,
+          entityType: AuditEntityType.SMOKE,
+          entityId: id,
+          before: this.toSnapshot(current),
+          after: { ...this.toSnapshot(current), ...changes },
+        },
+        tx,
+      );
+    });
+
+    return this.findDetails(id);
+  }
+
+  /**
+   * List the revision history of a smoke, newest first
+   * Each revision includes the field changes made by the edit that replaced it
+   * Available to the author, moderators and admins
+   */
+  async findRevisions(id: number, userId: number, role: Role = Role.USER): Promise<SmokeRevisionResponseDto[]> {
+    const smoke = await this.findOwnedSmoke(id, userId, 'view the history of', role);
+
+    const revisions = await this.prisma.smokeRevision.findMany({
+      where: { smokeId: id },
+      orderBy: { revision: 'asc' },
+    });
+
+    return revisions
+      .map((revision, index) => {
+        const next = revisions[index + 1] ?? smoke;
+
+        return {
+          id: revision.id,
+          revision: revision.revision,
+          title: revision.title,
+          description: revision.description,
+          grenadeType: revision.grenadeType,
+          side: revision.side,
+          callout: revision.callout,
+          videoUrl: revision.videoUrl,
+          timestamp: revision.timestamp,
+          x_coord: revision.x_coord,
+          y_coord: revision.y_coord,
+          throw_x_coord: revision.throw_x_coord,
+          throw_y_coord: revision.throw_y_coord,
+          landingLayerId: revision.landingLayerId,
+          throwLayerId: revision.throwLayerId,
+          technique: this.toTechnique(revision),
+          editorId: revision.editorId,
+          createdAt: revision.createdAt,
+          changes: this.diffSnapshots(revision, next),
+        };
+      })
+      .reverse();
+  }
+
+  /**
+   * Restore a smoke to the state stored in one of its revisions
+   * The current version is stored as a new revision first, so a rollback can itself be undone
+   * Available to the author, moderators and admins
+   */
+  async rollback(id: number, revisionId: number, userId: number, role: Role = Role.USER): Promise<SmokeResponseDto> {
+    await this.findOwnedSmoke(id, userId, 'roll back', role);
+
+    const revision = await this.prisma.smokeRevision.findUnique({
+      where: { id: revisionId },
+    });
+
+    if (!revision || revision.smokeId !== id) {
+      throw new NotFoundException(`Revision with ID ${revisionId} not found for smoke ${id}`);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const current = await this.lockSmoke(tx, id);
+
+      await this.createRevision(tx, current, userId);
+      await this.applyChanges(tx, id, this.toSnapshot(revision));
+      await this.auditService.record(
+        {
+          actorId: userId,
+          action: AuditAction.ROLLBACK,
+          entityType: AuditEntityType.SMOKE,
+          entityId: id,
+          before: this.toSnapshot(current),
+          after: { ...this.toSnapshot(revision), revision: revision.revision },
+        },
+        tx,
+      );
+    });
+
+    return this.findDetails(id);
+  }
+
+  /**
+   * Soft delete a smoke with ownership validation
+   * User can only delete their own smokes, moderators and admins can delete any smoke
+   */
+  async delete(id: number, userId: number, role: Role = Role.USER): Promise<void> {
+    // First check if the smoke exists and get its author
+    const smoke = await this.prisma.smoke.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        authorId: true,
+        deletedAt: true,
       },
-      include: {
-        author: {
-          select: {
-            id: true,
-            steamId: true,
-            username: true,
-            avatarUrl: true,
-            createdAt: true,
-            updatedAt: true,
-          },
+    });
+
+    if (!smoke) {
+      throw new NotFoundException(`Smoke with ID ${id} not found`);
+    }
+
+    if (smoke.deletedAt) {
+      throw new NotFoundException(`Smoke with ID ${id} already deleted`);
+    }
+
+    // Check ownership
+    if (smoke.authorId !== userId && !hasRole(role, Role.MODERATOR)) {
+      throw new ForbiddenException('You can only delete your own smokes');
+    }
+
+    // Soft delete the smoke by setting deletedAt
+    const deletedAt = new Date();
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.smoke.update({
+        where: { id },
+        data: {
+          deletedAt,
+          deletedById: userId,
         },
-        map: {
-          select: {
-            id: true,
-            name: true,
-            thumbnail: true,
-          },
+      });
+      await this.auditService.record(
+        {
+          actorId: userId,
+          action: AuditAction.DELETE,
+          entityType: AuditEntityType.SMOKE,
+          entityId: id,
+          before: { deletedAt: null },
+          after: { deletedAt },
         },
+        tx,
+      );
+    });
+  }
+
+  /**
+   * List the smokes the user authored that are deleted but not purged yet, most recently deleted first
+   */
+  async findDeleted(userId: number): Promise<DeletedSmokeResponseDto[]> {
+    const smokes = await this.prisma.smoke.findMany({
+      where: { authorId: userId, deletedAt: { not: null } },
+      include: SMOKE_DETAILS_INCLUDE,
+      orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+    });
+
+    const scores = smokes.length
+      ? await this.prisma.rating.groupBy({
+        by: ['smokeId'],
+        where: { smokeId: { in: smokes.map((smoke) => smoke.id) } },
+        _sum: { value: true },
+      })
+      : [];
+    const scoreBySmoke = new Map(scores.map((score) => [score.smokeId, score._sum.value ?? 0]));
+
+    return smokes.map((smoke) => ({
+      ...this.toResponseDto(smoke, scoreBySmoke.get(smoke.id) ?? 0),
+      deletedAt: smoke.deletedAt,
+      restorableUntil:
+        smoke.deletedById === smoke.authorId ? restoreDeadline(smoke.deletedAt, this.retention) : null,
+    }));
+  }
+
+  /**
+   * Undo the deletion of a smoke
+   * Authors can restore smokes they deleted themselves within the grace period, admins can restore any smoke
+   */
+  async restore(id: number, userId: number, role: Role = Role.USER): Promise<SmokeResponseDto> {
+    const smoke = await this.prisma.smoke.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        authorId: true,
+        deletedAt: true,
+        deletedById: true,
       },
     });
 
+    if (!smoke || !smoke.deletedAt) {
+      throw new NotFoundException(`Deleted smoke with ID ${id} not found`);
+    }
+
+    if (!hasRole(role, Role.ADMIN)) {
+      if (smoke.authorId !== userId) {
+        throw new ForbiddenException('You can only restore your own smokes');
+      }
+
+      if (smoke.deletedById !== smoke.authorId) {
+        throw new ForbiddenException('Smokes removed by a moderator can only be restored by an admin');
+      }
+
+      if (restoreDeadline(smoke.deletedAt, this.retention) < new Date()) {
+        throw new BadRequestException(
+          `Smokes can only be restored within ${this.retention.restoreGraceDays} days of being deleted`,
+        );
+      }
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.smoke.update({
+        where: { id },
+        data: {
+          deletedAt: null,
+          deletedById: null,
+        },
+      });
+      await this.auditService.record(
+        {
+          actorId: userId,
+          action: AuditAction.RESTORE,
+          entityType: AuditEntityType.SMOKE,
+          entityId: id,
+          before: { deletedAt: smoke.deletedAt, deletedById: smoke.deletedById },
+          after: { deletedAt: null, deletedById: null },
+        },
+        tx,
+      );
+    });
+
+    return this.findDetails(id);
+  }
+
+  /**
+   * Permanently remove smokes deleted longer ago than the configured retention window,
+   * together with their ratings and reports
+   */
+  async purgeDeleted(): Promise<PurgeResultResponseDto> {
+    return purgeDeletedSmokes(this.prisma, this.retention.purgeAfterDays);
+  }
+
+  /**
+   * Load a non-deleted smoke and verify the user is its author
+   * Moderators and admins pass the check when their role is given
+   */
+  private async findOwnedSmoke(id: number, userId: number, action: string, role: Role = Role.USER) {
+    const smoke = await this.prisma.smoke.findUnique({
+      where: { id },
+    });
+
+    if (!smoke || smoke.deletedAt) {
+      throw new NotFoundException(`Smoke with ID ${id} not found`);
+    }
+
+    if (smoke.authorId !== userId && !hasRole(role, Role.MODERATOR)) {
+      throw new ForbiddenException(`You can only ${action} your own smokes`);
+    }
+
+    return smoke;
+  }
+
+  /**
+   * Build the optional WHERE conditions for listing smokes on a map
+   */
+  private buildListFilters(query: SmokeQueryDto): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [];
+
+    if (query.type?.length) {
+      conditions.push(Prisma.sql`s."grenadeType"::text IN (${Prisma.join(query.type)})`);
+    }
+
+    if (query.side) {
+      conditions.push(Prisma.sql`s.side::text IN (${query.side}, ${TeamSide.BOTH})`);
+    }
+
+    if (query.callout) {
+      const pattern = `%${query.callout.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(Prisma.sql`s.callout ILIKE ${pattern}`);
+    }
+
+    if (query.authorId) {
+      conditions.push(Prisma.sql`s."authorId" = ${query.authorId}`);
+    }
+
+    if (query.layerId) {
+      conditions.push(Prisma.sql`(s."landingLayerId" = ${query.layerId} OR s."throwLayerId" = ${query.layerId})`);
+    }
+
+    if (query.landingZoneId) {
+      conditions.push(Prisma.sql`s."landingZoneId" = ${query.landingZoneId}`);
+    }
+
+    if (query.throwZoneId) {
+      conditions.push(Prisma.sql`s."throwZoneId" = ${query.throwZoneId}`);
+    }
+
+    if (query.createdFrom) {
+      conditions.push(Prisma.sql`s."createdAt" >= ${new Date(query.createdFrom)}`);
+    }
+
+    if (query.createdTo) {
+      conditions.push(Prisma.sql`s."createdAt" <= ${new Date(query.createdTo)}`);
+    }
+
+    if (query.stance?.length) {
+      conditions.push(Prisma.sql`s."throwStance"::text IN (${Prisma.join(query.stance)})`);
+    }
+
+    if (query.movement?.length) {
+      conditions.push(Prisma.sql`s."throwMovement"::text IN (${Prisma.join(query.movement)})`);
+    }
+
+    if (query.mouseButton?.length) {
+      conditions.push(Prisma.sql`s."mouseButton"::text IN (${Prisma.join(query.mouseButton)})`);
+    }
+
+    if (query.jumpThrowBind !== undefined) {
+      conditions.push(Prisma.sql`s."requiresJumpThrowBind" = ${query.jumpThrowBind}`);
+    }
+
+    if (query.tickrateSensitive !== undefined) {
+      conditions.push(Prisma.sql`s."tickrateSensitive" = ${query.tickrateSensitive}`);
+    }
+
+    return conditions.length ? Prisma.sql`AND ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+  }
+
+  /**
+   * Ranking value for each sort order, evaluated over the scored smokes (higher comes first)
+   * - top: net rating score
+   * - new: insertion order
+   * - controversial: many votes split close to evenly between up and down
+   * - trending: score decayed by age in hours, like Hacker News ranking
+   */
+  private sortExpression(sort: SmokeSort, asOf: Date): Prisma.Sql {
+    switch (sort) {
+      case SmokeSort.NEW:
+        return Prisma.sql`id`;
+      case SmokeSort.CONTROVERSIAL:
+        return Prisma.sql`
+          CASE WHEN upvotes = 0 OR downvotes = 0 THEN 0
+          ELSE POWER(upvotes + downvotes, LEAST(upvotes, downvotes)::double precision / GREATEST(upvotes, downvotes))
+          END`;
+      case SmokeSort.TRENDING:
+        return Prisma.sql`
+          score / POWER(GREATEST(EXTRACT(EPOCH FROM (${asOf}::timestamp - "createdAt")) / 3600, 0) + 2, 1.5)`;
+      case SmokeSort.TOP:
+      default:
+        return Prisma.sql`score`;
+    }
+  }
+
+  private encodeCursor(cursor: SmokeListCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  /**
+   * Parse a cursor produced by encodeCursor, rejecting tampered cursors or ones from another sort order
+   */
+  private decodeCursor(raw: string, sort: SmokeListCursor['sort']): SmokeListCursor {
+    let cursor: SmokeListCursor;
+
+    try {
+      cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    } catch {
+      throw new BadRequestException('Invalid pagination cursor');
+    }
+
+    const isValid =
+      cursor?.sort === sort &&
+      typeof cursor.value === 'number' &&
+      Number.isFinite(cursor.value) &&
+      Number.isInteger(cursor.id) &&
+      (cursor.asOf === undefined || !Number.isNaN(Date.parse(cursor.asOf)));
+
+    if (!isValid) {
+      throw new BadRequestException('Invalid pagination cursor');
+    }
+
+    return cursor;
+  }
+
+  /**
+   * Map the nested technique DTO onto the flat smoke columns, leaving omitted fields undefined
+   */
+  private toTechniqueColumns(technique?: ThrowTechniqueDto): Partial<TechniqueColumns> {
+    return {
+      throwStance: technique?.stance,
+      throwMovement: technique?.movement,
+      mouseButton: technique?.mouseButton,
+      requiresJumpThrowBind: technique?.requiresJumpThrowBind,
+      tickrateSensitive: technique?.tickrateSensitive,
+    };
+  }
+
+  private toTechnique(source: TechniqueColumns): ThrowTechniqueResponseDto {
+    return {
+      stance: source.throwStance,
+      movement: source.throwMovement,
+      mouseButton: source.mouseButton,
+      requiresJumpThrowBind: source.requiresJumpThrowBind,
+      tickrateSensitive: source.tickrateSensitive,
+    };
+  }
+
+  /**
+   * Normalise a submitted video link to its canonical form
+   * A start time in the link is used as the timestamp unless one is given explicitly
+   */
+  private resolveVideo(videoUrl: string, timestamp?: number): { videoUrl: string; timestamp?: number } {
+    const video = parseVideoUrl(videoUrl);
+
+    if (!video) {
+      throw new BadRequestException('Video URL must link to a YouTube, Twitch clip, Streamable or Medal video');
+    }
+
+    return { videoUrl: video.url, timestamp: timestamp ?? video.startTime ?? undefined };
+  }
+
+  private toVideoColumns(videoUrl: string): { videoProvider: VideoProvider | null; videoId: string | null } {
+    const video = parseVideoUrl(videoUrl);
+
+    return { videoProvider: video?.provider ?? null, videoId: video?.videoId ?? null };
+  }
+
+  /**
+   * Describe the video for embedding, falling back to parsing the link of smokes stored without provider columns
+   */
+  private toVideo(
+    smoke: Pick<SmokeListRow, 'videoUrl' | 'videoProvider' | 'videoId' | 'timestamp'>,
+  ): VideoEmbedResponseDto | null {
+    const video = smoke.videoProvider && smoke.videoId
+      ? { provider: smoke.videoProvider, videoId: smoke.videoId }
+      : parseVideoUrl(smoke.videoUrl);
+
+    return video ? toVideoEmbed(video.provider, video.videoId, smoke.timestamp) : null;
+  }
+
+  /**
+   * Convert submitted coordinates to normalised radar coordinates, leaving fields that were not submitted undefined
+   */
+  private toRadarPosition<T extends Partial<Pick<CreateSmokeDto, 'coordinateSpace' | keyof SmokePosition>>>(
+    map: RadarCalibration & { id: number },
+    dto: T,
+  ): Pick<T, keyof SmokePosition> {
+    if (dto.coordinateSpace !== CoordinateSpace.WORLD) {
+      return { x_coord: dto.x_coord, y_coord: dto.y_coord, throw_x_coord: dto.throw_x_coord, throw_y_coord: dto.throw_y_coord };
+    }
+
+    if (!isCalibrated(map)) {
+      throw new BadRequestException(`Map with ID ${map.id} has no radar calibration, submit radar coordinates instead`);
+    }
+
+    // Null throw coordinates remove the throw point and are passed through
+    const toRadarX = (x?: number | null) => (x === undefined || x === null ? x : worldXToRadar(map, x));
+    const toRadarY = (y?: number | null) => (y === undefined || y === null ? y : worldYToRadar(map, y));
+
+    return {
+      x_coord: toRadarX(dto.x_coord),
+      y_coord: toRadarY(dto.y_coord),
+      throw_x_coord: toRadarX(dto.throw_x_coord),
+      throw_y_coord: toRadarY(dto.throw_y_coord),
+    } as Pick<T, keyof SmokePosition>;
+  }
+
+  /**
+   * Check that the submitted radar layers belong to the smoke's map
+   * With defaults applied, new smokes on multi-level maps land on the map's first layer
+   * and are thrown from their landing layer unless another one is given
+   */
+  private async resolveLayers(
+    mapId: number,
+    dto: Partial<Pick<CreateSmokeDto, 'landingLayerId' | 'throwLayerId' | 'throw_x_coord'>>,
+    applyDefaults: boolean,
+  ): Promise<Partial<Pick<RevisionSnapshot, 'landingLayerId' | 'throwLayerId'>>> {
+    const requested = [dto.landingLayerId, dto.throwLayerId].filter((layerId) => layerId !== undefined);
+
+    if (!requested.length && !applyDefaults) {
+      return {};
+    }
+
+    const layers = await this.prisma.radarLayer.findMany({
+      where: { mapId },
+      select: { id: true },
+      orderBy: [{ displayOrder: 'asc' }, { id: 'asc' }],
+    });
+    const unknown = requested.find((layerId) => layerId !== null && !layers.some((layer) => layer.id === layerId));
+
+    if (unknown !== undefined) {
+      throw new BadRequestException(`Radar layer with ID ${unknown} does not belong to map ${mapId}`);
+    }
+
+    if (!applyDefaults) {
+      return { landingLayerId: dto.landingLayerId, throwLayerId: dto.throwLayerId };
+    }
+
+    const landingLayerId = dto.landingLayerId ?? layers[0]?.id ?? null;
+
+    return {
+      landingLayerId,
+      throwLayerId: dto.throwLayerId ?? (dto.throw_x_coord !== undefined ? landingLayerId : null),
+    };
+  }
+
+  /**
+   * Find live smokes of a map that look like the given lineup: the same video at the same timestamp,
+   * or landing on the same layer and thrown from within the duplicate distance of its points
+   * Smokes without a throw point match on their landing point alone
+   */
+  private async findDuplicateCandidates(
+    probe: ZonedPosition & {
+      mapId: number;
+      videoProvider: VideoProvider | null;
+      videoId: string | null;
+      timestamp: number;
+    },
+  ): Promise<DuplicateCandidateDto[]> {
+    const radius = this.duplicates.maxDistance;
+    const landing = pointSql({ x: probe.x_coord, y: probe.y_coord });
+    const thrown =
+      probe.throw_x_coord !== null && probe.throw_y_coord !== null
+        ? pointSql({ x: probe.throw_x_coord, y: probe.throw_y_coord })
+        : null;
+    const sameVideo = probe.videoId
+      ? Prisma.sql`(s."videoProvider"::text = ${probe.videoProvider} AND s."videoId" = ${probe.videoId}
+          AND s.timestamp = ${probe.timestamp})`
+      : Prisma.sql`FALSE`;
+    const throwMatch = thrown
+      ? Prisma.sql`AND (s."throwPoint" IS NULL OR s."throwPoint" <@ circle(${thrown}, ${radius}::double precision))`
+      : Prisma.empty;
+
+    const rows = await this.prisma.$queryRaw<DuplicateCandidateRow[]>`
+      SELECT
+        s.id,
+        s.title,
+        ${sameVideo} as same_video,
+        (s."landingPoint" <-> ${landing})::double precision as landing_distance,
+        ${thrown ? Prisma.sql`(s."throwPoint" <-> ${thrown})::double precision` : Prisma.sql`NULL::double precision`}
+          as throw_distance
+      FROM smokes s
+      WHERE s."mapId" = ${probe.mapId} AND s."deletedAt" IS NULL AND s."hiddenAt" IS NULL
+        AND (
+          ${sameVideo}
+          OR (
+            s."landingPoint" <@ circle(${landing}, ${radius}::double precision)
+            AND s."landingLayerId" IS NOT DISTINCT FROM ${probe.landingLayerId}::integer
+            ${throwMatch}
+          )
+        )
+      ORDER BY same_video DESC, landing_distance, s.id
+      LIMIT ${MAX_DUPLICATE_CANDIDATES}
+    `;
+
+    return rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      match: row.same_video ? DuplicateMatch.SAME_VIDEO : DuplicateMatch.NEARBY,
+      landingDistance: row.landing_distance,
+      throwDistance: row.throw_distance,
+    }));
+  }
+
+  /**
+   * Pick the region of a spatial query, exactly one of a radius, a bounding box or a polygon must be given
+   */
+  private toSpatialRegion(query: SmokeSpatialQueryDto): SpatialRegion {
+    const box = [query.minX, query.minY, query.maxX, query.maxY];
+    const hasBox = box.some((value) => value !== undefined);
+    const regionCount = [query.radius !== undefined, hasBox, query.polygon !== undefined].filter(Boolean).length;
+
+    if (regionCount !== 1) {
+      throw new BadRequestException('Provide exactly one of radius, a bounding box or polygon');
+    }
+
+    if ((query.x === undefined) !== (query.y === undefined)) {
+      throw new BadRequestException('Reference point requires both x and y');
+    }
+
+    if (query.radius !== undefined) {
+      if (query.x === undefined) {
+        throw new BadRequestException('Radius requires x and y');
+      }
+
+      return { kind: 'circle', center: { x: query.x, y: query.y }, radius: query.radius };
+    }
+
+    if (hasBox) {
+      if (box.some((value) => value === undefined)) {
+        throw new BadRequestException('Bounding box requires minX, minY, maxX and maxY');
+      }
+
+      if (query.minX > query.maxX || query.minY > query.maxY) {
+        throw new BadRequestException('Bounding box minimum must not exceed its maximum');
+      }
+
+      return { kind: 'box', min: { x: query.minX, y: query.minY }, max: { x: query.maxX, y: query.maxY } };
+    }
+
+    return { kind: 'polygon', points: query.polygon };
+  }
+
+  /**
+   * Ensure the landing point and, when present, the throw point lie inside the map radar
+   */
+  private assertWithinRadar(position: SmokePosition): void {
+    const isInside = (x: number, y: number) => isWithinRadar({ x, y });
+    const bounds = '(0-1 x 0-1)';
+
+    if (!isInside(position.x_coord, position.y_coord)) {
+      throw new BadRequestException(`Landing point must be within the map radar bounds ${bounds}`);
+    }
+
+    const hasThrowPoint = position.throw_x_coord !== null || position.throw_y_coord !== null;
+
+    if (hasThrowPoint && (position.throw_x_coord === null || position.throw_y_coord === null)) {
+      throw new BadRequestException('Throw point requires both X and Y coordinates');
+    }
+
+    if (hasThrowPoint && !isInside(position.throw_x_coord, position.throw_y_coord)) {
+      throw new BadRequestException(`Throw point must be within the map radar bounds ${bounds}`);
+    }
+  }
+
+  /**
+   * Load a smoke with author, map and current rating score
+   */
+  private async findDetails(id: number): Promise<SmokeResponseDto> {
+    const [smoke, rating] = await Promise.all([
+      this.prisma.smoke.findUnique({
+        where: { id },
+        include: SMOKE_DETAILS_INCLUDE,
+      }),
+      this.prisma.rating.aggregate({
+        where: { smokeId: id },
+        _sum: { value: true },
+      }),
+    ]);
+
+    return this.toResponseDto(smoke, rating._sum.value ?? 0);
+  }
+
+  /**
+   * Load the authors of a page of smokes in a single query instead of one lookup per smoke
+   */
+  private async loadAuthors(smokes: SmokeListRow[]) {
+    const authorIds = [...new Set(smokes.map((smoke) => smoke.authorId))];
+    const authors = authorIds.length
+      ? await this.prisma.user.findMany({
+        where: { id: { in: authorIds } },
+        select: SMOKE_DETAILS_INCLUDE.author.select,
+      })
+      : [];
+
+    return new Map(authors.map((author) => [author.id, author]));
+  }
+
+  private toListResponseDto(
+    smoke: SmokeListRow,
+    author: SmokeWithDetails['author'],
+    map: SmokeWithDetails['map'],
+  ): SmokeResponseDto {
     return {
       id: smoke.id,
       title: smoke.title,
+      description: smoke.description,
+      grenadeType: smoke.grenadeType,
+      side: smoke.side,
+      callout: smoke.callout,
       videoUrl: smoke.videoUrl,
       timestamp: smoke.timestamp,
+      video: this.toVideo(smoke),
       x_coord: smoke.x_coord,
       y_coord: smoke.y_coord,
-      score: 0, // New smoke has no ratings yet
+      throw_x_coord: smoke.throw_x_coord,
+      throw_y_coord: smoke.throw_y_coord,
+      landingLayerId: smoke.landingLayerId,
+      throwLayerId: smoke.throwLayerId,
+      landingZoneId: smoke.landingZoneId,
+      throwZoneId: smoke.throwZoneId,
+      technique: this.toTechnique(smoke),
+      score: Number(smoke.score), // Convert BigInt to number
       createdAt: smoke.createdAt,
       updatedAt: smoke.updatedAt,
       author: {
-        id: smoke.authorId,
+        id: author.id,
+        steamId: author.steamId,
+        displayName: author.username, // Map username to displayName
+        avatarUrl: author.avatarUrl,
+        createdAt: author.createdAt,
+        updatedAt: author.updatedAt,
+      },
+      map,
+    };
+  }
+
+  private toResponseDto(smoke: SmokeWithDetails, score: number): SmokeResponseDto {
+    return {
+      id: smoke.id,
+      title: smoke.title,
+      description: smoke.description,
+      grenadeType: smoke.grenadeType,
+      side: smoke.side,
+      callout: smoke.callout,
+      videoUrl: smoke.videoUrl,
+      timestamp: smoke.timestamp,
+      video: this.toVideo(smoke),
+      x_coord: smoke.x_coord,
+      y_coord: smoke.y_coord,
+      throw_x_coord: smoke.throw_x_coord,
+      throw_y_coord: smoke.throw_y_coord,
+      landingLayerId: smoke.landingLayerId,
+      throwLayerId: smoke.throwLayerId,
+      landingZoneId: smoke.landingZoneId,
+      throwZoneId: smoke.throwZoneId,
+      technique: this.toTechnique(smoke),
+      score,
+      createdAt: smoke.createdAt,
+      updatedAt: smoke.updatedAt,
+      author: {
+        id: smoke.author.id,
         steamId: smoke.author.steamId,
         displayName: smoke.author.username, // Map username to displayName
         avatarUrl: smoke.author.avatarUrl,
@@ -175,39 +1350,150 @@ export class SmokesService {
   }
 
   /**
-   * Soft delete a smoke with ownership validation
-   * User can only delete their own smokes
+   * Update a smoke inside a transaction and rebuild its search document from the new values
    */
-  async delete(id: number, userId: number): Promise<void> {
-    // First check if the smoke exists and get its author
-    const smoke = await this.prisma.smoke.findUnique({
+  private async applyChanges(tx: Prisma.TransactionClient, id: number, data: Partial<RevisionSnapshot>): Promise<void> {
+    const updated = await tx.smoke.update({
       where: { id },
+      // Provider columns always follow the stored link, including links restored from old revisions
+      data: data.videoUrl !== undefined ? { ...data, ...this.toVideoColumns(data.videoUrl) } : data,
       select: {
-        id: true,
-        authorId: true,
-        deletedAt: true,
+        title: true,
+        callout: true,
+        description: true,
+        x_coord: true,
+        y_coord: true,
+        throw_x_coord: true,
+        throw_y_coord: true,
+        landingLayerId: true,
+        throwLayerId: true,
+        mapId: true,
+        map: { select: { name: true } },
       },
     });
 
-    if (!smoke) {
-      throw new NotFoundException(`Smoke with ID ${id} not found`);
-    }
+    await this.refreshSearchVector(tx, id, { ...updated, mapName: updated.map.name });
 
-    if (smoke.deletedAt) {
-      throw new NotFoundException(`Smoke with ID ${id} already deleted`);
+    if (POSITION_FIELDS.some((field) => field in data)) {
+      await this.refreshPoints(tx, id);
     }
 
-    // Check ownership
-    if (smoke.authorId !== userId) {
-      throw new ForbiddenException('You can only delete your own smokes');
+    if (ZONED_FIELDS.some((field) => field in data)) {
+      await this.refreshZones(tx, id, updated);
     }
+  }
 
-    // Soft delete the smoke by setting deletedAt
-    await this.prisma.smoke.update({
+  private async refreshPoints(tx: Prisma.TransactionClient, id: number): Promise<void> {
+    await tx.$executeRaw`UPDATE smokes SET ${SMOKE_POINTS_SET} WHERE id = ${id}`;
+  }
+
+  /**
+   * Re-tag the callout zones of a smoke whose points or layers moved
+   */
+  private async refreshZones(
+    tx: Prisma.TransactionClient,
+    id: number,
+    smoke: ZonedPosition & { mapId: number },
+  ): Promise<void> {
+    await tx.smoke.update({
       where: { id },
+      data: tagZones(await findZoneShapes(tx, smoke.mapId), smoke),
+    });
+  }
+
+  private async refreshSearchVector(tx: Prisma.TransactionClient, id: number, document: SearchDocument): Promise<void> {
+    await tx.$executeRaw`UPDATE smokes SET "searchVector" = ${searchVectorSql(document)} WHERE id = ${id}`;
+  }
+
+  /**
+   * Lock a smoke row until the transaction ends and read its current state
+   * Concurrent edits wait for each other, so each one snapshots the state left by the previous
+   */
+  private async lockSmoke(tx: Prisma.TransactionClient, id: number) {
+    await tx.$queryRaw`SELECT id FROM smokes WHERE id = ${id} FOR UPDATE`;
+
+    const smoke = await tx.smoke.findUnique({
+      where: { id },
+    });
+
+    if (!smoke || smoke.deletedAt) {
+      throw new NotFoundException(`Smoke with ID ${id} not found`);
+    }
+
+    return smoke;
+  }
+
+  /**
+   * Store the given state of a smoke as its next revision
+   * The smoke must be locked with lockSmoke, so concurrent edits number their revisions one after another
+   */
+  private async createRevision(
+    tx: Prisma.TransactionClient,
+    smoke: RevisionSnapshot & { id: number },
+    editorId: number,
+  ): Promise<void> {
+    const latest = await tx.smokeRevision.aggregate({
+      where: { smokeId: smoke.id },
+      _max: { revision: true },
+    });
+
+    await tx.smokeRevision.create({
       data: {
-        deletedAt: new Date(),
+        ...this.toSnapshot(smoke),
+        revision: (latest._max.revision ?? 0) + 1,
+        smokeId: smoke.id,
+        editorId,
       },
     });
   }
-}
\ No newline at end of file
+
+  private toSnapshot(source: RevisionSnapshot): RevisionSnapshot {
+    return {
+      title: source.title,
+      description: source.description,
+      grenadeType: source.grenadeType,
+      side: source.side,
+      callout: source.callout,
+      videoUrl: source.videoUrl,
+      timestamp: source.timestamp,
+      x_coord: source.x_coord,
+      y_coord: source.y_coord,
+      throw_x_coord: source.throw_x_coord,
+      throw_y_coord: source.throw_y_coord,
+      landingLayerId: source.landingLayerId,
+      throwLayerId: source.throwLayerId,
+      throwStance: source.throwStance,
+      throwMovement: source.throwMovement,
+      mouseButton: source.mouseButton,
+      requiresJumpThrowBind: source.requiresJumpThrowBind,
+      tickrateSensitive: source.tickrateSensitive,
+    };
+  }
+
+  /**
+   * Keep only the provided fields that differ from the current smoke
+   */
+  private pickChangedFields(current: RevisionSnapshot, fields: Partial<RevisionSnapshot>): Partial<RevisionSnapshot> {
+    const changes: Partial<RevisionSnapshot> = {};
+
+    for (const field of REVISION_FIELDS) {
+      if (fields[field] !== undefined && fields[field] !== current[field]) {
+        (changes as Record<string, unknown>)[field] = fields[field];
+      }
+    }
+
+    return changes;
+  }
+
+  private diffSnapshots(before: RevisionSnapshot, after: RevisionSnapshot): SmokeRevisionResponseDto['changes'] {
+    const changes: SmokeRevisionResponseDto['changes'] = {};
+
+    for (const field of REVISION_FIELDS) {
+      if (before[field] !== after[field]) {
+        changes[field] = { from: before[field], to: after[field] };
+      }
+    }
+
+    return changes;
+  }
+}
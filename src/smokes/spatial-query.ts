@@ -0,0 +1,59 @@
+import { Prisma } from '@prisma/client';
+import { RadarPoint } from '../maps/radar-coordinates';
+
+/**
+ * Region of the radar to look for smokes in, in normalised radar coordinates
+ */
+export type SpatialRegion =
+  | { kind: 'circle'; center: RadarPoint; radius: number }
+  | { kind: 'box'; min: RadarPoint; max: RadarPoint }
+  | { kind: 'polygon'; points: RadarPoint[] };
+
+/**
+ * Assignments that derive the indexed point columns of a smoke from its coordinates
+ * Used with `UPDATE smokes SET ... WHERE ...` by the service and the reindex script
+ */
+export const SMOKE_POINTS_SET = Prisma.sql`
+  "landingPoint" = point(x_coord, y_coord),
+  "throwPoint" = CASE
+    WHEN throw_x_coord IS NULL OR throw_y_coord IS NULL THEN NULL
+    ELSE point(throw_x_coord, throw_y_coord)
+  END
+`;
+
+export function pointSql(point: RadarPoint): Prisma.Sql {
+  return Prisma.sql`point(${point.x}::double precision, ${point.y}::double precision)`;
+}
+
+/**
+ * Build the PostgreSQL geometry of a region, `point <@ region` is answered by the GiST indexes on the point columns
+ */
+export function regionSql(region: SpatialRegion): Prisma.Sql {
+  switch (region.kind) {
+    case 'circle':
+      return Prisma.sql`circle(${pointSql(region.center)}, ${region.radius}::double precision)`;
+    case 'box':
+      return Prisma.sql`box(${pointSql(region.min)}, ${pointSql(region.max)})`;
+    case 'polygon': {
+      const vertices = region.points.map((point) => `(${point.x},${point.y})`).join(',');
+      return Prisma.sql`${`(${vertices})`}::polygon`;
+    }
+  }
+}
+
+/**
+ * Default point to order results by distance from: the circle's center, or the middle of a box or polygon
+ */
+export function regionCenter(region: SpatialRegion): RadarPoint {
+  switch (region.kind) {
+    case 'circle':
+      return region.center;
+    case 'box':
+      return { x: (region.min.x + region.max.x) / 2, y: (region.min.y + region.max.y) / 2 };
+    case 'polygon':
+      return {
+        x: region.points.reduce((sum, point) => sum + point.x, 0) / region.points.length,
+        y: region.points.reduce((sum, point) => sum + point.y, 0) / region.points.length,
+      };
+  }
+}
@@ -259,8 +259,8 @@ describe('Authentication Flow (e2e)', () => {
             title: 'Protected Test Smoke',
             videoUrl: 'https://example.com/protected.mp4',
             timestamp: 30,
-            x_coord: 100.0,
-            y_coord: 200.0,
+            x_coord: 0.1,
+            y_coord: 0.2,
             mapId: testMap.id,
           })
           .expect(201);
@@ -278,7 +278,7 @@ describe('Authentication Flow (e2e)', () => {
         await request(app.getHttpServer())
           .post(`/smokes/${smokeId}/report`)
           .set('Authorization', `Bearer ${authToken}`)
-          .send({ reason: 'Testing protected endpoint access with valid authentication token.' })
+          .send({ category: 'SPAM', comment: 'Testing protected endpoint access with valid authentication token.' })
           .expect(201);
 
         // Test deletion
@@ -294,7 +294,7 @@ describe('Authentication Flow (e2e)', () => {
           { method: 'post', path: '/smokes', body: { title: 'Test', videoUrl: 'https://example.com', timestamp: 30, x_coord: 100, y_coord: 200, mapId: testMap.id } },
           { method: 'delete', path: '/smokes/1' },
           { method: 'post', path: '/smokes/1/rate', body: { value: 1 } },
-          { method: 'post', path: '/smokes/1/report', body: { reason: 'Test report reason for unauthorized access test.' } },
+          { method: 'post', path: '/smokes/1/report', body: { category: 'SPAM' } },
         ];
 
         for (const endpoint of protectedEndpoints) {
@@ -68,8 +68,8 @@ describe('Complete API Workflows (e2e)', () => {
             title: 'Test Smoke',
             videoUrl: 'https://example.com/test.mp4',
             timestamp: 30,
-            x_coord: 100.0,
-            y_coord: 200.0,
+            x_coord: 0.1,
+            y_coord: 0.2,
             mapId: 1,
           })
           .expect(401);
@@ -85,7 +85,7 @@ describe('Complete API Workflows (e2e)', () => {
       it('should reject reporting without authentication', () => {
         return request(app.getHttpServer())
           .post('/smokes/1/report')
-          .send({ reason: 'Test report reason for unauthorized access test.' })
+          .send({ category: 'SPAM', comment: 'Test report reason for unauthorized access test.' })
           .expect(401);
       });
 
@@ -124,10 +124,10 @@ describe('Complete API Workflows (e2e)', () => {
     });
 
     describe('Report Validation', () => {
-      it('should reject report with reason too short', () => {
+      it('should reject report with an unknown category', () => {
         return request(app.getHttpServer())
           .post('/smokes/1/report')
-          .send({ reason: 'short' }) // Invalid: too short
+          .send({ category: 'boring' }) // Invalid: not a report category
           .expect(401); // Unauthorized, but validates request structure
       });
     });
@@ -215,8 +215,8 @@ describe('Complete API Workflows (e2e)', () => {
             title: 'Test',
             videoUrl: 'https://example.com/test.mp4',
             timestamp: 30,
-            x_coord: 100.0,
-            y_coord: 200.0,
+            x_coord: 0.1,
+            y_coord: 0.2,
             mapId: 1,
           })
           .expect(401); // Unauthorized, but validates pipe is working
@@ -288,7 +288,7 @@ describe('Complete API Workflows (e2e)', () => {
           { method: 'post', path: '/smokes', body: { title: 'Test' } },
           { method: 'delete', path: '/smokes/1' },
           { method: 'post', path: '/smokes/1/rate', body: { value: 1 } },
-          { method: 'post', path: '/smokes/1/report', body: { reason: 'Test report reason for security test.' } },
+          { method: 'post', path: '/smokes/1/report', body: { category: 'SPAM' } },
         ];
 
         for (const endpoint of protectedEndpoints) {
@@ -311,8 +311,8 @@ describe('Complete API Workflows (e2e)', () => {
             title: '<script>alert("xss")</script>',
             videoUrl: 'javascript:alert("xss")',
             timestamp: 30,
-            x_coord: 100.0,
-            y_coord: 200.0,
+            x_coord: 0.1,
+            y_coord: 0.2,
             mapId: 1,
           })
           .expect(401); // Should be unauthorized, but validates input handling
@@ -107,8 +107,8 @@ describe('Error Scenarios and Edge Cases (e2e)', () => {
             title: longTitle,
             videoUrl: 'https://example.com/long-title.mp4',
             timestamp: 30,
-            x_coord: 100.0,
-            y_coord: 200.0,
+            x_coord: 0.1,
+            y_coord: 0.2,
             mapId: testMap.id,
           })
           .expect(400)
@@ -136,8 +136,8 @@ describe('Error Scenarios and Edge Cases (e2e)', () => {
                 title: 'URL Test',
                 videoUrl: url,
                 timestamp: 30,
-                x_coord: 100.0,
-                y_coord: 200.0,
+                x_coord: 0.1,
+                y_coord: 0.2,
                 mapId: testMap.id,
               })
               .expect(400)
@@ -182,8 +182,8 @@ describe('Error Scenarios and Edge Cases (e2e)', () => {
             title: 'Rating Test Smoke',
             videoUrl: 'https://example.com/rating-test.mp4',
             timestamp: 30,
-            x_coord: 100.0,
-            y_coord: 200.0,
+            x_coord: 0.1,
+            y_coord: 0.2,
             authorId: testUser.id,
             mapId: testMap.id,
           },
@@ -233,49 +233,48 @@ describe('Error Scenarios and Edge Cases (e2e)', () => {
             title: 'Report Test Smoke',
             videoUrl: 'https://example.com/report-test.mp4',
             timestamp: 30,
-            x_coord: 100.0,
-            y_coord: 200.0,
+            x_coord: 0.1,
+            y_coord: 0.2,
             authorId: testUser.id,
             mapId: testMap.id,
           },
         });
       });
 
-      it('should reject report with reason too short', () => {
-        const shortReasons = ['', 'a', 'short', 'too short']; // All under 10 characters
+      it('should reject report without a known category', () => {
+        const invalidBodies = [{}, { category: 'boring' }, { comment: 'No category given for this report' }];
 
         return Promise.all(
-          shortReasons.map(reason =>
+          invalidBodies.map(body =>
             request(app.getHttpServer())
               .post(`/smokes/${testSmoke.id}/report`)
               .set('Authorization', `Bearer ${authToken}`)
-              .send({ reason })
+              .send(body)
               .expect(400)
           )
         );
       });
 
-      it('should reject report with reason too long', () => {
-        const longReason = 'A'.repeat(501); // Exceeds 500 character limit
+      it('should reject report with comment too long', () => {
+        const longComment = 'A'.repeat(501); // Exceeds 500 character limit
 
         return request(app.getHttpServer())
           .post(`/smokes/${testSmoke.id}/report`)
           .set('Authorization', `Bearer ${authToken}`)
-          .send({ reason: longReason })
+          .send({ category: 'SPAM', comment: longComment })
           .expect(400)
           .expect((res) => {
-            expect(res.body.message).toContain('Reason must not exceed 500 characters');
+            expect(res.body.message).toContain('Comment must not exceed 500 characters');
           });
       });
 
-      it('should accept report with reason at boundary lengths', async () => {
-        const minReason = 'A'.repeat(10); // Minimum valid length
-        const maxReason = 'A'.repeat(500); // Maximum valid length
+      it('should accept report without a comment and with a comment at the maximum length', async () => {
+        const maxComment = 'A'.repeat(500); // Maximum valid length
 
         await request(app.getHttpServer())
           .post(`/smokes/${testSmoke.id}/report`)
           .set('Authorization', `Bearer ${authToken}`)
-          .send({ reason: minReason })
+          .send({ category: 'BROKEN_VIDEO' })
           .expect(201);
 
         // Create another smoke for the second test
@@ -284,8 +283,8 @@ describe('Error Scenarios and Edge Cases (e2e)', () => {
             title: 'Another Report Test Smoke',
             videoUrl: 'https://example.com/another-report-test.mp4',
             timestamp: 45,
-            x_coord: 150.0,
-            y_coord: 250.0,
+            x_coord: 0.15,
+            y_coord: 0.25,
             authorId: testUser.id,
             mapId: testMap.id,
           },
@@ -294,7 +293,7 @@ describe('Error Scenarios and Edge Cases (e2e)', () => {
         await request(app.getHttpServer())
           .post(`/smokes/${anotherSmoke.id}/report`)
           .set('Authorization', `Bearer ${authToken}`)
-          .send({ reason: maxReason })
+          .send({ category: 'SPAM', comment: maxComment })
           .expect(201);
       });
     });
@@ -306,7 +305,7 @@ describe('Error Scenarios and Edge Cases (e2e)', () => {
         { method: 'get', path: '/maps/999999/smokes', description: 'smokes for non-existent map' },
         { method: 'delete', path: '/smokes/999999', auth: true, description: 'non-existent smoke deletion' },
         { method: 'post', path: '/smokes/999999/rate', auth: true, body: { value: 1 }, description: 'rating non-existent smoke' },
-        { method: 'post', path: '/smokes/999999/report', auth: true, body: { reason: 'Test report for non-existent smoke resource.' }, description: 'reporting non-existent smoke' },
+        { method: 'post', path: '/smokes/999999/report', auth: true, body: { category: 'SPAM' }, description: 'reporting non-existent smoke' },
       ];
 
       for (const test of notFoundTests) {
@@ -337,7 +336,7 @@ describe('Error Scenarios and Edge Cases (e2e)', () => {
         { method: 'get', path: '/maps/abc/smokes', description: 'invalid map ID in smokes endpoint' },
         { method: 'delete', path: '/smokes/invalid-id', auth: true, description: 'invalid smoke ID for deletion' },
         { method: 'post', path: '/smokes/abc/rate', auth: true, body: { value: 1 }, description: 'invalid smoke ID for rating' },
-        { method: 'post', path: '/smokes/xyz/report', auth: true, body: { reason: 'Test report for invalid smoke ID format.' }, description: 'invalid smoke ID for reporting' },
+        { method: 'post', path: '/smokes/xyz/report', auth: true, body: { category: 'SPAM' }, description: 'invalid smoke ID for reporting' },
       ];
 
       for (const test of invalidIdTests) {
@@ -373,8 +372,8 @@ describe('Error Scenarios and Edge Cases (e2e)', () => {
           title: 'Ownership Test Smoke',
           videoUrl: 'https://example.com/ownership-test.mp4',
           timestamp: 30,
-          x_coord: 100.0,
-          y_coord: 200.0,
+          x_coord: 0.1,
+          y_coord: 0.2,
           authorId: testUser.id,
           mapId: testMap.id,
         },
@@ -439,8 +438,8 @@ describe('Error Scenarios and Edge Cases (e2e)', () => {
           title: 'Foreign Key Test',
           videoUrl: 'https://example.com/fk-test.mp4',
           timestamp: 30,
-          x_coord: 100.0,
-          y_coord: 200.0,
+          x_coord: 0.1,
+          y_coord: 0.2,
           mapId: 999999, // Non-existent map ID
         })
         .expect(400);
@@ -452,8 +451,8 @@ describe('Error Scenarios and Edge Cases (e2e)', () => {
           title: 'Concurrent Rating Test',
           videoUrl: 'https://example.com/concurrent-rating.mp4',
           timestamp: 30,
-          x_coord: 100.0,
-          y_coord: 200.0,
+          x_coord: 0.1,
+          y_coord: 0.2,
           authorId: testUser.id,
           mapId: testMap.id,
         },
@@ -512,8 +511,8 @@ describe('Error Scenarios and Edge Cases (e2e)', () => {
         title: 'A'.repeat(10000), // Extremely long title
         videoUrl: 'https://example.com/large.mp4',
         timestamp: 30,
-        x_coord: 100.0,
-        y_coord: 200.0,
+        x_coord: 0.1,
+        y_coord: 0.2,
         mapId: testMap.id,
       };
 
@@ -555,8 +554,8 @@ describe('Error Scenarios and Edge Cases (e2e)', () => {
           title: 'Rapid Request Test',
           videoUrl: 'https://example.com/rapid-test.mp4',
           timestamp: 30,
-          x_coord: 100.0,
-          y_coord: 200.0,
+          x_coord: 0.1,
+          y_coord: 0.2,
           authorId: testUser.id,
           mapId: testMap.id,
         },
@@ -617,8 +616,8 @@ describe('Error Scenarios and Edge Cases (e2e)', () => {
           title: 'Zero Timestamp',
           videoUrl: 'https://example.com/zero.mp4',
           timestamp: 0, // Should be rejected (must be positive)
-          x_coord: 100.0,
-          y_coord: 200.0,
+          x_coord: 0.1,
+          y_coord: 0.2,
           mapId: testMap.id,
         })
         .expect(400);
@@ -632,8 +631,8 @@ describe('Error Scenarios and Edge Cases (e2e)', () => {
           title: '🎮 CS2 Smoke 💨 Test 中文 العربية',
           videoUrl: 'https://example.com/unicode.mp4',
           timestamp: 30,
-          x_coord: 100.0,
-          y_coord: 200.0,
+          x_coord: 0.1,
+          y_coord: 0.2,
           mapId: testMap.id,
         })
         .expect(201);
@@ -0,0 +1,104 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigModule } from '@nestjs/config';
+import { Map, User } from '@prisma/client';
+import { PrismaService } from '../src/prisma/prisma.service';
+import { PrismaModule } from '../src/prisma/prisma.module';
+import { AuditService } from '../src/audit/audit.service';
+import { SmokesService } from '../src/smokes/smokes.service';
+
+// Seeds and reads real rows, so it only runs against a test database
+const describeWithDatabase = process.env.DATABASE_URL ? describe : describe.skip;
+
+describeWithDatabase('Smoke listing query count (integration)', () => {
+  const SMALL = 5;
+  const LARGE = SMALL * 20;
+  const AUTHORS = 25;
+
+  let module: TestingModule;
+  let prismaService: PrismaService;
+  let smokesService: SmokesService;
+  let map: Map;
+  let authors: User[];
+  let queryCount = 0;
+
+  beforeAll(async () => {
+    module = await Test.createTestingModule({
+      imports: [ConfigModule.forRoot({ isGlobal: true, ignoreEnvFile: true }), PrismaModule],
+      providers: [SmokesService, AuditService],
+    }).compile();
+    await module.init();
+
+    prismaService = module.get<PrismaService>(PrismaService);
+    smokesService = module.get<SmokesService>(SmokesService);
+    prismaService.$on('query', () => {
+      queryCount++;
+    });
+
+    const suffix = Date.now();
+    map = await prismaService.map.create({
+      data: { name: `Query count ${suffix}`, thumbnail: 'query-count.jpg', radar: 'query-count-radar.jpg' },
+    });
+    authors = await Promise.all(
+      Array.from({ length: AUTHORS }, (_, index) =>
+        prismaService.user.create({ data: { steamId: `query-count-${suffix}-${index}`, username: `author${index}` } }),
+      ),
+    );
+  });
+
+  afterAll(async () => {
+    if (map) {
+      // Smokes and their ratings cascade with the map and the authors
+      await prismaService.map.delete({ where: { id: map.id } });
+      await prismaService.user.deleteMany({ where: { id: { in: authors.map((author) => author.id) } } });
+    }
+
+    await module?.close();
+  });
+
+  /**
+   * Add smokes to the map until it holds `total`, spread over every author and rated by some of them
+   */
+  const seedSmokes = async (total: number) => {
+    const existing = await prismaService.smoke.count({ where: { mapId: map.id } });
+
+    for (let index = existing; index < total; index++) {
+      const smoke = await prismaService.smoke.create({
+        data: {
+          title: `Lineup ${index}`,
+          videoUrl: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+          timestamp: index + 1,
+          x_coord: (index % 10) / 10,
+          y_coord: Math.floor(index / 10) / 100,
+          mapId: map.id,
+          authorId: authors[index % AUTHORS].id,
+        },
+      });
+
+      await prismaService.rating.create({
+        data: { value: index % 3 === 0 ? -1 : 1, smokeId: smoke.id, userId: authors[(index + 1) % AUTHORS].id },
+      });
+    }
+  };
+
+  const countListingQueries = async () => {
+    queryCount = 0;
+    const page = await smokesService.findByMapId(map.id, { limit: 100 });
+
+    return { queries: queryCount, page };
+  };
+
+  it('should list a map with many smokes in as many queries as a map with a few', async () => {
+    await seedSmokes(SMALL);
+    const small = await countListingQueries();
+
+    await seedSmokes(LARGE);
+    const large = await countListingQueries();
+
+    expect(small.page.data).toHaveLength(SMALL);
+    expect(large.page.data).toHaveLength(LARGE);
+    expect(new Set(large.page.data.map((smoke) => smoke.author.id)).size).toBe(AUTHORS);
+    // The map lookup, the listing itself and one batched author lookup, so a silent query listener fails the test
+    expect(small.queries).toBe(3);
+    expect(large.queries).toBe(small.queries);
+  });
+});